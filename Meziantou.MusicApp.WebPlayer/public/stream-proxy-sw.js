@@ -0,0 +1,112 @@
+// Stream proxy, imported by the generated service worker (see vite.config.ts)
+//
+// The audio element cannot send the Authorization header, so it plays /stream-proxy?url=<stream url> instead.
+// The request is forwarded to the server with the auth headers provided by the page, and with the Range
+// header of the audio element, so playback starts with the first bytes and seeking uses range requests.
+// The download throughput is reported to the page, which selects the streaming quality from it.
+
+const STREAM_PROXY_PATH = '/stream-proxy';
+const AUTH_REQUEST_TYPE = 'stream-proxy:get-auth-headers';
+const AUTH_REQUEST_TIMEOUT = 5000;
+const THROUGHPUT_MESSAGE_TYPE = 'stream-proxy:throughput';
+const THROUGHPUT_REPORT_BYTES = 512 * 1024;
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || url.pathname !== STREAM_PROXY_PATH) {
+    return;
+  }
+
+  event.respondWith(handleStreamRequest(event));
+});
+
+async function handleStreamRequest(event) {
+  const streamUrl = new URL(event.request.url).searchParams.get('url');
+  if (!streamUrl) {
+    return new Response('Missing url parameter', { status: 400 });
+  }
+
+  const headers = new Headers(await getAuthHeaders(event.clientId, streamUrl));
+  const range = event.request.headers.get('Range');
+  if (range) {
+    headers.set('Range', range);
+  }
+
+  let response;
+  try {
+    response = await fetch(streamUrl, { headers, signal: event.request.signal });
+  } catch (error) {
+    return new Response(String(error), { status: 502 });
+  }
+
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  // The status and the headers are kept, as the audio element needs Content-Range and Accept-Ranges to seek
+  return new Response(measureThroughput(response.body, event.clientId), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// Passes the body through to the audio element, and reports the time spent waiting for the network.
+// A chunk is only read from the network when the audio element asks for it, so the time the audio element
+// doesn't read, e.g. once its buffer is full, isn't counted. A TransformStream would read ahead of the audio
+// element, and couldn't tell whether a chunk waited for the network or for the audio element.
+function measureThroughput(body, clientId) {
+  const reader = body.getReader();
+  let bytes = 0;
+  let duration = 0;
+
+  return new ReadableStream({
+    async pull(controller) {
+      const start = performance.now();
+      const { done, value } = await reader.read();
+      duration += performance.now() - start;
+      if (!done) {
+        bytes += value.byteLength;
+        controller.enqueue(value);
+      }
+
+      if (bytes >= THROUGHPUT_REPORT_BYTES || (done && bytes > 0)) {
+        reportThroughput(clientId, bytes, duration);
+        bytes = 0;
+        duration = 0;
+      }
+      if (done) {
+        controller.close();
+      }
+    },
+    // The audio element cancels the stream when it seeks, or when the track changes
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+}
+
+async function reportThroughput(clientId, bytes, duration) {
+  const client = clientId && await self.clients.get(clientId);
+  client?.postMessage({ type: THROUGHPUT_MESSAGE_TYPE, bytes, duration });
+}
+
+// The service worker doesn't store the token, it asks the page that plays the stream.
+// The page only answers for the URLs of the configured server.
+async function getAuthHeaders(clientId, streamUrl) {
+  const client = (clientId && await self.clients.get(clientId))
+    ?? (await self.clients.matchAll({ type: 'window' }))[0];
+  if (!client) {
+    return {};
+  }
+
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve({}), AUTH_REQUEST_TIMEOUT);
+    channel.port1.onmessage = (message) => {
+      clearTimeout(timeout);
+      resolve(message.data?.headers ?? {});
+    };
+    client.postMessage({ type: AUTH_REQUEST_TYPE, url: streamUrl }, [channel.port2]);
+  });
+}
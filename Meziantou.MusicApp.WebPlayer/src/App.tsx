@@ -1,15 +1,26 @@
 import { useState, useEffect } from 'react';
 import { AppProvider, useApp } from './hooks';
 import { audioPlayer } from './services';
-import type { TrackInfo } from './types';
+import { getAdjacentPlaybackRate } from './utils';
+import type { SmartPlaylist, TrackInfo } from './types';
 import {
   PlaylistSidebar,
   TrackList,
+  AlbumGrid,
+  AlbumDetail,
+  ArtistIndex,
+  ArtistDetail,
+  SearchView,
+  HistoryView,
   PlayerBar,
   QueuePanel,
+  LyricsPanel,
   SettingsDialog,
   CacheDiagnosticsDialog,
   SongDetailsDialog,
+  SmartPlaylistDialog,
+  EqualizerDialog,
+  NowPlayingView,
   UpdateNotification,
 } from './components';
 import './styles/main.css';
@@ -17,11 +28,20 @@ import './styles/main.css';
 const VOLUME_STEP = 0.05;
 
 function AppContent() {
-  const { isLoading, settings, isInitialized, playerActions } = useApp();
+  const { isLoading, settings, isInitialized, playerActions, currentView, showSearch } = useApp();
   const [queueOpen, setQueueOpen] = useState(false);
+  const [lyricsOpen, setLyricsOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
   const [songDetailsTrack, setSongDetailsTrack] = useState<TrackInfo | null>(null);
+  const [smartPlaylistEditor, setSmartPlaylistEditor] = useState<{ playlist?: SmartPlaylist } | null>(null);
+  const [equalizerOpen, setEqualizerOpen] = useState(false);
+  // The now playing view stays open across sessions, as it is the main screen on phones
+  const [nowPlayingOpen, setNowPlayingOpen] = useState(() => localStorage.getItem('nowPlayingOpen') === 'true');
+
+  useEffect(() => {
+    localStorage.setItem('nowPlayingOpen', String(nowPlayingOpen));
+  }, [nowPlayingOpen]);
 
   // Show settings on first load if not configured (only after initialization)
   useEffect(() => {
@@ -77,6 +97,17 @@ function AppContent() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Ctrl+Shift+F to open the library-wide search
+      if (e.ctrlKey && e.shiftKey && e.code === 'KeyF') {
+        e.preventDefault();
+        if (currentView.type === 'search') {
+          window.dispatchEvent(new CustomEvent('focusSearchInput'));
+        } else {
+          showSearch('');
+        }
+        return;
+      }
+
       // Ctrl+F to focus search (works even when in inputs)
       if (e.ctrlKey && e.code === 'KeyF') {
         e.preventDefault();
@@ -124,17 +155,35 @@ function AppContent() {
             playerActions.setVolume(Math.max(0, audioPlayer.getVolume() - 0.05));
           }
           break;
+        case 'Period':
+          // Shift+. (>) to play faster
+          if (e.shiftKey) {
+            e.preventDefault();
+            playerActions.setPlaybackRate(getAdjacentPlaybackRate(audioPlayer.getPlaybackRate(), 'faster'));
+          }
+          break;
+        case 'Comma':
+          // Shift+, (<) to play slower
+          if (e.shiftKey) {
+            e.preventDefault();
+            playerActions.setPlaybackRate(getAdjacentPlaybackRate(audioPlayer.getPlaybackRate(), 'slower'));
+          }
+          break;
         case 'Escape':
           setQueueOpen(false);
+          setLyricsOpen(false);
           setSettingsOpen(false);
           setSongDetailsTrack(null);
+          setSmartPlaylistEditor(null);
+          setEqualizerOpen(false);
+          setNowPlayingOpen(false);
           break;
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [playerActions]);
+  }, [playerActions, currentView.type, showSearch]);
 
   // Show loading screen until initialized
   if (!isInitialized) {
@@ -149,22 +198,52 @@ function AppContent() {
     <>
       <div className="app-layout">
         <aside className="sidebar-container">
-          <PlaylistSidebar onSettingsClick={() => setSettingsOpen(true)} />
+          <PlaylistSidebar
+            onSettingsClick={() => setSettingsOpen(true)}
+            onEditSmartPlaylist={(playlist) => setSmartPlaylistEditor({ playlist })}
+          />
         </aside>
         <main className="main-content">
           <div className="track-list-wrapper">
-            <TrackList />
+            {currentView.type === 'albums' ? (
+              <AlbumGrid />
+            ) : currentView.type === 'album' ? (
+              <AlbumDetail albumId={currentView.albumId} />
+            ) : currentView.type === 'artists' ? (
+              <ArtistIndex />
+            ) : currentView.type === 'artist' ? (
+              <ArtistDetail artistId={currentView.artistId} />
+            ) : currentView.type === 'search' ? (
+              <SearchView query={currentView.query} />
+            ) : currentView.type === 'history' ? (
+              <HistoryView />
+            ) : (
+              <TrackList />
+            )}
           </div>
         </main>
         <footer className="player-bar-container">
           <PlayerBar
-            onQueueClick={() => setQueueOpen(!queueOpen)}
+            onQueueClick={() => {
+              // The queue and lyrics panels take the same place
+              setQueueOpen(!queueOpen);
+              setLyricsOpen(false);
+            }}
+            onLyricsClick={() => {
+              setLyricsOpen(!lyricsOpen);
+              setQueueOpen(false);
+            }}
+            onEqualizerClick={() => setEqualizerOpen(true)}
+            onNowPlayingClick={() => setNowPlayingOpen(!nowPlayingOpen)}
           />
         </footer>
       </div>
 
+      <NowPlayingView isOpen={nowPlayingOpen} onClose={() => setNowPlayingOpen(false)} />
+
       <div className="queue-panel-container">
         <QueuePanel isOpen={queueOpen} onClose={() => setQueueOpen(false)} />
+        <LyricsPanel isOpen={lyricsOpen} onClose={() => setLyricsOpen(false)} />
       </div>
 
       <SettingsDialog 
@@ -186,6 +265,17 @@ function AppContent() {
         onClose={() => setSongDetailsTrack(null)}
       />
 
+      <SmartPlaylistDialog
+        isOpen={smartPlaylistEditor !== null}
+        playlist={smartPlaylistEditor?.playlist}
+        onClose={() => setSmartPlaylistEditor(null)}
+      />
+
+      <EqualizerDialog
+        isOpen={equalizerOpen}
+        onClose={() => setEqualizerOpen(false)}
+      />
+
       <UpdateNotification />
 
       {isLoading && (
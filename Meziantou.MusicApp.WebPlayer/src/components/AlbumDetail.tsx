@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { TrackInfo } from '../types';
+import { ALBUM_PLAYLIST_PREFIX } from '../constants';
+import { formatDuration, getAlbumTracks } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+import { PlayingIndicator } from './PlayingIndicator';
+
+interface AlbumDetailProps {
+  albumId: string;
+}
+
+export function AlbumDetail({ albumId }: AlbumDetailProps) {
+  const {
+    albums,
+    libraryTracks,
+    showAlbums,
+    playTracks,
+    playerState,
+    playerActions,
+    playingPlaylistId,
+    cachedTrackIds,
+    isOnline,
+    highlightedTrackId,
+  } = useApp();
+  const highlightedTrackRef = useRef<HTMLDivElement>(null);
+
+  const album = albums.find(a => a.id === albumId);
+  const tracks = useMemo(() => getAlbumTracks(libraryTracks, albumId), [libraryTracks, albumId]);
+  const playlistId = `${ALBUM_PLAYLIST_PREFIX}${albumId}`;
+  const isAlbumPlaying = playingPlaylistId === playlistId;
+
+  const name = album?.name ?? tracks[0]?.album ?? 'Unknown Album';
+  const artist = album?.artist ?? tracks[0]?.artists ?? 'Unknown Artist';
+  const year = album?.year ?? tracks[0]?.year ?? null;
+  const genre = album?.genre ?? tracks[0]?.genre ?? null;
+  const totalDuration = tracks.reduce((sum, t) => sum + t.duration, 0);
+
+  const handlePlayTrack = (track?: TrackInfo) => {
+    playTracks(playlistId, tracks, { startTrack: track });
+  };
+
+  // Track opened from a link
+  useEffect(() => {
+    highlightedTrackRef.current?.scrollIntoView({ block: 'center' });
+  }, [highlightedTrackId, tracks]);
+
+  return (
+    <div className="album-detail">
+      <div className="album-detail-header">
+        <button className="icon-button album-detail-back" title="Back to albums" aria-label="Back to albums" onClick={showAlbums}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
+          </svg>
+        </button>
+        <CoverImage
+          albumId={albumId}
+          size={256}
+          className="album-detail-cover"
+          alt={`${name} cover`}
+        />
+        <div className="album-detail-info">
+          <h2 className="album-detail-name">{name}</h2>
+          <p className="album-detail-artist">{artist}</p>
+          <p className="album-detail-meta">
+            {[year, genre, `${tracks.length} tracks`, formatDuration(totalDuration)].filter(Boolean).join(' • ')}
+          </p>
+          <button
+            className="primary-button album-detail-play"
+            onClick={() => handlePlayTrack()}
+            disabled={tracks.length === 0}
+          >
+            Play Album
+          </button>
+        </div>
+      </div>
+
+      <div className="album-detail-tracks">
+        {tracks.length === 0 ? (
+          <div className="empty-state">No tracks</div>
+        ) : (
+          tracks.map((track, index) => {
+            const isPlaying = isAlbumPlaying && track.id === playerState.currentTrack?.id;
+            const isAvailable = isOnline || cachedTrackIds.has(track.id);
+            const isHighlighted = track.id === highlightedTrackId;
+            const className = [
+              'track-item',
+              isPlaying && 'playing',
+              !isAvailable && 'unavailable',
+              isHighlighted && 'highlighted',
+            ].filter(Boolean).join(' ');
+
+            return (
+              <div
+                key={track.id}
+                ref={isHighlighted ? highlightedTrackRef : undefined}
+                className={className}
+                onDoubleClick={() => isAvailable && handlePlayTrack(track)}
+              >
+                <div className="track-index-container">
+                  <span className="track-index">{track.track ?? index + 1}</span>
+                  <PlayingIndicator
+                    isPlaying={isPlaying}
+                    isPaused={!playerState.isPlaying}
+                    onTogglePlay={() => {
+                      if (isPlaying) {
+                        playerActions.togglePlayPause();
+                      } else if (isAvailable) {
+                        handlePlayTrack(track);
+                      }
+                    }}
+                  />
+                </div>
+                <div className="track-info">
+                  <span className="track-title">{track.title}</span>
+                  <span className="track-artist">{track.artists || 'Unknown Artist'}</span>
+                </div>
+                <span className="track-duration">{formatDuration(track.duration)}</span>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AlbumInfo, AlbumSortOption } from '../types';
+import { matchesSearch, debounce } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+
+type SortDirection = 'asc' | 'desc';
+
+const SORT_OPTIONS: { label: string; value: AlbumSortOption }[] = [
+  { label: 'Name', value: 'name' },
+  { label: 'Artist', value: 'artist' },
+  { label: 'Year', value: 'year' },
+  { label: 'Added Date', value: 'added' },
+];
+
+function compareAlbums(a: AlbumInfo, b: AlbumInfo, option: AlbumSortOption): number {
+  switch (option) {
+    case 'artist': {
+      const res = (a.artist || '').localeCompare(b.artist || '');
+      return res !== 0 ? res : (a.year ?? 0) - (b.year ?? 0);
+    }
+    case 'year': {
+      const res = (a.year ?? 0) - (b.year ?? 0);
+      return res !== 0 ? res : a.name.localeCompare(b.name);
+    }
+    case 'added':
+      return new Date(a.created).getTime() - new Date(b.created).getTime();
+    case 'name':
+    default:
+      return a.name.localeCompare(b.name);
+  }
+}
+
+export function AlbumGrid() {
+  const { albums, loadAlbums, selectAlbum, isOnline } = useApp();
+
+  const [isLoading, setIsLoading] = useState(albums.length === 0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortOption, setSortOption] = useState<AlbumSortOption>(
+    () => (localStorage.getItem('albumSortOption') as AlbumSortOption | null) ?? 'name'
+  );
+  const [sortDirection, setSortDirection] = useState<SortDirection>(
+    () => (localStorage.getItem('albumSortDirection') as SortDirection | null) ?? 'asc'
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAlbums().finally(() => {
+      if (!cancelled) setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only refresh when the view is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('albumSortOption', sortOption);
+    localStorage.setItem('albumSortDirection', sortDirection);
+  }, [sortOption, sortDirection]);
+
+  const debouncedSearch = useMemo(
+    () => debounce((query: string) => setSearchQuery(query), 150),
+    []
+  );
+
+  const sortedAlbums = useMemo(() => {
+    let result = albums;
+    if (searchQuery) {
+      result = result.filter(album =>
+        matchesSearch(album.name, searchQuery) ||
+        matchesSearch(album.artist, searchQuery)
+      );
+    }
+
+    return [...result].sort((a, b) => {
+      const res = compareAlbums(a, b, sortOption);
+      return sortDirection === 'asc' ? res : -res;
+    });
+  }, [albums, searchQuery, sortOption, sortDirection]);
+
+  const handleSortChange = (option: AlbumSortOption) => {
+    if (option === sortOption) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortOption(option);
+      // Default directions: Year/Added -> Desc, Others -> Asc
+      setSortDirection(option === 'year' || option === 'added' ? 'desc' : 'asc');
+    }
+  };
+
+  return (
+    <div className="album-grid-container">
+      <div className="track-list-header">
+        <div className="search-container">
+          <svg className="search-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+          </svg>
+          <input
+            type="search"
+            className="search-input"
+            placeholder="Search albums..."
+            aria-label="Search albums"
+            onChange={(e) => debouncedSearch(e.target.value)}
+          />
+        </div>
+
+        <div className="album-sort" role="group" aria-label="Sort albums">
+          {SORT_OPTIONS.map(opt => (
+            <button
+              key={opt.value}
+              className={`album-sort-btn ${sortOption === opt.value ? 'active' : ''}`}
+              onClick={() => handleSortChange(opt.value)}
+            >
+              {opt.label}
+              {sortOption === opt.value && (
+                <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14" style={{ transform: sortDirection === 'desc' ? 'rotate(180deg)' : 'none' }}>
+                  <path d="M7 14l5-5 5 5z" />
+                </svg>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="track-count">{sortedAlbums.length} albums</div>
+      </div>
+
+      <div className="album-grid-scroll">
+        {isLoading && albums.length === 0 ? (
+          <div className="empty-state">Loading albums...</div>
+        ) : albums.length === 0 ? (
+          <div className="empty-state">
+            {isOnline ? 'No albums' : 'Albums are not available offline'}
+          </div>
+        ) : (
+          <div className="album-grid">
+            {sortedAlbums.map(album => (
+              <AlbumCard
+                key={album.id}
+                album={album}
+                onSelect={() => selectAlbum(album.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface AlbumCardProps {
+  album: AlbumInfo;
+  onSelect: () => void;
+}
+
+export function AlbumCard({ album, onSelect }: AlbumCardProps) {
+  return (
+    <div
+      className="album-card"
+      onClick={onSelect}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
+      <CoverImage
+        albumId={album.id}
+        size={256}
+        className="album-card-cover"
+        alt=""
+        lazy
+      />
+      <span className="album-card-name" title={album.name}>{album.name}</span>
+      <span className="album-card-info">
+        {album.artist || 'Unknown Artist'}{album.year ? ` • ${album.year}` : ''}
+      </span>
+    </div>
+  );
+}
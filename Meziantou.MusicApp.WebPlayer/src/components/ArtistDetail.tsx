@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { ARTIST_PLAYLIST_PREFIX } from '../constants';
+import { formatDuration, getArtistTracks, groupAlbumsByYear } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+import { AlbumCard } from './AlbumGrid';
+
+interface ArtistDetailProps {
+  artistId: string;
+}
+
+export function ArtistDetail({ artistId }: ArtistDetailProps) {
+  const {
+    artists,
+    albums,
+    libraryTracks,
+    showArtists,
+    selectAlbum,
+    playTracks,
+  } = useApp();
+
+  const artist = artists.find(a => a.id === artistId);
+  const tracks = useMemo(() => getArtistTracks(libraryTracks, artistId), [libraryTracks, artistId]);
+  const yearGroups = useMemo(
+    () => groupAlbumsByYear(albums.filter(album => album.artistId === artistId)),
+    [albums, artistId]
+  );
+
+  const name = artist?.name ?? tracks[0]?.artists ?? 'Unknown Artist';
+  const albumCount = yearGroups.reduce((sum, group) => sum + group.albums.length, 0);
+  const totalDuration = tracks.reduce((sum, t) => sum + t.duration, 0);
+  const playlistId = `${ARTIST_PLAYLIST_PREFIX}${artistId}`;
+
+  return (
+    <div className="artist-detail">
+      <div className="album-detail-header">
+        <button className="icon-button album-detail-back" title="Back to artists" aria-label="Back to artists" onClick={showArtists}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
+          </svg>
+        </button>
+        <CoverImage
+          artistId={artistId}
+          size={256}
+          className="album-detail-cover artist-detail-image"
+          alt={name}
+        />
+        <div className="album-detail-info">
+          <h2 className="album-detail-name">{name}</h2>
+          <p className="album-detail-meta">
+            {[
+              `${albumCount} ${albumCount === 1 ? 'album' : 'albums'}`,
+              `${tracks.length} tracks`,
+              formatDuration(totalDuration),
+            ].join(' • ')}
+          </p>
+          <div className="artist-detail-actions">
+            <button
+              className="primary-button"
+              onClick={() => playTracks(playlistId, tracks, { shuffle: false })}
+              disabled={tracks.length === 0}
+            >
+              Play All
+            </button>
+            <button
+              className="secondary-button"
+              onClick={() => playTracks(playlistId, tracks, { shuffle: true })}
+              disabled={tracks.length === 0}
+            >
+              Shuffle All
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="album-grid-scroll">
+        {yearGroups.length === 0 ? (
+          <div className="empty-state">No albums</div>
+        ) : (
+          yearGroups.map(group => (
+            <section key={group.year ?? 'unknown'} className="artist-discography-year">
+              <h3 className="artist-discography-year-title">{group.year ?? 'Unknown Year'}</h3>
+              <div className="album-grid">
+                {group.albums.map(album => (
+                  <AlbumCard
+                    key={album.id}
+                    album={album}
+                    onSelect={() => selectAlbum(album.id)}
+                  />
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { ArtistInfo } from '../types';
+import { matchesSearch, debounce, getIndexLetter } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+
+const INDEX_LETTERS = ['#', ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'];
+
+export function ArtistIndex() {
+  const { artists, loadArtists, selectArtist, isOnline } = useApp();
+
+  const [isLoading, setIsLoading] = useState(artists.length === 0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const sectionRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    loadArtists().finally(() => {
+      if (!cancelled) setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only refresh when the view is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const debouncedSearch = useMemo(
+    () => debounce((query: string) => setSearchQuery(query), 150),
+    []
+  );
+
+  const sections = useMemo(() => {
+    const filtered = searchQuery
+      ? artists.filter(artist => matchesSearch(artist.name, searchQuery))
+      : artists;
+
+    const groups = new Map<string, ArtistInfo[]>();
+    for (const artist of [...filtered].sort((a, b) => a.name.localeCompare(b.name))) {
+      const letter = getIndexLetter(artist.name);
+      const group = groups.get(letter);
+      if (group) {
+        group.push(artist);
+      } else {
+        groups.set(letter, [artist]);
+      }
+    }
+
+    return INDEX_LETTERS
+      .filter(letter => groups.has(letter))
+      .map(letter => ({ letter, artists: groups.get(letter)! }));
+  }, [artists, searchQuery]);
+
+  const availableLetters = useMemo(() => new Set(sections.map(s => s.letter)), [sections]);
+  const artistCount = sections.reduce((sum, s) => sum + s.artists.length, 0);
+
+  const handleJump = (letter: string) => {
+    sectionRefs.current.get(letter)?.scrollIntoView({ block: 'start' });
+  };
+
+  return (
+    <div className="artist-index">
+      <div className="track-list-header">
+        <div className="search-container">
+          <svg className="search-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+          </svg>
+          <input
+            type="search"
+            className="search-input"
+            placeholder="Search artists..."
+            aria-label="Search artists"
+            onChange={(e) => debouncedSearch(e.target.value)}
+          />
+        </div>
+        <div className="track-count">{artistCount} artists</div>
+      </div>
+
+      <div className="artist-index-body">
+        <div className="artist-index-scroll">
+          {isLoading && artists.length === 0 ? (
+            <div className="empty-state">Loading artists...</div>
+          ) : artists.length === 0 ? (
+            <div className="empty-state">
+              {isOnline ? 'No artists' : 'Artists are not available offline'}
+            </div>
+          ) : (
+            sections.map(section => (
+              <div
+                key={section.letter}
+                className="artist-index-section"
+                ref={(el) => {
+                  if (el) {
+                    sectionRefs.current.set(section.letter, el);
+                  } else {
+                    sectionRefs.current.delete(section.letter);
+                  }
+                }}
+              >
+                <h3 className="artist-index-letter">{section.letter}</h3>
+                {section.artists.map(artist => (
+                  <ArtistItem
+                    key={artist.id}
+                    artist={artist}
+                    onSelect={() => selectArtist(artist.id)}
+                  />
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        <nav className="artist-jump-bar" aria-label="Jump to letter">
+          {INDEX_LETTERS.map(letter => (
+            <button
+              key={letter}
+              className="artist-jump-letter"
+              disabled={!availableLetters.has(letter)}
+              onClick={() => handleJump(letter)}
+            >
+              {letter}
+            </button>
+          ))}
+        </nav>
+      </div>
+    </div>
+  );
+}
+
+interface ArtistItemProps {
+  artist: ArtistInfo;
+  onSelect: () => void;
+}
+
+export function ArtistItem({ artist, onSelect }: ArtistItemProps) {
+  return (
+    <div
+      className="artist-item"
+      onClick={onSelect}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
+      <CoverImage
+        artistId={artist.id}
+        size={96}
+        className="artist-item-image"
+        alt=""
+        lazy
+      />
+      <div className="artist-item-info">
+        <span className="artist-item-name">{artist.name}</span>
+        <span className="artist-item-albums">
+          {artist.albumCount} {artist.albumCount === 1 ? 'album' : 'albums'}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -7,23 +7,58 @@ const COVER_PLACEHOLDER_SVG = "<svg xmlns='http://www.w3.org/2000/svg' viewBox='
 const COVER_PLACEHOLDER_DATA_URI = `data:image/svg+xml,${encodeURIComponent(COVER_PLACEHOLDER_SVG)}`;
 
 interface CoverImageProps {
-  trackId: string;
+  trackId?: string;
+  albumId?: string;
+  artistId?: string;
   size: number;
   className?: string;
   alt?: string;
+  lazy?: boolean; // Defer loading until the image scrolls into view
   onClick?: () => void;
+  onLoad?: (image: HTMLImageElement) => void;
 }
 
 export function CoverImage({
   trackId,
+  albumId,
+  artistId,
   size,
   className = '',
   alt = '',
+  lazy = false,
   onClick,
+  onLoad,
 }: CoverImageProps) {
   const { cachedTrackIds, settings } = useApp();
   const [coverSrc, setCoverSrc] = useState(COVER_PLACEHOLDER_DATA_URI);
+  const [isVisible, setIsVisible] = useState(!lazy);
   const coverBlobUrlRef = useRef<string | null>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  // Album and artist covers share the cover store with track covers, so prefix their key
+  const coverKey = trackId
+    || (albumId ? `album:${albumId}` : '')
+    || (artistId ? `artist:${artistId}` : '');
+
+  useEffect(() => {
+    if (isVisible) return;
+
+    const img = imgRef.current;
+    if (!img || typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(img);
+    return () => observer.disconnect();
+  }, [isVisible]);
 
   useEffect(() => {
     // Cleanup previous blob URL
@@ -32,17 +67,21 @@ export function CoverImage({
       coverBlobUrlRef.current = null;
     }
 
-    if (!trackId || settings.hideCoverArt) {
+    if (!coverKey || settings.hideCoverArt) {
       setCoverSrc(COVER_PLACEHOLDER_DATA_URI);
       return;
     }
 
+    if (!isVisible) {
+      return;
+    }
+
     let cancelled = false;
 
     const loadCover = async () => {
       try {
         // 1. Try to get from cache first
-        const cachedBlob = await storageService.getCachedCover(trackId);
+        const cachedBlob = await storageService.getCachedCover(coverKey);
         if (cachedBlob) {
           if (!cancelled) {
             const blobUrl = URL.createObjectURL(cachedBlob);
@@ -53,14 +92,14 @@ export function CoverImage({
         }
 
         // Check if we already know the cover is missing
-        if (await storageService.isCoverMissing(trackId)) {
+        if (await storageService.isCoverMissing(coverKey)) {
           if (!cancelled) setCoverSrc(COVER_PLACEHOLDER_DATA_URI);
           return;
         }
 
         // 2. If not in cache, check if we should download it
         const networkType = getNetworkType();
-        const isCached = cachedTrackIds.has(trackId);
+        const isCached = !!trackId && cachedTrackIds.has(trackId);
         
         // If offline and not cached, we can't do anything
         if (!navigator.onLine) {
@@ -78,12 +117,16 @@ export function CoverImage({
 
         // 3. Fetch from server
         const api = getApiService();
-        const coverUrl = api.getSongCoverUrl(trackId, size);
+        const coverUrl = trackId
+          ? api.getSongCoverUrl(trackId, size)
+          : albumId
+            ? api.getAlbumCoverUrl(albumId, size)
+            : api.getArtistCoverUrl(artistId!, size);
         
         const response = await fetch(coverUrl, { headers: api.getAuthHeaders() });
         if (!response.ok) {
           if (response.status === 404) {
-            storageService.addMissingCover(trackId).catch(console.error);
+            storageService.addMissingCover(coverKey).catch(console.error);
           }
           throw new Error('Failed to load cover');
         }
@@ -92,7 +135,7 @@ export function CoverImage({
         
         // 4. Save to cache
         // We don't await this to not block rendering, but we should catch errors
-        storageService.saveCachedCover(trackId, blob).catch(console.error);
+        storageService.saveCachedCover(coverKey, blob).catch(console.error);
 
         if (!cancelled) {
           const blobUrl = URL.createObjectURL(blob);
@@ -112,7 +155,7 @@ export function CoverImage({
     return () => {
       cancelled = true;
     };
-  }, [trackId, size, cachedTrackIds, settings.hideCoverArt]);
+  }, [coverKey, trackId, albumId, artistId, size, cachedTrackIds, settings.hideCoverArt, isVisible]);
 
   if (settings.hideCoverArt) {
     return null;
@@ -120,10 +163,12 @@ export function CoverImage({
 
   return (
     <img
+      ref={imgRef}
       className={className}
       src={coverSrc}
       alt={alt}
       onClick={onClick}
+      onLoad={onLoad ? (e) => onLoad(e.currentTarget) : undefined}
     />
   );
 }
@@ -0,0 +1,206 @@
+import { useState, useEffect, useRef } from 'react';
+import type { EqualizerPreset, EqualizerSettings } from '../types';
+import { EQUALIZER_FREQUENCIES, EQUALIZER_MAX_GAIN } from '../constants';
+import {
+  EQUALIZER_PRESETS,
+  findEqualizerPreset,
+  formatFrequency,
+  getEqualizerPreampGain,
+  normalizeEqualizerGains,
+} from '../utils';
+import { useApp } from '../hooks';
+
+interface EqualizerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatGain = (gain: number) => `${gain > 0 ? '+' : ''}${gain} dB`;
+
+export function EqualizerDialog({ isOpen, onClose }: EqualizerDialogProps) {
+  const { settings, updateSettings, playerActions } = useApp();
+  const [equalizer, setEqualizer] = useState<EqualizerSettings>(settings.equalizer);
+  const [userPresets, setUserPresets] = useState<EqualizerPreset[]>(settings.equalizerPresets);
+  const [presetName, setPresetName] = useState('');
+  const prevIsOpenRef = useRef(isOpen);
+
+  // Reset the form each time the dialog is opened, and revert the unsaved changes when it is closed
+  useEffect(() => {
+    if (isOpen && !prevIsOpenRef.current) {
+      setEqualizer(settings.equalizer);
+      setUserPresets(settings.equalizerPresets);
+      setPresetName('');
+    } else if (!isOpen && prevIsOpenRef.current) {
+      playerActions.setEqualizer(settings.equalizer);
+    }
+    prevIsOpenRef.current = isOpen;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const gains = normalizeEqualizerGains(equalizer.gains);
+  const currentUserPreset = findEqualizerPreset(gains, userPresets);
+  const currentPreset = currentUserPreset ?? findEqualizerPreset(gains, EQUALIZER_PRESETS);
+
+  // Changes are applied immediately so they can be heard, and saved or reverted when the dialog is closed
+  const updateEqualizer = (changes: Partial<EqualizerSettings>) => {
+    const updated = { ...equalizer, ...changes };
+    setEqualizer(updated);
+    playerActions.setEqualizer(updated);
+  };
+
+  const updateGain = (index: number, gain: number) => {
+    updateEqualizer({ gains: gains.map((g, i) => i === index ? gain : g) });
+  };
+
+  const selectPreset = (name: string) => {
+    const preset = userPresets.find(p => p.name === name) ?? EQUALIZER_PRESETS.find(p => p.name === name);
+    if (preset) {
+      updateEqualizer({ enabled: true, gains: normalizeEqualizerGains(preset.gains) });
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setUserPresets(prev => [...prev.filter(p => p.name !== name), { name, gains }]);
+    setPresetName('');
+  };
+
+  const deletePreset = () => {
+    if (!currentUserPreset) return;
+    setUserPresets(prev => prev.filter(p => p.name !== currentUserPreset.name));
+  };
+
+  const handleSave = async () => {
+    await updateSettings({ ...settings, equalizer: { ...equalizer, gains }, equalizerPresets: userPresets });
+    onClose();
+  };
+
+  const appliedPreamp = getEqualizerPreampGain(equalizer);
+
+  return (
+    <div className="dialog-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="dialog equalizer-dialog" role="dialog" aria-labelledby="equalizer-title">
+        <div className="dialog-header">
+          <h2 id="equalizer-title">Equalizer</h2>
+          <button className="icon-button close-btn" aria-label="Close" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="form-group checkbox-group">
+            <label>
+              <input
+                type="checkbox"
+                id="equalizer-enabled"
+                checked={equalizer.enabled}
+                onChange={(e) => updateEqualizer({ enabled: e.target.checked })}
+              />
+              Enable equalizer
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="equalizer-preset">Preset</label>
+            <select
+              id="equalizer-preset"
+              value={currentPreset?.name ?? ''}
+              onChange={(e) => selectPreset(e.target.value)}
+            >
+              {!currentPreset && <option value="">Custom</option>}
+              <optgroup label="Built-in">
+                {EQUALIZER_PRESETS.map(preset => (
+                  <option key={preset.name} value={preset.name}>{preset.name}</option>
+                ))}
+              </optgroup>
+              {userPresets.length > 0 && (
+                <optgroup label="My presets">
+                  {userPresets.map(preset => (
+                    <option key={preset.name} value={preset.name}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          <div className={`equalizer-bands ${equalizer.enabled ? '' : 'disabled'}`}>
+            {EQUALIZER_FREQUENCIES.map((frequency, index) => (
+              <div key={frequency} className="equalizer-band">
+                <span className="equalizer-band-value">{gains[index] > 0 ? `+${gains[index]}` : gains[index]}</span>
+                <input
+                  type="range"
+                  min={-EQUALIZER_MAX_GAIN}
+                  max={EQUALIZER_MAX_GAIN}
+                  step="1"
+                  value={gains[index]}
+                  aria-label={`${formatFrequency(frequency)} Hz`}
+                  disabled={!equalizer.enabled}
+                  onChange={(e) => updateGain(index, parseInt(e.target.value, 10))}
+                />
+                <span className="equalizer-band-frequency">{formatFrequency(frequency)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="equalizer-preamp">Pre-amp</label>
+            <div className="range-with-value">
+              <input
+                type="range"
+                id="equalizer-preamp"
+                min={-EQUALIZER_MAX_GAIN}
+                max="0"
+                step="1"
+                value={Math.min(0, equalizer.preamp)}
+                disabled={!equalizer.enabled}
+                onChange={(e) => updateEqualizer({ preamp: parseInt(e.target.value, 10) })}
+              />
+              <span className="range-value">{formatGain(Math.min(0, equalizer.preamp))}</span>
+            </div>
+            <small>
+              {appliedPreamp < equalizer.preamp
+                ? `Lowered to ${formatGain(appliedPreamp)} to prevent clipping`
+                : 'Lowered automatically when a band is boosted to prevent clipping'}
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="equalizer-preset-name">Save as preset</label>
+            <div className="equalizer-preset-actions">
+              <input
+                type="text"
+                id="equalizer-preset-name"
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+              />
+              <button className="secondary-button" onClick={savePreset} disabled={!presetName.trim()}>
+                Save Preset
+              </button>
+              {currentUserPreset && (
+                <button className="secondary-button" onClick={deletePreset}>
+                  Delete "{currentUserPreset.name}"
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="secondary-button cancel-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="primary-button save-btn" onClick={handleSave}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react';
+import type { HistoryPeriod } from '../types';
+import type { ListeningStatsItem } from '../utils';
+import { formatDuration, formatListeningTime, getHistoryPeriodStart, getListeningStats } from '../utils';
+import { useApp, useListeningHistory } from '../hooks';
+
+const PERIODS: { value: HistoryPeriod; label: string }[] = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+];
+
+// Rows of the heatmap, starting on Monday (0 is Sunday)
+const HEATMAP_DAYS = [1, 2, 3, 4, 5, 6, 0];
+const HEATMAP_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const RECENT_PLAYS_PAGE_SIZE = 50;
+
+function getDayName(day: number): string {
+  // January 4, 1970 is a Sunday
+  return new Date(1970, 0, 4 + day).toLocaleDateString(undefined, { weekday: 'short' });
+}
+
+export function HistoryView() {
+  const { playerState, selectAlbum, selectArtist } = useApp();
+  const [period, setPeriod] = useState<HistoryPeriod>('week');
+  const [visibleCount, setVisibleCount] = useState(RECENT_PLAYS_PAGE_SIZE);
+
+  // Computed when the period changes, so the history isn't reloaded on every render
+  const since = useMemo(() => getHistoryPeriodStart(period), [period]);
+  const { entries, isLoading, clearHistory } = useListeningHistory(since, playerState.historyVersion);
+
+  const stats = useMemo(() => getListeningStats(entries), [entries]);
+  const heatmapMax = useMemo(() => Math.max(0, ...stats.heatmap.flat()), [stats]);
+  const recentPlays = useMemo(() => [...entries].reverse(), [entries]);
+
+  const handleClear = async () => {
+    if (!confirm('Clear the whole listening history?')) return;
+    try {
+      await clearHistory();
+    } catch (error) {
+      console.error('Failed to clear listening history:', error);
+    }
+  };
+
+  const renderTopList = (title: string, items: ListeningStatsItem[], onSelect?: (id: string) => void) => (
+    <section className="history-top-list">
+      <h3 className="history-section-title">{title}</h3>
+      {items.length === 0 ? (
+        <div className="history-empty">No plays</div>
+      ) : (
+        <ol>
+          {items.map(item => (
+            <li key={item.key} className="history-top-item">
+              <div className="history-top-info">
+                {onSelect && item.id ? (
+                  <button className="history-link" onClick={() => onSelect(item.id!)}>{item.name}</button>
+                ) : (
+                  <span className="history-top-name">{item.name}</span>
+                )}
+                {item.detail && <span className="history-top-detail">{item.detail}</span>}
+              </div>
+              <span className="history-top-count" title={formatListeningTime(item.listeningTime)}>
+                {item.playCount} {item.playCount === 1 ? 'play' : 'plays'}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="history-view">
+      <div className="track-list-header">
+        <h2 className="history-title">History</h2>
+        <div className="album-sort" role="group" aria-label="Period">
+          {PERIODS.map(p => (
+            <button
+              key={p.value}
+              className={`album-sort-btn ${period === p.value ? 'active' : ''}`}
+              aria-pressed={period === p.value}
+              onClick={() => {
+                setPeriod(p.value);
+                setVisibleCount(RECENT_PLAYS_PAGE_SIZE);
+              }}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <button className="secondary-button history-clear-btn" onClick={handleClear}>
+          Clear History
+        </button>
+      </div>
+
+      <div className="history-scroll">
+        {isLoading && entries.length === 0 ? (
+          <div className="history-empty">Loading history...</div>
+        ) : entries.length === 0 ? (
+          <div className="history-empty">Nothing was played during this period</div>
+        ) : (
+          <>
+            <div className="history-summary">
+              <div className="history-summary-card">
+                <span className="history-summary-value">{formatListeningTime(stats.totalListeningTime)}</span>
+                <span className="history-summary-label">Listening time</span>
+              </div>
+              <div className="history-summary-card">
+                <span className="history-summary-value">{stats.playCount}</span>
+                <span className="history-summary-label">Plays</span>
+              </div>
+              <div className="history-summary-card">
+                <span className="history-summary-value">{stats.skipCount}</span>
+                <span className="history-summary-label">Skips</span>
+              </div>
+            </div>
+
+            <div className="history-top">
+              {renderTopList('Top Tracks', stats.topTracks)}
+              {renderTopList('Top Artists', stats.topArtists, selectArtist)}
+              {renderTopList('Top Albums', stats.topAlbums, selectAlbum)}
+            </div>
+
+            <section>
+              <h3 className="history-section-title">When You Listen</h3>
+              <div className="history-heatmap" role="img" aria-label="Listening time by day of the week and hour">
+                <span />
+                {HEATMAP_HOURS.map(hour => (
+                  <span key={hour} className="history-heatmap-hour">{hour % 6 === 0 ? hour : ''}</span>
+                ))}
+                {HEATMAP_DAYS.map(day => (
+                  <div key={day} className="history-heatmap-row">
+                    <span className="history-heatmap-day">{getDayName(day)}</span>
+                    {HEATMAP_HOURS.map(hour => {
+                      const value = stats.heatmap[day][hour];
+                      return (
+                        <span
+                          key={hour}
+                          className={`history-heatmap-cell ${value > 0 ? 'active' : ''}`}
+                          style={value > 0 ? { opacity: 0.15 + 0.85 * (value / heatmapMax) } : undefined}
+                          title={`${getDayName(day)} ${hour}:00 - ${formatListeningTime(value)}`}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="history-section-title">Recently Played</h3>
+              <ul className="history-plays">
+                {recentPlays.slice(0, visibleCount).map(entry => (
+                  <li key={entry.id ?? `${entry.trackId}-${entry.startedAt}`} className="history-play">
+                    <span className="history-play-time">
+                      {new Date(entry.startedAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                    </span>
+                    <div className="history-play-info">
+                      <span className="history-play-title">{entry.title}</span>
+                      <span className="history-play-artist">
+                        {[entry.artists, entry.album].filter(Boolean).join(' · ')}
+                      </span>
+                    </div>
+                    {entry.skipped && <span className="history-skipped-badge">Skipped</span>}
+                    <span className="history-play-duration" title="Time listened / track duration">
+                      {formatDuration(entry.playedDuration)} / {formatDuration(entry.trackDuration)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {recentPlays.length > visibleCount && (
+                <button
+                  className="search-section-toggle"
+                  onClick={() => setVisibleCount(count => count + RECENT_PLAYS_PAGE_SIZE)}
+                >
+                  Show more
+                </button>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { findCurrentLyricsLine, parseLyrics } from '../utils';
+import { useApp, useLyrics } from '../hooks';
+
+interface LyricsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function LyricsPanel({ isOpen, onClose }: LyricsPanelProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="queue-panel lyrics-panel">
+      <div className="queue-header">
+        <h3>Lyrics</h3>
+        <div className="queue-actions">
+          <button className="queue-close-btn" title="Close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+      </div>
+      <div className="queue-content lyrics-content">
+        <LyricsContent />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lyrics of the current track. Synced lyrics follow the playback and seek when a line is clicked.
+ */
+export function LyricsContent() {
+  const { playerState, playerActions } = useApp();
+  const currentTrack = playerState.currentTrack;
+  const { lyrics, isLoading, error } = useLyrics(currentTrack?.id ?? null);
+  const parsedLyrics = useMemo(() => lyrics ? parseLyrics(lyrics) : null, [lyrics]);
+  const currentLineRef = useRef<HTMLButtonElement>(null);
+
+  const currentLineIndex = parsedLyrics?.isSynced
+    ? findCurrentLyricsLine(parsedLyrics.lines, playerState.currentTime)
+    : -1;
+
+  // Keep the current line in the middle of the panel
+  useEffect(() => {
+    currentLineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentLineIndex]);
+
+  if (!currentTrack) {
+    return <div className="queue-empty-message">Nothing is playing</div>;
+  }
+  if (isLoading) {
+    return <div className="queue-empty-message">Loading lyrics...</div>;
+  }
+  if (error) {
+    return <div className="queue-empty-message lyrics-error">{error}</div>;
+  }
+  if (!parsedLyrics) {
+    return <div className="queue-empty-message">No lyrics available</div>;
+  }
+
+  return parsedLyrics.isSynced ? (
+    <div className="lyrics-lines synced">
+      {parsedLyrics.lines.map((line, index) => (
+        <button
+          key={index}
+          ref={index === currentLineIndex ? currentLineRef : undefined}
+          className={`lyrics-line ${index === currentLineIndex ? 'current' : ''} ${index < currentLineIndex ? 'past' : ''}`}
+          title="Play from this line"
+          onClick={() => playerActions.seek(line.time ?? 0)}
+        >
+          {line.text || '♪'}
+        </button>
+      ))}
+    </div>
+  ) : (
+    <pre className="lyrics-lines">{parsedLyrics.lines.map(line => line.text).join('\n')}</pre>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CoverTheme } from '../utils';
+import { getCoverTheme, getDominantColor, getSwipeDirection } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+import { LyricsContent } from './LyricsPanel';
+import { PlaybackProgress, TransportControls } from './PlayerBar';
+import { Visualizer } from './Visualizer';
+
+interface NowPlayingViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type NowPlayingPanel = 'cover' | 'lyrics' | 'queue';
+
+const QUEUE_PREVIEW_LENGTH = 10;
+// The cover is scaled down before looking for its dominant color
+const THEME_SAMPLE_SIZE = 32;
+
+function getThemeFromImage(image: HTMLImageElement): CoverTheme | null {
+  // The placeholder is not a real cover
+  if (!image.currentSrc.startsWith('blob:')) return null;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = THEME_SAMPLE_SIZE;
+    canvas.height = THEME_SAMPLE_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, THEME_SAMPLE_SIZE, THEME_SAMPLE_SIZE);
+    const color = getDominantColor(context.getImageData(0, 0, THEME_SAMPLE_SIZE, THEME_SAMPLE_SIZE).data);
+    return color ? getCoverTheme(color) : null;
+  } catch (error) {
+    console.warn('Failed to extract the colors of the cover:', error);
+    return null;
+  }
+}
+
+function isEditableElement(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
+
+/**
+ * Full-screen player, themed with the colors of the cover.
+ * Arrow keys and horizontal swipes change the track, a swipe down closes the view.
+ */
+export function NowPlayingView({ isOpen, onClose }: NowPlayingViewProps) {
+  const { settings, playerState, playerActions } = useApp();
+  const track = playerState.currentTrack;
+  const [panel, setPanel] = useState<NowPlayingPanel>('cover');
+  const [theme, setTheme] = useState<CoverTheme | null>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const togglePanel = (value: NowPlayingPanel) => {
+    setPanel(current => current === value ? 'cover' : value);
+  };
+
+  // The theme of the previous track must not stay while the new cover is loading
+  useEffect(() => {
+    setTheme(null);
+  }, [track?.id]);
+
+  // Move the focus into the view so it can be used with the keyboard, and give it back when closing
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    viewRef.current?.focus();
+    return () => {
+      previousFocus?.focus();
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(console.error);
+      }
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.shiftKey || e.altKey || e.metaKey || isEditableElement(e.target)) return;
+
+      switch (e.code) {
+        case 'ArrowLeft':
+          e.preventDefault();
+          playerActions.previous();
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          playerActions.next();
+          break;
+        case 'KeyL':
+          togglePanel('lyrics');
+          break;
+        case 'KeyQ':
+          togglePanel('queue');
+          break;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, playerActions]);
+
+  if (!isOpen) return null;
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    // Let the progress bar and the scrollable panels handle their own gestures
+    const target = e.target as HTMLElement;
+    if (e.touches.length !== 1 || target.closest('.progress-bar-container, .now-playing-scrollable')) {
+      touchStartRef.current = null;
+      return;
+    }
+    touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start || e.changedTouches.length === 0) return;
+
+    const touch = e.changedTouches[0];
+    switch (getSwipeDirection(touch.clientX - start.x, touch.clientY - start.y)) {
+      case 'left':
+        playerActions.next();
+        break;
+      case 'right':
+        playerActions.previous();
+        break;
+      case 'down':
+        onClose();
+        break;
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(console.error);
+    } else {
+      viewRef.current?.requestFullscreen().catch(console.error);
+    }
+  };
+
+  const handlePlayQueueItem = async (lookaheadIndex: number) => {
+    for (let i = 0; i <= lookaheadIndex; i++) {
+      await playerActions.next();
+    }
+  };
+
+  const themeStyle = theme
+    ? { '--now-playing-background': theme.background, '--accent-primary': theme.accent } as React.CSSProperties
+    : undefined;
+  const upcomingItems = playerState.lookaheadQueue.slice(0, QUEUE_PREVIEW_LENGTH);
+
+  return (
+    <div
+      ref={viewRef}
+      className={`now-playing-view ${theme ? 'themed' : ''}`}
+      style={themeStyle}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Now playing"
+      tabIndex={-1}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div className="now-playing-header">
+        <button className="icon-button" aria-label="Close" title="Close (Esc)" onClick={onClose}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M16.59 8.59L12 13.17 7.41 8.59 6 10l6 6 6-6z" />
+          </svg>
+        </button>
+        <h2>Now Playing</h2>
+        {document.fullscreenEnabled ? (
+          <button className="icon-button" aria-label="Toggle full screen" title="Full screen" onClick={toggleFullscreen}>
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z" />
+            </svg>
+          </button>
+        ) : (
+          <span className="now-playing-header-spacer" />
+        )}
+      </div>
+      {!track ? (
+        <div className="now-playing-empty">Nothing is playing</div>
+      ) : (
+        <div className="now-playing-content">
+          <div className="now-playing-main">
+            {panel === 'lyrics' ? (
+              <div className="now-playing-panel now-playing-scrollable lyrics-content">
+                <LyricsContent />
+              </div>
+            ) : panel === 'queue' ? (
+              <div className="now-playing-panel now-playing-scrollable">
+                {upcomingItems.length === 0 ? (
+                  <div className="queue-empty-message">Nothing is queued</div>
+                ) : (
+                  <ol className="now-playing-queue">
+                    {upcomingItems.map((item, index) => (
+                      <li key={`${item.track.id}-${index}`}>
+                        <button className="now-playing-queue-item" onClick={() => handlePlayQueueItem(index)}>
+                          <span className="now-playing-queue-title">{item.track.title}</span>
+                          <span className="now-playing-queue-artist">{item.track.artists || 'Unknown Artist'}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ) : !settings.hideCoverArt ? (
+              <CoverImage
+                trackId={track.id}
+                size={512}
+                className="now-playing-cover"
+                alt={`${track.album || 'Album'} cover`}
+                onLoad={(image) => setTheme(getThemeFromImage(image))}
+              />
+            ) : null}
+          </div>
+          <div className="now-playing-details">
+            <h3 className="now-playing-title">{track.title}</h3>
+            <p className="now-playing-artist">{track.artists || 'Unknown Artist'}</p>
+            <p className="now-playing-album">{track.album || 'Unknown Album'}</p>
+          </div>
+          {settings.visualizer !== 'off' && panel === 'cover' && (
+            <div className="now-playing-visualizer">
+              {/* The visualizer reads its colors when it starts */}
+              <Visualizer key={theme?.accent} mode={settings.visualizer} lowPower={settings.visualizerLowPower} />
+            </div>
+          )}
+          <div className="now-playing-controls">
+            <PlaybackProgress />
+            <TransportControls />
+          </div>
+          <div className="now-playing-toggles">
+            <button
+              className={`now-playing-toggle ${panel === 'lyrics' ? 'active' : ''}`}
+              aria-pressed={panel === 'lyrics'}
+              title="Lyrics (L)"
+              onClick={() => togglePanel('lyrics')}
+            >
+              Lyrics
+            </button>
+            <button
+              className={`now-playing-toggle ${panel === 'queue' ? 'active' : ''}`}
+              aria-pressed={panel === 'queue'}
+              title="Up next (Q)"
+              onClick={() => togglePanel('queue')}
+            >
+              Up Next{playerState.lookaheadQueue.length > 0 ? ` (${playerState.lookaheadQueue.length})` : ''}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
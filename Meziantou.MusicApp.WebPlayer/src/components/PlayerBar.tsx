@@ -1,11 +1,25 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import type { RepeatMode } from '../types';
-import { formatDuration, throttle } from '../utils';
+import type { ABLoop, ABLoopState, OutputDeviceState, PlaybackRateScope, RepeatMode, SleepTimerOptions, SleepTimerState, TrackInfo } from '../types';
+import { AB_LOOP_SLOW_DOWN_STEPS, PLAYBACK_RATES } from '../constants';
+import {
+  formatABLoop,
+  formatABLoopPoint,
+  formatABLoopSlowDown,
+  formatDuration,
+  formatOutputDeviceLabel,
+  formatPlaybackRate,
+  formatStreamingQuality,
+  getPrimaryGenre,
+  throttle
+} from '../utils';
 import { useApp } from '../hooks';
 import { CoverImage } from './CoverImage';
 
 interface PlayerBarProps {
   onQueueClick: () => void;
+  onLyricsClick: () => void;
+  onEqualizerClick: () => void;
+  onNowPlayingClick: () => void;
 }
 
 const getFormatColor = (format: string) => {
@@ -21,50 +35,8 @@ const getFormatColor = (format: string) => {
   }
 };
 
-export function PlayerBar({ onQueueClick }: PlayerBarProps) {
-  const { playerState, playerActions, currentPlaylistId, selectPlaylist, playlists } = useApp();
-
-  const [isDragging, setIsDragging] = useState(false);
-  const [showRemainingTime, setShowRemainingTime] = useState(() => {
-    const saved = localStorage.getItem('showRemainingTime');
-    return saved === 'true';
-  });
-  const progressBarRef = useRef<HTMLDivElement>(null);
-
-  // Persist time display mode
-  useEffect(() => {
-    localStorage.setItem('showRemainingTime', String(showRemainingTime));
-  }, [showRemainingTime]);
-
-  const handleSeek = useCallback((clientX: number) => {
-    const bar = progressBarRef.current;
-    if (!bar) return;
-
-    const rect = bar.getBoundingClientRect();
-    const percent = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
-    const time = percent * playerState.duration;
-    playerActions.seek(time);
-  }, [playerState.duration, playerActions]);
-
-  const handleProgressMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
-    handleSeek(e.clientX);
-  };
-
-  useEffect(() => {
-    if (!isDragging) return;
-
-    const handleMouseMove = (e: MouseEvent) => handleSeek(e.clientX);
-    const handleMouseUp = () => setIsDragging(false);
-
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
-
-    return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
-    };
-  }, [isDragging, handleSeek]);
+export function PlayerBar({ onQueueClick, onLyricsClick, onEqualizerClick, onNowPlayingClick }: PlayerBarProps) {
+  const { playerState, playerActions, currentPlaylistId, selectPlaylist, playlists, smartPlaylistSummaries, settings, updateSettings } = useApp();
 
   const [isVolumePopoverVisible, setIsVolumePopoverVisible] = useState(false);
   const volumePopoverTimeoutRef = useRef<number | undefined>(undefined);
@@ -100,12 +72,12 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
     showVolumePopover();
   };
 
-  const handleCoverClick = async () => {
+  const handleTrackTitleClick = async () => {
     const currentPlaylistIdFromPlayer = playerActions.getCurrentPlaylistId();
     if (!currentPlaylistIdFromPlayer) return;
 
     if (currentPlaylistId !== currentPlaylistIdFromPlayer) {
-      const playlist = playlists.find(p => p.id === currentPlaylistIdFromPlayer);
+      const playlist = [...playlists, ...smartPlaylistSummaries].find(p => p.id === currentPlaylistIdFromPlayer);
       if (playlist) {
         await selectPlaylist(playlist);
       }
@@ -115,13 +87,16 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
     window.dispatchEvent(new CustomEvent('scrollToCurrentTrack'));
   };
 
-  const progressPercent = playerState.duration > 0
-    ? (playerState.currentTime / playerState.duration) * 100
-    : 0;
-
   const throttledTimeUpdate = throttle(() => {}, 250);
   throttledTimeUpdate();
 
+  const adaptiveQuality = playerState.adaptiveQuality;
+  const isQualityReduced = adaptiveQuality.enabled && adaptiveQuality.tierIndex > 0;
+  const qualityTitle = adaptiveQuality.enabled
+    ? `Adaptive quality: ${formatStreamingQuality(adaptiveQuality.quality)} (tier ${adaptiveQuality.tierIndex + 1} of ${adaptiveQuality.tierCount})` +
+      (adaptiveQuality.throughput !== null ? `, ${Math.round(adaptiveQuality.throughput)} kbps measured` : '')
+    : 'Adaptive quality is disabled';
+
   return (
     <div className="player-bar">
       <div className="player-track-info">
@@ -130,11 +105,16 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
           size={64}
           className="player-cover"
           alt=""
-          onClick={handleCoverClick}
+          onClick={onNowPlayingClick}
         />
         <div className="player-track-details">
           <div style={{ display: 'flex', alignItems: 'center', gap: '8px', minWidth: 0 }}>
-            <span className="player-track-title" style={{ flex: '0 1 auto' }}>
+            <span
+              className="player-track-title"
+              style={{ flex: '0 1 auto' }}
+              title="Show in playlist"
+              onClick={handleTrackTitleClick}
+            >
               {playerState.currentTrack?.title ?? 'No track selected'}
             </span>
             {playerState.currentQuality && (
@@ -150,9 +130,14 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
                   lineHeight: '1',
                   flex: '0 0 auto',
                 }}
+                title={qualityTitle}
               >
-                {playerState.currentQuality.format.toUpperCase()}
-                {playerState.currentQuality.maxBitRate ? ` ${playerState.currentQuality.maxBitRate}` : ''}
+                {formatStreamingQuality(playerState.currentQuality)}
+              </span>
+            )}
+            {isQualityReduced && (
+              <span className="player-quality-tier" title={qualityTitle}>
+                ↓ {formatStreamingQuality(adaptiveQuality.quality)}
               </span>
             )}
           </div>
@@ -163,76 +148,46 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
       </div>
 
       <div className="player-controls">
-        <div className="player-buttons">
-          <ShuffleButton
-            active={playerState.shuffleEnabled}
-            onClick={() => playerActions.setShuffle(!playerState.shuffleEnabled)}
-          />
-          <button
-            className="icon-button prev-btn"
-            title="Previous"
-            aria-label="Previous track"
-            onClick={() => playerActions.previous()}
-          >
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" />
-            </svg>
-          </button>
-          <PlayPauseButton
-            isPlaying={playerState.isPlaying}
-            onClick={() => playerActions.togglePlayPause()}
-          />
-          <button
-            className="icon-button next-btn"
-            title="Next"
-            aria-label="Next track"
-            onClick={() => playerActions.next()}
-          >
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
-            </svg>
-          </button>
-          <RepeatButton
-            mode={playerState.repeatMode}
-            onClick={() => playerActions.cycleRepeatMode()}
-          />
-        </div>
-
-        <div className="player-progress">
-          <span className="progress-time current-time">
-            {formatDuration(playerState.currentTime)}
-          </span>
-          <div
-            className="progress-bar-container"
-            onMouseDown={handleProgressMouseDown}
-            ref={progressBarRef}
-          >
-            <div className="progress-bar">
-              <div
-                className="progress-bar-fill"
-                style={{ width: `${progressPercent}%` }}
-              />
-              <div
-                className="progress-bar-handle"
-                style={{ left: `${progressPercent}%` }}
-              />
-            </div>
-          </div>
-          <span
-            className="progress-time duration"
-            onClick={() => setShowRemainingTime(!showRemainingTime)}
-            style={{ cursor: 'pointer' }}
-            title={showRemainingTime ? 'Show total time' : 'Show remaining time'}
-          >
-            {showRemainingTime && playerState.duration > 0
-              ? `-${formatDuration(playerState.duration - playerState.currentTime)}`
-              : formatDuration(playerState.duration)}
-          </span>
-        </div>
+        <TransportControls />
+        <PlaybackProgress />
       </div>
 
       <div className="player-right">
         <div className="player-secondary-actions">
+          <PlaybackRateButton
+            track={playerState.currentTrack}
+            rate={playerState.playbackRate}
+            scope={playerState.playbackRateScope}
+            onSelect={(rate) => playerActions.setPlaybackRate(rate)}
+            onRemember={(scope) => playerActions.rememberPlaybackRate(scope)}
+          />
+          <ABLoopButton
+            abLoop={playerState.abLoop}
+            hasTrack={playerState.currentTrack !== null}
+            onMark={(point) => playerActions.markABLoopPoint(point)}
+            onSelect={(loop) => playerActions.setABLoop(loop)}
+            onSlowDownChange={(slowDown) => playerActions.setABLoopSlowDown(slowDown)}
+            onSave={() => playerActions.saveABLoop().catch(console.error)}
+            onDelete={(id) => playerActions.deleteSavedABLoop(id).catch(console.error)}
+            onClear={() => playerActions.clearABLoop()}
+          />
+          <SleepTimerButton
+            sleepTimer={playerState.sleepTimer}
+            onSelect={(options) => playerActions.setSleepTimer(options)}
+            onCancel={() => playerActions.cancelSleepTimer()}
+          />
+          {playerState.outputDevice.supported && (
+            <OutputDeviceButton
+              outputDevice={playerState.outputDevice}
+              onSelect={(deviceId) => updateSettings({ ...settings, outputDeviceId: deviceId })}
+            />
+          )}
+          <NowPlayingButton onClick={onNowPlayingClick} />
+          <LyricsButton onClick={onLyricsClick} />
+          <EqualizerButton
+            active={settings.equalizer.enabled}
+            onClick={onEqualizerClick}
+          />
           <QueueButton
             queueLength={playerState.queue.length}
             onClick={onQueueClick}
@@ -272,6 +227,174 @@ export function PlayerBar({ onQueueClick }: PlayerBarProps) {
   );
 }
 
+// Seconds moved by the arrow keys on the progress bar
+const KEYBOARD_SEEK_STEP = 5;
+
+/**
+ * Progress bar of the current track. It can be dragged with the mouse or a finger, and moved with the arrow keys.
+ * [ and ] mark the A and B points of a loop at the current position.
+ */
+export function PlaybackProgress() {
+  const { playerState, playerActions } = useApp();
+  const [isDragging, setIsDragging] = useState(false);
+  const [showRemainingTime, setShowRemainingTime] = useState(() => {
+    const saved = localStorage.getItem('showRemainingTime');
+    return saved === 'true';
+  });
+  const progressBarRef = useRef<HTMLDivElement>(null);
+
+  // Persist time display mode
+  useEffect(() => {
+    localStorage.setItem('showRemainingTime', String(showRemainingTime));
+  }, [showRemainingTime]);
+
+  const handleSeek = useCallback((clientX: number) => {
+    const bar = progressBarRef.current;
+    if (!bar) return;
+
+    const rect = bar.getBoundingClientRect();
+    const percent = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    const time = percent * playerState.duration;
+    playerActions.seek(time);
+  }, [playerState.duration, playerActions]);
+
+  const handleProgressPointerDown = (e: React.PointerEvent) => {
+    setIsDragging(true);
+    handleSeek(e.clientX);
+  };
+
+  const handleProgressKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Stop propagation so the view does not also change the track
+      e.preventDefault();
+      e.stopPropagation();
+      const step = e.key === 'ArrowLeft' ? -KEYBOARD_SEEK_STEP : KEYBOARD_SEEK_STEP;
+      playerActions.seek(Math.max(0, Math.min(playerState.duration, playerState.currentTime + step)));
+    } else if (e.key === '[' || e.key === ']') {
+      e.preventDefault();
+      playerActions.markABLoopPoint(e.key === '[' ? 'start' : 'end');
+    }
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handlePointerMove = (e: PointerEvent) => handleSeek(e.clientX);
+    const handlePointerUp = () => setIsDragging(false);
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [isDragging, handleSeek]);
+
+  const toPercent = (time: number) => playerState.duration > 0
+    ? Math.min(100, (time / playerState.duration) * 100)
+    : 0;
+  const progressPercent = toPercent(playerState.currentTime);
+  const { start: loopStart, end: loopEnd } = playerState.abLoop;
+
+  return (
+    <div className="player-progress">
+      <span className="progress-time current-time">
+        {formatDuration(playerState.currentTime)}
+      </span>
+      <div
+        className="progress-bar-container"
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(playerState.duration)}
+        aria-valuenow={Math.round(playerState.currentTime)}
+        aria-valuetext={formatDuration(playerState.currentTime)}
+        onPointerDown={handleProgressPointerDown}
+        onKeyDown={handleProgressKeyDown}
+        ref={progressBarRef}
+      >
+        <div className="progress-bar">
+          <div
+            className="progress-bar-fill"
+            style={{ width: `${progressPercent}%` }}
+          />
+          {loopStart !== null && loopEnd !== null && (
+            <div
+              className="progress-bar-loop"
+              style={{ left: `${toPercent(loopStart)}%`, width: `${toPercent(loopEnd) - toPercent(loopStart)}%` }}
+            />
+          )}
+          {loopStart !== null && (
+            <span className="progress-bar-loop-marker" style={{ left: `${toPercent(loopStart)}%` }}>A</span>
+          )}
+          {loopEnd !== null && (
+            <span className="progress-bar-loop-marker" style={{ left: `${toPercent(loopEnd)}%` }}>B</span>
+          )}
+          <div
+            className="progress-bar-handle"
+            style={{ left: `${progressPercent}%` }}
+          />
+        </div>
+      </div>
+      <span
+        className="progress-time duration"
+        onClick={() => setShowRemainingTime(!showRemainingTime)}
+        style={{ cursor: 'pointer' }}
+        title={showRemainingTime ? 'Show total time' : 'Show remaining time'}
+      >
+        {showRemainingTime && playerState.duration > 0
+          ? `-${formatDuration(playerState.duration - playerState.currentTime)}`
+          : formatDuration(playerState.duration)}
+      </span>
+    </div>
+  );
+}
+
+export function TransportControls() {
+  const { playerState, playerActions } = useApp();
+
+  return (
+    <div className="player-buttons">
+      <ShuffleButton
+        active={playerState.shuffleEnabled}
+        onClick={() => playerActions.setShuffle(!playerState.shuffleEnabled)}
+      />
+      <button
+        className="icon-button prev-btn"
+        title="Previous"
+        aria-label="Previous track"
+        onClick={() => playerActions.previous()}
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" />
+        </svg>
+      </button>
+      <PlayPauseButton
+        isPlaying={playerState.isPlaying}
+        onClick={() => playerActions.togglePlayPause()}
+      />
+      <button
+        className="icon-button next-btn"
+        title="Next"
+        aria-label="Next track"
+        onClick={() => playerActions.next()}
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+        </svg>
+      </button>
+      <RepeatButton
+        mode={playerState.repeatMode}
+        onClick={() => playerActions.cycleRepeatMode()}
+      />
+    </div>
+  );
+}
+
 function ShuffleButton({ active, onClick }: { active: boolean; onClick: () => void }) {
   return (
     <button
@@ -376,6 +499,421 @@ function VolumeButton({
   );
 }
 
+/**
+ * Positions a popover menu above its button, as the player bar is at the bottom of the page.
+ * Returns a function to hide the menu.
+ */
+function usePopoverAboveButton(buttonRef: React.RefObject<HTMLButtonElement | null>, menuRef: React.RefObject<HTMLDivElement | null>) {
+  useEffect(() => {
+    const menu = menuRef.current;
+    if (!menu || !buttonRef.current) return;
+
+    const handleToggle = (e: ToggleEvent) => {
+      if (e.newState === 'open') {
+        const buttonRect = buttonRef.current!.getBoundingClientRect();
+
+        menu.style.position = 'fixed';
+        menu.style.top = 'auto';
+        menu.style.bottom = `${window.innerHeight - buttonRect.top + 5}px`;
+        menu.style.left = 'auto';
+        menu.style.right = `${Math.max(0, window.innerWidth - buttonRect.right)}px`;
+        menu.style.margin = '0';
+      }
+    };
+
+    menu.addEventListener('toggle', handleToggle as any);
+    return () => menu.removeEventListener('toggle', handleToggle as any);
+  }, [buttonRef, menuRef]);
+
+  return () => {
+    const menu = menuRef.current;
+    if (menu && 'hidePopover' in menu) {
+      menu.hidePopover();
+    }
+  };
+}
+
+function PlaybackRateButton({
+  track,
+  rate,
+  scope,
+  onSelect,
+  onRemember,
+}: {
+  track: TrackInfo | null;
+  rate: number;
+  scope: PlaybackRateScope | null;
+  onSelect: (rate: number) => void;
+  onRemember: (scope: PlaybackRateScope | null) => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hideMenu = usePopoverAboveButton(buttonRef, menuRef);
+  const genre = getPrimaryGenre(track?.genre ?? null);
+
+  const rememberOptions: { label: string; value: PlaybackRateScope | null }[] = [
+    { label: "Don't remember", value: null },
+    { label: 'For this track', value: 'track' },
+    ...(genre ? [{ label: `For the genre "${genre}"`, value: 'genre' as const }] : []),
+  ];
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        className={`icon-button playback-rate-btn ${rate !== 1 ? 'active' : ''}`}
+        title={`Playback speed: ${formatPlaybackRate(rate)}`}
+        aria-label="Playback speed"
+        popoverTarget="playback-rate-popover"
+      >
+        {formatPlaybackRate(rate)}
+      </button>
+      <div
+        ref={menuRef}
+        id="playback-rate-popover"
+        popover="auto"
+        className="context-menu player-menu"
+      >
+        <div className="player-menu-title">Playback speed</div>
+        <div className="playback-rate-options">
+          {PLAYBACK_RATES.map(value => (
+            <button
+              key={value}
+              className={`context-menu-item ${value === rate ? 'active' : ''}`}
+              onClick={() => {
+                onSelect(value);
+                hideMenu();
+              }}
+            >
+              {formatPlaybackRate(value)}
+            </button>
+          ))}
+        </div>
+        {track && (
+          <>
+            <div className="player-menu-title">Remember speed</div>
+            {rememberOptions.map(option => (
+              <button
+                key={option.label}
+                className={`context-menu-item ${option.value === scope ? 'active' : ''}`}
+                onClick={() => onRemember(option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+function ABLoopButton({
+  abLoop,
+  hasTrack,
+  onMark,
+  onSelect,
+  onSlowDownChange,
+  onSave,
+  onDelete,
+  onClear,
+}: {
+  abLoop: ABLoopState;
+  hasTrack: boolean;
+  onMark: (point: 'start' | 'end') => void;
+  onSelect: (loop: ABLoop) => void;
+  onSlowDownChange: (slowDown: number) => void;
+  onSave: () => void;
+  onDelete: (id: number) => void;
+  onClear: () => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hideMenu = usePopoverAboveButton(buttonRef, menuRef);
+
+  const { start, end } = abLoop;
+  const isLooping = start !== null && end !== null;
+  const title = isLooping
+    ? `A-B loop: ${formatABLoop({ start, end })}, ${abLoop.repetitions} repetition${abLoop.repetitions === 1 ? '' : 's'}`
+    : 'A-B loop';
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        className={`icon-button ab-loop-btn ${isLooping ? 'active' : ''}`}
+        title={title}
+        aria-label="A-B loop"
+        popoverTarget="ab-loop-popover"
+        disabled={!hasTrack}
+      >
+        A-B
+      </button>
+      <div
+        ref={menuRef}
+        id="ab-loop-popover"
+        popover="auto"
+        className="context-menu player-menu"
+      >
+        <div className="player-menu-title">Loop a section</div>
+        <button className="context-menu-item" onClick={() => onMark('start')}>
+          {start !== null ? `A: ${formatABLoopPoint(start)} (mark again)` : 'Mark A at the current position'}
+        </button>
+        <button className="context-menu-item" onClick={() => onMark('end')}>
+          {end !== null ? `B: ${formatABLoopPoint(end)} (mark again)` : 'Mark B at the current position'}
+        </button>
+        <div className="player-menu-title">Slow down</div>
+        <div className="ab-loop-slow-down-options">
+          {AB_LOOP_SLOW_DOWN_STEPS.map(value => (
+            <button
+              key={value}
+              className={`context-menu-item ${value === abLoop.slowDown ? 'active' : ''}`}
+              onClick={() => onSlowDownChange(value)}
+            >
+              {formatABLoopSlowDown(value)}
+            </button>
+          ))}
+        </div>
+        {isLooping && (
+          <button className="context-menu-item" onClick={onSave}>
+            Save loop
+          </button>
+        )}
+        {start !== null && (
+          <button
+            className="context-menu-item"
+            onClick={() => {
+              onClear();
+              hideMenu();
+            }}
+          >
+            Clear loop
+          </button>
+        )}
+        {abLoop.savedLoops.length > 0 && (
+          <>
+            <div className="player-menu-title">Saved loops</div>
+            {abLoop.savedLoops.map(loop => (
+              <div key={loop.id} className="ab-loop-saved">
+                <button
+                  className={`context-menu-item ${loop.start === start && loop.end === end ? 'active' : ''}`}
+                  title={formatABLoopSlowDown(loop.slowDown)}
+                  onClick={() => onSelect(loop)}
+                >
+                  {formatABLoop(loop)}
+                </button>
+                <button
+                  className="icon-button ab-loop-delete-btn"
+                  title="Delete loop"
+                  aria-label="Delete loop"
+                  onClick={() => onDelete(loop.id!)}
+                >
+                  <svg viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+const SLEEP_TIMER_OPTIONS: { label: string; value: SleepTimerOptions }[] = [
+  { label: '15 minutes', value: { mode: 'minutes', minutes: 15 } },
+  { label: '30 minutes', value: { mode: 'minutes', minutes: 30 } },
+  { label: '45 minutes', value: { mode: 'minutes', minutes: 45 } },
+  { label: '1 hour', value: { mode: 'minutes', minutes: 60 } },
+  { label: '90 minutes', value: { mode: 'minutes', minutes: 90 } },
+  { label: 'End of current track', value: { mode: 'endOfTrack' } },
+  { label: 'After 1 more track', value: { mode: 'tracks', count: 1 } },
+  { label: 'After 3 more tracks', value: { mode: 'tracks', count: 3 } },
+  { label: 'After 5 more tracks', value: { mode: 'tracks', count: 5 } },
+];
+
+function getSleepTimerLabel(sleepTimer: SleepTimerState, now: number): string {
+  if (sleepTimer.endsAt !== null) {
+    return formatDuration(Math.max(0, Math.ceil((sleepTimer.endsAt - now) / 1000)));
+  }
+  return sleepTimer.remainingTracks === 0 ? 'End' : `+${sleepTimer.remainingTracks}`;
+}
+
+function SleepTimerButton({
+  sleepTimer,
+  onSelect,
+  onCancel,
+}: {
+  sleepTimer: SleepTimerState | null;
+  onSelect: (options: SleepTimerOptions) => void;
+  onCancel: () => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hideMenu = usePopoverAboveButton(buttonRef, menuRef);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Refresh the countdown every second
+  const endsAt = sleepTimer?.endsAt ?? null;
+  useEffect(() => {
+    if (endsAt === null) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [endsAt]);
+
+  const label = sleepTimer ? getSleepTimerLabel(sleepTimer, now) : null;
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        className={`icon-button sleep-timer-btn ${sleepTimer ? 'active' : ''}`}
+        title={sleepTimer ? `Sleep timer: ${label}` : 'Sleep timer'}
+        aria-label="Sleep timer"
+        popoverTarget="sleep-timer-popover"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M12.34 2.02C6.59 1.82 2 6.42 2 12c0 5.52 4.48 10 10 10 3.71 0 6.93-2.02 8.66-5.02-7.51-.25-12.09-8.43-8.32-14.96z" />
+        </svg>
+        {label && <span className="sleep-timer-countdown">{label}</span>}
+      </button>
+      <div
+        ref={menuRef}
+        id="sleep-timer-popover"
+        popover="auto"
+        className="context-menu player-menu"
+      >
+        <div className="player-menu-title">Stop playback</div>
+        {SLEEP_TIMER_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            className="context-menu-item"
+            onClick={() => {
+              onSelect(option.value);
+              hideMenu();
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+        {sleepTimer && (
+          <button
+            className="context-menu-item"
+            onClick={() => {
+              onCancel();
+              hideMenu();
+            }}
+          >
+            Cancel sleep timer
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
+function OutputDeviceButton({
+  outputDevice,
+  onSelect,
+}: {
+  outputDevice: OutputDeviceState;
+  onSelect: (deviceId: string | null) => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hideMenu = usePopoverAboveButton(buttonRef, menuRef);
+
+  const deviceIndex = outputDevice.devices.findIndex(device => device.id === outputDevice.deviceId);
+  const label = deviceIndex >= 0 ? formatOutputDeviceLabel(outputDevice.devices[deviceIndex], deviceIndex) : 'Default';
+  const options = [
+    { label: 'Default', value: null },
+    ...outputDevice.devices.map((device, index) => ({ label: formatOutputDeviceLabel(device, index), value: device.id })),
+  ];
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        className={`icon-button output-device-btn ${outputDevice.deviceId ? 'active' : ''}`}
+        title={`Output device: ${label}`}
+        aria-label="Output device"
+        popoverTarget="output-device-popover"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M17 2H7c-1.1 0-2 .9-2 2v16c0 1.1.9 1.99 2 1.99L17 22c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm-5 2c1.1 0 2 .9 2 2s-.9 2-2 2c-1.11 0-2-.9-2-2s.89-2 2-2zm0 16c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5zm0-8c-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3-1.34-3-3-3z" />
+        </svg>
+      </button>
+      <div
+        ref={menuRef}
+        id="output-device-popover"
+        popover="auto"
+        className="context-menu player-menu"
+      >
+        <div className="player-menu-title">Play on</div>
+        {options.map(option => (
+          <button
+            key={option.value ?? ''}
+            className={`context-menu-item ${option.value === outputDevice.deviceId ? 'active' : ''}`}
+            onClick={() => {
+              onSelect(option.value);
+              hideMenu();
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function NowPlayingButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      className="icon-button now-playing-btn"
+      title="Now playing"
+      aria-label="Toggle now playing view"
+      onClick={onClick}
+    >
+      <svg viewBox="0 0 24 24" fill="currentColor">
+        <path d="M7 18h2V6H7v12zm4 4h2V2h-2v20zm-8-8h2v-4H3v4zm12 4h2V6h-2v12zm4-8v4h2v-4h-2z" />
+      </svg>
+    </button>
+  );
+}
+
+function LyricsButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      className="icon-button lyrics-btn"
+      title="Lyrics"
+      aria-label="Toggle lyrics"
+      onClick={onClick}
+    >
+      <svg viewBox="0 0 24 24" fill="currentColor">
+        <path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zM6 9h12v2H6V9zm8 5H6v-2h8v2zm4-6H6V6h12v2z" />
+      </svg>
+    </button>
+  );
+}
+
+function EqualizerButton({ active, onClick }: { active: boolean; onClick: () => void }) {
+  return (
+    <button
+      className={`icon-button equalizer-btn ${active ? 'active' : ''}`}
+      title="Equalizer"
+      aria-label="Open equalizer"
+      onClick={onClick}
+    >
+      <svg viewBox="0 0 24 24" fill="currentColor">
+        <path d="M10 20h4V4h-4v16zm-6 0h4v-8H4v8zM16 9v11h4V9h-4z" />
+      </svg>
+    </button>
+  );
+}
+
 function QueueButton({ queueLength, onClick }: { queueLength: number; onClick: () => void }) {
   const hasItems = queueLength > 0;
 
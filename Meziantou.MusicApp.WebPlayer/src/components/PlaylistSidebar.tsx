@@ -1,13 +1,15 @@
 import { useMemo, useState, useCallback } from 'react';
-import type { PlaylistSummary } from '../types';
-import { formatDuration } from '../utils';
+import type { PlaylistSummary, SmartPlaylist } from '../types';
+import { ALL_SONGS_PLAYLIST_ID } from '../constants';
+import { formatDuration, createAllSongsPlaylist } from '../utils';
 import { useApp } from '../hooks';
 
 interface PlaylistSidebarProps {
   onSettingsClick: () => void;
+  onEditSmartPlaylist: (playlist?: SmartPlaylist) => void;
 }
 
-export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
+export function PlaylistSidebar({ onSettingsClick, onEditSmartPlaylist }: PlaylistSidebarProps) {
   const {
     playlists,
     currentPlaylistId,
@@ -23,8 +25,20 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
     createPlaylist,
     deletePlaylist,
     invalidPlaylists,
+    currentView,
+    showAlbums,
+    showArtists,
+    showHistory,
+    showSearch,
+    smartPlaylists,
+    smartPlaylistSummaries,
+    deleteSmartPlaylist,
   } = useApp();
 
+  // "All Songs" is shown in the library section rather than with the playlists
+  const allSongsPlaylist = playlists.find(p => p.id === ALL_SONGS_PLAYLIST_ID);
+  const userPlaylists = useMemo(() => playlists.filter(p => p.id !== ALL_SONGS_PLAYLIST_ID), [playlists]);
+
   const [isCreating, setIsCreating] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState('');
 
@@ -80,6 +94,45 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
   return (
     <aside className="sidebar">
 
+      <div className="sidebar-library">
+        <div className="sidebar-section-header">
+          <h2 className="sidebar-section-title">Library</h2>
+        </div>
+        <div className="playlist-list">
+          <LibraryItem
+            label="Search"
+            isSelected={currentView.type === 'search'}
+            onSelect={() => showSearch('')}
+            icon={<path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />}
+          />
+          <LibraryItem
+            label="All Songs"
+            isSelected={currentView.type === 'playlist' && currentPlaylistId === ALL_SONGS_PLAYLIST_ID}
+            isPlaying={playingPlaylistId === ALL_SONGS_PLAYLIST_ID}
+            onSelect={() => selectPlaylist(allSongsPlaylist ?? createAllSongsPlaylist([]))}
+            icon={<path d="M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z" />}
+          />
+          <LibraryItem
+            label="Albums"
+            isSelected={currentView.type === 'albums' || currentView.type === 'album'}
+            onSelect={showAlbums}
+            icon={<path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 14.5c-2.49 0-4.5-2.01-4.5-4.5S9.51 7.5 12 7.5s4.5 2.01 4.5 4.5-2.01 4.5-4.5 4.5zm0-5.5c-.55 0-1 .45-1 1s.45 1 1 1 1-.45 1-1-.45-1-1-1z" />}
+          />
+          <LibraryItem
+            label="Artists"
+            isSelected={currentView.type === 'artists' || currentView.type === 'artist'}
+            onSelect={showArtists}
+            icon={<path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />}
+          />
+          <LibraryItem
+            label="History"
+            isSelected={currentView.type === 'history'}
+            onSelect={showHistory}
+            icon={<path d="M13 3c-4.97 0-9 4.03-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42C8.27 19.99 10.51 21 13 21c4.97 0 9-4.03 9-9s-4.03-9-9-9zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z" />}
+          />
+        </div>
+      </div>
+
       <div className="sidebar-section">
         <div className="sidebar-section-header">
           <h2 className="sidebar-section-title">Playlists</h2>
@@ -132,10 +185,10 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
         )}
 
         <div className="playlist-list">
-          {playlists.length === 0 ? (
+          {userPlaylists.length === 0 ? (
             <div className="empty-state">No playlists</div>
           ) : (
-            playlists.map(playlist => {
+            userPlaylists.map(playlist => {
               const isOffline = offlinePlaylistIds.has(playlist.id);
               const progress = playlistDownloadProgress.get(playlist.id);
 
@@ -143,7 +196,7 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
                 <PlaylistItem
                   key={playlist.id}
                   playlist={playlist}
-                  isSelected={playlist.id === currentPlaylistId}
+                  isSelected={currentView.type === 'playlist' && playlist.id === currentPlaylistId}
                   isPlaying={playlist.id === playingPlaylistId}
                   isOffline={isOffline}
                   progress={progress}
@@ -160,6 +213,48 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
           )}
         </div>
 
+        <div className="sidebar-section-header smart-playlists-header">
+          <h2 className="sidebar-section-title">Smart Playlists</h2>
+          <button
+            className="new-playlist-btn"
+            onClick={() => onEditSmartPlaylist()}
+            title="Create new smart playlist"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18">
+              <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="playlist-list">
+          {smartPlaylistSummaries.length === 0 ? (
+            <div className="empty-state">No smart playlists</div>
+          ) : (
+            smartPlaylistSummaries.map((playlist, index) => {
+              const smartPlaylist = smartPlaylists[index];
+              return (
+                <PlaylistItem
+                  key={playlist.id}
+                  playlist={playlist}
+                  isSelected={currentView.type === 'playlist' && playlist.id === currentPlaylistId}
+                  isPlaying={playlist.id === playingPlaylistId}
+                  isOffline={offlinePlaylistIds.has(playlist.id)}
+                  progress={playlistDownloadProgress.get(playlist.id)}
+                  isOnline={isOnline}
+                  canDelete
+                  onSelect={() => selectPlaylist(playlist)}
+                  onDragOver={() => {}}
+                  onDrop={() => {}}
+                  onStartCaching={() => startPlaylistCaching(playlist.id)}
+                  onStopCaching={() => stopPlaylistCaching(playlist.id)}
+                  onEdit={() => onEditSmartPlaylist(smartPlaylist)}
+                  onDelete={() => deleteSmartPlaylist(smartPlaylist.id)}
+                />
+              );
+            })
+          )}
+        </div>
+
         {invalidPlaylists.length > 0 && (
           <div className="invalid-playlists-section">
             <h3 className="invalid-playlists-title">Invalid Playlists</h3>
@@ -216,6 +311,45 @@ export function PlaylistSidebar({ onSettingsClick }: PlaylistSidebarProps) {
   );
 }
 
+interface LibraryItemProps {
+  label: string;
+  icon: React.ReactNode;
+  isSelected: boolean;
+  isPlaying?: boolean;
+  onSelect: () => void;
+}
+
+function LibraryItem({ label, icon, isSelected, isPlaying = false, onSelect }: LibraryItemProps) {
+  const className = [
+    'playlist-item',
+    'library-item',
+    isSelected && 'selected',
+    isPlaying && 'playing',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div
+      className={className}
+      onClick={onSelect}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
+      <div className="library-item-content">
+        <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18" className="library-item-icon">
+          {icon}
+        </svg>
+        <span className="playlist-item-name">{label}</span>
+      </div>
+    </div>
+  );
+}
+
 interface PlaylistItemProps {
   playlist: PlaylistSummary;
   isSelected: boolean;
@@ -223,11 +357,14 @@ interface PlaylistItemProps {
   isOffline: boolean;
   progress?: { cached: number; total: number };
   isOnline: boolean;
+  // Defaults to online server playlists
+  canDelete?: boolean;
   onSelect: () => void;
   onDragOver: (e: React.DragEvent) => void;
   onDrop: (e: React.DragEvent) => void;
   onStartCaching: () => void;
   onStopCaching: () => void;
+  onEdit?: () => void;
   onDelete: () => void;
 }
 
@@ -238,17 +375,20 @@ function PlaylistItem({
   isOffline,
   progress,
   isOnline,
+  canDelete,
   onSelect,
   onDragOver,
   onDrop,
   onStartCaching,
   onStopCaching,
+  onEdit,
   onDelete,
 }: PlaylistItemProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const duration = useMemo(() => formatDuration(playlist.duration), [playlist.duration]);
 
   const isVirtual = playlist.id.startsWith('virtual:');
+  const showDelete = canDelete ?? (isOnline && !isVirtual);
 
   const className = [
     'playlist-item',
@@ -283,6 +423,11 @@ function PlaylistItem({
     }
   };
 
+  const handleEditClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onEdit?.();
+  };
+
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onDelete();
@@ -350,7 +495,18 @@ function PlaylistItem({
             )}
           </button>
         )}
-        {isOnline && !isVirtual && (
+        {onEdit && (
+          <button
+            className="playlist-edit-btn"
+            onClick={handleEditClick}
+            title="Edit smart playlist"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+              <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+            </svg>
+          </button>
+        )}
+        {showDelete && (
           <button
             className="playlist-delete-btn"
             onClick={handleDeleteClick}
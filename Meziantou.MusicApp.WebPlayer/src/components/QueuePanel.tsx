@@ -8,7 +8,7 @@ interface QueuePanelProps {
 }
 
 export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
-  const { playerState, playerActions, playlists } = useApp();
+  const { playerState, playerActions, playlists, smartPlaylistSummaries } = useApp();
 
   if (!isOpen) return null;
 
@@ -18,7 +18,7 @@ export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
   const playlistItems = lookaheadQueue.filter(item => item.source === 'playlist');
 
   const playlistName = playlistItems.length > 0
-    ? playlists.find(p => p.id === playlistItems[0].playlistId)?.name || 'Playlist'
+    ? [...playlists, ...smartPlaylistSummaries].find(p => p.id === playlistItems[0].playlistId)?.name || 'Playlist'
     : 'Playlist';
 
   const handleRemoveItem = (lookaheadIndex: number) => {
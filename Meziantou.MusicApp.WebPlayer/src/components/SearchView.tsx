@@ -0,0 +1,279 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { TrackInfo } from '../types';
+import { ALL_SONGS_PLAYLIST_ID } from '../constants';
+import { storageService } from '../services';
+import { formatDuration, debounce, searchLibrary, mergeTracks, SEARCH_SYNTAX_HELP } from '../utils';
+import { useApp } from '../hooks';
+import { CoverImage } from './CoverImage';
+import { PlayingIndicator } from './PlayingIndicator';
+import { AlbumCard } from './AlbumGrid';
+import { ArtistItem } from './ArtistIndex';
+
+type ResultGroup = 'songs' | 'albums' | 'artists' | 'playlists';
+
+// Number of results shown per group until "Show all" is clicked
+const GROUP_LIMITS: Record<ResultGroup, number> = {
+  songs: 20,
+  albums: 12,
+  artists: 8,
+  playlists: 8,
+};
+
+interface SearchViewProps {
+  query: string;
+}
+
+export function SearchView({ query }: SearchViewProps) {
+  const {
+    libraryTracks,
+    albums,
+    artists,
+    playlists,
+    loadAlbums,
+    loadArtists,
+    showSearch,
+    selectAlbum,
+    selectArtist,
+    selectPlaylist,
+    playTracks,
+    playerState,
+    playerActions,
+    playingPlaylistId,
+    cachedTrackIds,
+    isOnline,
+  } = useApp();
+
+  const [inputValue, setInputValue] = useState(query);
+  const [cachedPlaylistTracks, setCachedPlaylistTracks] = useState<TrackInfo[]>([]);
+  const [expandedGroups, setExpandedGroups] = useState<Set<ResultGroup>>(new Set());
+  const submittedQueryRef = useRef(query);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Cached playlists make songs searchable even when the library is not loaded (e.g. offline)
+    storageService.getAllCachedPlaylists().then(cached => {
+      if (!cancelled) setCachedPlaylistTracks(mergeTracks(...cached.map(c => c.tracks)));
+    }).catch(console.error);
+
+    if (albums.length === 0) loadAlbums();
+    if (artists.length === 0) loadArtists();
+
+    return () => {
+      cancelled = true;
+    };
+    // Only refresh when the view is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Update the input when the query changes from outside (back/forward navigation)
+  useEffect(() => {
+    if (query !== submittedQueryRef.current) {
+      submittedQueryRef.current = query;
+      setInputValue(query);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    setExpandedGroups(new Set());
+  }, [query]);
+
+  // Listen for focus search input requests
+  useEffect(() => {
+    const handleFocusSearch = () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    };
+
+    window.addEventListener('focusSearchInput', handleFocusSearch);
+    return () => window.removeEventListener('focusSearchInput', handleFocusSearch);
+  }, []);
+
+  const debouncedSearch = useMemo(
+    () => debounce((value: string) => {
+      submittedQueryRef.current = value;
+      showSearch(value);
+    }, 150),
+    [showSearch]
+  );
+
+  const allTracks = useMemo(
+    () => mergeTracks(libraryTracks, cachedPlaylistTracks),
+    [libraryTracks, cachedPlaylistTracks]
+  );
+
+  const results = useMemo(
+    () => searchLibrary(query, { tracks: allTracks, albums, artists, playlists }),
+    [query, allTracks, albums, artists, playlists]
+  );
+
+  const totalCount = results.songs.length + results.albums.length + results.artists.length + results.playlists.length;
+
+  const getVisible = <T,>(group: ResultGroup, items: T[]): T[] =>
+    expandedGroups.has(group) ? items : items.slice(0, GROUP_LIMITS[group]);
+
+  // Play the result in the context of the whole library so the queue continues after it
+  const handlePlayTrack = (track: TrackInfo) => {
+    playTracks(ALL_SONGS_PLAYLIST_ID, allTracks, { startTrack: track });
+  };
+
+  const renderGroupHeader = (group: ResultGroup, title: string, count: number) => (
+    <div className="search-section-header">
+      <h3 className="search-section-title">{title}</h3>
+      {count > GROUP_LIMITS[group] && (
+        <button
+          className="search-section-toggle"
+          onClick={() => setExpandedGroups(prev => {
+            const next = new Set(prev);
+            if (next.has(group)) {
+              next.delete(group);
+            } else {
+              next.add(group);
+            }
+            return next;
+          })}
+        >
+          {expandedGroups.has(group) ? 'Show less' : `Show all (${count})`}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="search-view">
+      <div className="track-list-header">
+        <div className="search-container">
+          <svg className="search-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+          </svg>
+          <input
+            ref={searchInputRef}
+            type="search"
+            className="search-input"
+            placeholder="Search songs, albums, artists and playlists..."
+            aria-label="Search library"
+            title={SEARCH_SYNTAX_HELP}
+            value={inputValue}
+            autoFocus
+            onChange={(e) => {
+              setInputValue(e.target.value);
+              debouncedSearch(e.target.value);
+            }}
+          />
+        </div>
+        {query && <div className="track-count">{totalCount} results</div>}
+      </div>
+
+      <div className="search-view-results">
+        {!query.trim() ? (
+          <div className="empty-state">Search for songs, albums, artists or playlists</div>
+        ) : totalCount === 0 ? (
+          <div className="empty-state">No results</div>
+        ) : (
+          <>
+            {results.songs.length > 0 && (
+              <section className="search-section">
+                {renderGroupHeader('songs', 'Songs', results.songs.length)}
+                {getVisible('songs', results.songs).map((track, index) => {
+                  const isPlaying = playingPlaylistId === ALL_SONGS_PLAYLIST_ID && track.id === playerState.currentTrack?.id;
+                  const isAvailable = isOnline || cachedTrackIds.has(track.id);
+                  const className = [
+                    'track-item',
+                    isPlaying && 'playing',
+                    !isAvailable && 'unavailable',
+                  ].filter(Boolean).join(' ');
+
+                  return (
+                    <div
+                      key={track.id}
+                      className={className}
+                      onDoubleClick={() => isAvailable && handlePlayTrack(track)}
+                    >
+                      <div className="track-index-container">
+                        <span className="track-index">{index + 1}</span>
+                        <PlayingIndicator
+                          isPlaying={isPlaying}
+                          isPaused={!playerState.isPlaying}
+                          onTogglePlay={() => {
+                            if (isPlaying) {
+                              playerActions.togglePlayPause();
+                            } else if (isAvailable) {
+                              handlePlayTrack(track);
+                            }
+                          }}
+                        />
+                      </div>
+                      <CoverImage trackId={track.id} size={48} className="track-cover" alt="" lazy />
+                      <div className="track-info">
+                        <span className="track-title">{track.title}</span>
+                        <span className="track-artist">
+                          {track.artists || 'Unknown Artist'} • {track.album || 'Unknown Album'}
+                        </span>
+                      </div>
+                      <span className="track-duration">{formatDuration(track.duration)}</span>
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+
+            {results.albums.length > 0 && (
+              <section className="search-section">
+                {renderGroupHeader('albums', 'Albums', results.albums.length)}
+                <div className="album-grid">
+                  {getVisible('albums', results.albums).map(album => (
+                    <AlbumCard
+                      key={album.id}
+                      album={album}
+                      onSelect={() => selectAlbum(album.id)}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {results.artists.length > 0 && (
+              <section className="search-section">
+                {renderGroupHeader('artists', 'Artists', results.artists.length)}
+                {getVisible('artists', results.artists).map(artist => (
+                  <ArtistItem
+                    key={artist.id}
+                    artist={artist}
+                    onSelect={() => selectArtist(artist.id)}
+                  />
+                ))}
+              </section>
+            )}
+
+            {results.playlists.length > 0 && (
+              <section className="search-section">
+                {renderGroupHeader('playlists', 'Playlists', results.playlists.length)}
+                {getVisible('playlists', results.playlists).map(playlist => (
+                  <div
+                    key={playlist.id}
+                    className="search-playlist-item"
+                    onClick={() => selectPlaylist(playlist)}
+                    role="button"
+                    tabIndex={0}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        selectPlaylist(playlist);
+                      }
+                    }}
+                  >
+                    <span className="playlist-item-name">{playlist.name}</span>
+                    <span className="playlist-item-info">
+                      {playlist.trackCount} tracks • {formatDuration(playlist.duration)}
+                    </span>
+                  </div>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
-import type { AppSettings, StreamingQuality, ReplayGainMode, ScanStatusResponse } from '../types';
+import type { AppSettings, StreamingQuality, ReplayGainMode, ScanStatusResponse, VisualizerMode } from '../types';
 import { DEFAULT_SETTINGS } from '../constants';
 import { useApp } from '../hooks';
 import { getApiService } from '../services';
+import { formatOutputDeviceLabel } from '../utils';
 
 const QUALITY_OPTIONS: { label: string; value: StreamingQuality }[] = [
   { label: 'Original (Raw)', value: { format: 'raw' } },
@@ -29,7 +30,7 @@ interface SettingsDialogProps {
 }
 
 export function SettingsDialog({ isOpen, onClose, onOpenDiagnostics }: SettingsDialogProps) {
-  const { settings, updateSettings, testConnection, triggerLibraryScan } = useApp();
+  const { settings, updateSettings, testConnection, triggerLibraryScan, playerState, playerActions, showToast } = useApp();
 
   const [formData, setFormData] = useState<AppSettings>(settings);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
@@ -121,6 +122,20 @@ export function SettingsDialog({ isOpen, onClose, onOpenDiagnostics }: SettingsD
     setFormData(prev => ({ ...prev, [field]: quality }));
   };
 
+  const handleShowAllOutputDevices = async () => {
+    try {
+      await playerActions.requestOutputDeviceAccess();
+    } catch (error) {
+      console.error('Failed to get access to the output devices:', error);
+      showToast('Allow the microphone to list the output devices', 'error');
+    }
+  };
+
+  const outputDevice = playerState.outputDevice;
+  const isOutputDeviceMissing = formData.outputDeviceId !== null &&
+    !outputDevice.devices.some(device => device.id === formData.outputDeviceId);
+  const hasHiddenOutputDevices = outputDevice.devices.length === 0 || outputDevice.devices.some(device => !device.label);
+
   const formatEta = (etaString: string | null): string => {
     if (!etaString) return '';
     
@@ -241,6 +256,19 @@ export function SettingsDialog({ isOpen, onClose, onOpenDiagnostics }: SettingsD
               <small>Quality for offline cached tracks</small>
             </div>
 
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="adaptive-quality"
+                  checked={formData.adaptiveQuality}
+                  onChange={(e) => handleInputChange('adaptiveQuality', e.target.checked)}
+                />
+                Adaptive Quality
+              </label>
+              <small>Stream the next tracks at a lower quality when the measured download speed is too low for the selected one</small>
+            </div>
+
             <div className="form-group checkbox-group">
               <label>
                 <input
@@ -269,11 +297,65 @@ export function SettingsDialog({ isOpen, onClose, onOpenDiagnostics }: SettingsD
               </label>
               <small>Do not load cover images to save memory and data</small>
             </div>
+
+            <div className="form-group">
+              <label htmlFor="visualizer-mode">Visualizer</label>
+              <select
+                id="visualizer-mode"
+                value={formData.visualizer}
+                onChange={(e) => handleInputChange('visualizer', e.target.value as VisualizerMode)}
+              >
+                <option value="off">Off</option>
+                <option value="spectrum">Spectrum</option>
+                <option value="oscilloscope">Oscilloscope</option>
+                <option value="vu">VU Meter</option>
+              </select>
+              <small>Shown in the now playing view</small>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="visualizer-low-power"
+                  checked={formData.visualizerLowPower}
+                  disabled={formData.visualizer === 'off'}
+                  onChange={(e) => handleInputChange('visualizerLowPower', e.target.checked)}
+                />
+                Low Power Visualizer
+              </label>
+              <small>Draw fewer frames to save battery on mobile devices</small>
+            </div>
           </section>
 
           <section className="settings-section">
             <h3>Playback</h3>
 
+            {outputDevice.supported && (
+              <div className="form-group">
+                <label htmlFor="output-device">Output Device</label>
+                <select
+                  id="output-device"
+                  value={formData.outputDeviceId ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, outputDeviceId: e.target.value || null }))}
+                >
+                  <option value="">Default</option>
+                  {outputDevice.devices.map((device, index) => (
+                    <option key={device.id} value={device.id}>{formatOutputDeviceLabel(device, index)}</option>
+                  ))}
+                  {isOutputDeviceMissing && (
+                    <option value={formData.outputDeviceId!}>Remembered device (not connected)</option>
+                  )}
+                </select>
+                <small>The default device is used while the selected one is not connected</small>
+                {hasHiddenOutputDevices && (
+                  <button className="secondary-button output-device-access-btn" onClick={handleShowAllOutputDevices}>
+                    Show All Devices
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="form-group checkbox-group">
               <label>
                 <input
@@ -317,6 +399,49 @@ export function SettingsDialog({ isOpen, onClose, onOpenDiagnostics }: SettingsD
               </div>
             </div>
 
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="replaygain-limiter"
+                  checked={formData.replayGainLimiter}
+                  onChange={(e) => handleInputChange('replayGainLimiter', e.target.checked)}
+                />
+                Soft Limiter
+              </label>
+              <small>Limit the peaks pushed above 0 dBFS by the preamp, instead of lowering the gain of the track</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="crossfade-duration">Crossfade</label>
+              <div className="range-with-value">
+                <input
+                  type="range"
+                  id="crossfade-duration"
+                  min="0"
+                  max="12"
+                  step="1"
+                  value={formData.crossfadeDuration}
+                  onChange={(e) => handleInputChange('crossfadeDuration', parseInt(e.target.value, 10))}
+                />
+                <span className="range-value">{formData.crossfadeDuration === 0 ? 'Off' : `${formData.crossfadeDuration} s`}</span>
+              </div>
+              <small>Fade between tracks, except between tracks of the same album</small>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="shuffle-avoid-skipped"
+                  checked={formData.shuffleAvoidSkipped}
+                  onChange={(e) => handleInputChange('shuffleAvoidSkipped', e.target.checked)}
+                />
+                Play Skipped Tracks Later
+              </label>
+              <small>When shuffling, frequently skipped tracks are less likely to come up soon</small>
+            </div>
+
             <div className="form-group checkbox-group">
               <label>
                 <input
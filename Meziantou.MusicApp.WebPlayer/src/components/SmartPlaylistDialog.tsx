@@ -0,0 +1,239 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { SmartPlaylist, SmartPlaylistField, SmartPlaylistRule } from '../types';
+import {
+  SMART_PLAYLIST_FIELDS,
+  SMART_PLAYLIST_OPERATORS,
+  SMART_PLAYLIST_SORT_FIELDS,
+  getSmartPlaylistFieldType,
+  evaluateSmartPlaylist,
+} from '../utils';
+import { useApp } from '../hooks';
+
+interface SmartPlaylistDialogProps {
+  isOpen: boolean;
+  // Playlist to edit, or undefined to create a new one
+  playlist?: SmartPlaylist;
+  onClose: () => void;
+}
+
+function createEmptySmartPlaylist(): SmartPlaylist {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    match: 'all',
+    rules: [{ field: 'genre', operator: 'is', value: '' }],
+    sortBy: 'addedDate',
+    sortDirection: 'desc',
+    limit: null,
+    created: now,
+    changed: now,
+  };
+}
+
+const VALUE_PLACEHOLDERS: Record<SmartPlaylistField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  genre: 'Genre',
+  path: 'Folder or file name',
+  year: '2010',
+  duration: '4m, 3:30 or seconds',
+  bitRate: '320',
+  addedDate: '30',
+};
+
+export function SmartPlaylistDialog({ isOpen, playlist, onClose }: SmartPlaylistDialogProps) {
+  const { libraryTracks, loadLibraryTracks, saveSmartPlaylist, selectPlaylist } = useApp();
+  const [formData, setFormData] = useState<SmartPlaylist>(() => playlist ?? createEmptySmartPlaylist());
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(playlist ?? createEmptySmartPlaylist());
+      if (libraryTracks.length === 0) {
+        loadLibraryTracks();
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, playlist]);
+
+  const previewCount = useMemo(
+    () => isOpen ? evaluateSmartPlaylist(formData, libraryTracks).length : 0,
+    [isOpen, formData, libraryTracks]
+  );
+
+  if (!isOpen) return null;
+
+  const updateRule = (index: number, changes: Partial<SmartPlaylistRule>) => {
+    setFormData(prev => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => {
+        if (i !== index) return rule;
+
+        const updated = { ...rule, ...changes };
+        // Changing the field may make the operator invalid, e.g. "contains" on a year
+        if (changes.field && getSmartPlaylistFieldType(changes.field) !== getSmartPlaylistFieldType(rule.field)) {
+          updated.operator = SMART_PLAYLIST_OPERATORS[getSmartPlaylistFieldType(changes.field)][0].operator;
+          updated.value = '';
+        }
+        return updated;
+      }),
+    }));
+  };
+
+  const addRule = () => {
+    setFormData(prev => ({ ...prev, rules: [...prev.rules, { field: 'artist', operator: 'contains', value: '' }] }));
+  };
+
+  const removeRule = (index: number) => {
+    setFormData(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    const summary = await saveSmartPlaylist(formData);
+    onClose();
+    if (!playlist) {
+      selectPlaylist(summary);
+    }
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="dialog smart-playlist-dialog" role="dialog" aria-labelledby="smart-playlist-title">
+        <div className="dialog-header">
+          <h2 id="smart-playlist-title">{playlist ? 'Edit Smart Playlist' : 'New Smart Playlist'}</h2>
+          <button className="icon-button close-btn" aria-label="Close" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="form-group">
+            <label htmlFor="smart-playlist-name">Name</label>
+            <input
+              type="text"
+              id="smart-playlist-name"
+              placeholder="Smart Playlist"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              autoFocus
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="smart-playlist-match">Match</label>
+            <select
+              id="smart-playlist-match"
+              value={formData.match}
+              onChange={(e) => setFormData(prev => ({ ...prev, match: e.target.value as SmartPlaylist['match'] }))}
+            >
+              <option value="all">All of the following rules</option>
+              <option value="any">Any of the following rules</option>
+            </select>
+          </div>
+
+          <div className="form-group smart-playlist-rules">
+            {formData.rules.map((rule, index) => {
+              const fieldType = getSmartPlaylistFieldType(rule.field);
+              return (
+                <div key={index} className="smart-playlist-rule">
+                  <select
+                    aria-label="Field"
+                    value={rule.field}
+                    onChange={(e) => updateRule(index, { field: e.target.value as SmartPlaylistField })}
+                  >
+                    {SMART_PLAYLIST_FIELDS.map(f => (
+                      <option key={f.field} value={f.field}>{f.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Operator"
+                    value={rule.operator}
+                    onChange={(e) => updateRule(index, { operator: e.target.value as SmartPlaylistRule['operator'] })}
+                  >
+                    {SMART_PLAYLIST_OPERATORS[fieldType].map(o => (
+                      <option key={o.operator} value={o.operator}>{o.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type={fieldType === 'date' && rule.operator !== 'inLastDays' && rule.operator !== 'notInLastDays' ? 'date' : 'text'}
+                    aria-label="Value"
+                    placeholder={VALUE_PLACEHOLDERS[rule.field]}
+                    value={rule.value}
+                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                  />
+                  <button
+                    className="icon-button"
+                    title="Remove rule"
+                    aria-label="Remove rule"
+                    onClick={() => removeRule(index)}
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                      <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                    </svg>
+                  </button>
+                </div>
+              );
+            })}
+            <button className="secondary-button" onClick={addRule}>
+              Add Rule
+            </button>
+          </div>
+
+          <div className="form-group smart-playlist-sort">
+            <label htmlFor="smart-playlist-sort">Sort by</label>
+            <div className="smart-playlist-rule">
+              <select
+                id="smart-playlist-sort"
+                value={formData.sortBy}
+                onChange={(e) => setFormData(prev => ({ ...prev, sortBy: e.target.value as SmartPlaylist['sortBy'] }))}
+              >
+                {SMART_PLAYLIST_SORT_FIELDS.map(f => (
+                  <option key={f.field} value={f.field}>{f.label}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Sort direction"
+                value={formData.sortDirection}
+                onChange={(e) => setFormData(prev => ({ ...prev, sortDirection: e.target.value as SmartPlaylist['sortDirection'] }))}
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="smart-playlist-limit">Limit</label>
+            <input
+              type="text"
+              id="smart-playlist-limit"
+              inputMode="numeric"
+              placeholder="No limit"
+              value={formData.limit ?? ''}
+              onChange={(e) => {
+                const limit = parseInt(e.target.value, 10);
+                setFormData(prev => ({ ...prev, limit: Number.isNaN(limit) || limit <= 0 ? null : limit }));
+              }}
+            />
+            <small>
+              {libraryTracks.length === 0 ? 'Loading library...' : `${previewCount} matching tracks`}
+            </small>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="secondary-button cancel-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="primary-button save-btn" onClick={handleSave}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,43 +1,40 @@
-import { useState, useEffect } from 'react';
-import type { TrackInfo } from '../types';
-import { formatDuration } from '../utils';
-import { getApiService } from '../services';
+import { useEffect, useState } from 'react';
+import type { AppliedReplayGain, ReplayGainSource, TrackInfo } from '../types';
+import { formatDuration, parseLyrics } from '../utils';
+import { useApp, useLyrics } from '../hooks';
 import { CoverImage } from './CoverImage';
 
+const REPLAY_GAIN_SOURCE_LABELS: Record<ReplayGainSource, string> = {
+  track: 'Track tags',
+  album: 'Album tags',
+  analysis: 'Loudness analysis',
+};
+
+const formatGain = (gain: number): string => `${gain > 0 ? '+' : ''}${gain.toFixed(2)} dB`;
+
 interface SongDetailsDialogProps {
   track: TrackInfo | null;
   onClose: () => void;
 }
 
 export function SongDetailsDialog({ track, onClose }: SongDetailsDialogProps) {
-  const [lyrics, setLyrics] = useState<string | null>(null);
-  const [lyricsLoading, setLyricsLoading] = useState(false);
-  const [lyricsError, setLyricsError] = useState<string | null>(null);
+  const { lyrics, isLoading: lyricsLoading, error: lyricsError } = useLyrics(track?.id ?? null);
+  const { playerState, playerActions } = useApp();
+  const isCurrentTrack = !!track && track.id === playerState.currentTrack?.id;
+  const [appliedGain, setAppliedGain] = useState<AppliedReplayGain | null>(null);
 
+  // The effective gain is only known for the track being played, and the limiter reduction changes with the music
   useEffect(() => {
-    if (!track) {
-      setLyrics(null);
-      setLyricsError(null);
+    if (!isCurrentTrack) {
+      setAppliedGain(null);
       return;
     }
 
-    const fetchLyrics = async () => {
-      setLyricsLoading(true);
-      setLyricsError(null);
-      try {
-        const api = getApiService();
-        const response = await api.getSongLyrics(track.id);
-        setLyrics(response.lyrics);
-      } catch (err) {
-        setLyricsError('Failed to load lyrics');
-        console.error('Error fetching lyrics:', err);
-      } finally {
-        setLyricsLoading(false);
-      }
-    };
-
-    fetchLyrics();
-  }, [track]);
+    const update = () => setAppliedGain(playerActions.getReplayGainInfo());
+    update();
+    const interval = window.setInterval(update, 250);
+    return () => window.clearInterval(interval);
+  }, [isCurrentTrack, playerActions]);
 
   if (!track) return null;
 
@@ -157,7 +154,7 @@ export function SongDetailsDialog({ track, onClose }: SongDetailsDialogProps) {
             </dl>
           </section>
 
-          {(track.replayGainTrackGain != null || track.replayGainAlbumGain != null) && (
+          {(track.replayGainTrackGain != null || track.replayGainAlbumGain != null || appliedGain?.source) && (
             <section className="song-details-section">
               <h4>ReplayGain</h4>
               <dl className="song-details-list">
@@ -185,6 +182,31 @@ export function SongDetailsDialog({ track, onClose }: SongDetailsDialogProps) {
                     <dd>{track.replayGainAlbumPeak.toFixed(4)}</dd>
                   </div>
                 )}
+                {appliedGain?.source && (
+                  <>
+                    <div className="song-details-item">
+                      <dt>Gain Source</dt>
+                      <dd>{REPLAY_GAIN_SOURCE_LABELS[appliedGain.source]}</dd>
+                    </div>
+                    <div className="song-details-item">
+                      <dt>Effective Gain</dt>
+                      <dd>
+                        {formatGain(appliedGain.appliedGain)}
+                        {appliedGain.isPeakLimited && (
+                          <span className="song-details-note"> (lowered from {formatGain(appliedGain.requestedGain)} to prevent clipping)</span>
+                        )}
+                      </dd>
+                    </div>
+                  </>
+                )}
+                {appliedGain?.isLimiterEnabled && (
+                  <div className="song-details-item">
+                    <dt>Limiter</dt>
+                    <dd className={appliedGain.limiterReduction < -0.1 ? 'song-details-limiting' : undefined}>
+                      {appliedGain.limiterReduction < -0.1 ? `Limiting (${appliedGain.limiterReduction.toFixed(1)} dB)` : 'Idle'}
+                    </dd>
+                  </div>
+                )}
               </dl>
             </section>
           )}
@@ -196,7 +218,7 @@ export function SongDetailsDialog({ track, onClose }: SongDetailsDialogProps) {
             ) : lyricsError ? (
               <div className="song-details-lyrics-error">{lyricsError}</div>
             ) : lyrics ? (
-              <pre className="song-details-lyrics">{lyrics}</pre>
+              <pre className="song-details-lyrics">{parseLyrics(lyrics).lines.map(line => line.text).join('\n')}</pre>
             ) : (
               <div className="song-details-lyrics-empty">No lyrics available</div>
             )}
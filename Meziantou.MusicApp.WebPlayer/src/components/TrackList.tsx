@@ -1,13 +1,16 @@
 import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
-import type { TrackInfo, AppSettings } from '../types';
-import { formatDuration, matchesSearch, debounce } from '../utils';
+import type { TrackInfo, AppSettings, TrackPlayStats } from '../types';
+import { formatDuration, formatLastPlayed, debounce, parseSearchQuery, matchesParsedQuery, getTrackSearchValues, SEARCH_SYNTAX_HELP } from '../utils';
 import { useApp } from '../hooks';
 import { PlayingIndicator } from './PlayingIndicator';
 import { CoverImage } from './CoverImage';
 
-type SortOption = 'added' | 'title' | 'artist' | 'album';
+type SortOption = 'added' | 'title' | 'artist' | 'album' | 'playCount' | 'skipCount' | 'lastPlayed';
 type SortDirection = 'asc' | 'desc';
 
+// Sorted with the most recent or largest values first by default
+const DESCENDING_SORT_OPTIONS: SortOption[] = ['added', 'playCount', 'skipCount', 'lastPlayed'];
+
 const ITEM_HEIGHT = 56;
 const BUFFER_SIZE = 5;
 
@@ -26,6 +29,7 @@ export function TrackList() {
     removeTrackFromPlaylist,
     playerActions,
     showToast,
+    highlightedTrackId,
   } = useApp();
 
   const [searchQuery, setSearchQuery] = useState('');
@@ -33,6 +37,7 @@ export function TrackList() {
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; track: TrackInfo; index: number } | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const lastRestoredPlaylistId = useRef<string | null>(null);
+  const lastScrolledHighlightedTrackId = useRef<string | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   const [sortOption, setSortOption] = useState<SortOption>('added');
@@ -42,14 +47,11 @@ export function TrackList() {
   const filteredTracks = useMemo(() => {
     let tracks = currentPlaylistTracks;
     if (searchQuery) {
-      tracks = tracks.filter(track =>
-        matchesSearch(track.title, searchQuery) ||
-        matchesSearch(track.artists, searchQuery) ||
-        matchesSearch(track.album, searchQuery) ||
-        matchesSearch(track.isrc, searchQuery)
-      );
+      const query = parseSearchQuery(searchQuery);
+      tracks = tracks.filter(track => matchesParsedQuery(query, getTrackSearchValues(track)));
     }
 
+    const stats = playerState.trackStats;
     return [...tracks].sort((a, b) => {
       let res = 0;
       switch (sortOption) {
@@ -62,6 +64,15 @@ export function TrackList() {
         case 'album':
           res = (a.album || '').localeCompare(b.album || '');
           break;
+        case 'playCount':
+          res = (stats.get(a.id)?.playCount ?? 0) - (stats.get(b.id)?.playCount ?? 0);
+          break;
+        case 'skipCount':
+          res = (stats.get(a.id)?.skipCount ?? 0) - (stats.get(b.id)?.skipCount ?? 0);
+          break;
+        case 'lastPlayed':
+          res = (stats.get(a.id)?.lastPlayedAt ?? 0) - (stats.get(b.id)?.lastPlayedAt ?? 0);
+          break;
         case 'added':
         default:
            const dateA = a.addedDate ? new Date(a.addedDate).getTime() : 0;
@@ -71,7 +82,7 @@ export function TrackList() {
       }
       return sortDirection === 'asc' ? res : -res;
     });
-  }, [currentPlaylistTracks, searchQuery, sortOption, sortDirection]);
+  }, [currentPlaylistTracks, searchQuery, sortOption, sortDirection, playerState.trackStats]);
 
   const handleScroll = useCallback(() => {
     const container = scrollContainerRef.current;
@@ -129,6 +140,22 @@ export function TrackList() {
     }
   }, [currentPlaylistId, filteredTracks]);
 
+  // Scroll once to the track opened from a link, after the saved scroll position is restored
+  useEffect(() => {
+    if (!highlightedTrackId) {
+      lastScrolledHighlightedTrackId.current = null;
+      return;
+    }
+    if (!scrollContainerRef.current || lastScrolledHighlightedTrackId.current === highlightedTrackId) return;
+
+    const index = filteredTracks.findIndex(t => t.id === highlightedTrackId);
+    if (index === -1) return;
+
+    const containerHeight = scrollContainerRef.current.clientHeight;
+    scrollContainerRef.current.scrollTop = Math.max(0, index * ITEM_HEIGHT - containerHeight / 2 + ITEM_HEIGHT / 2);
+    lastScrolledHighlightedTrackId.current = highlightedTrackId;
+  }, [highlightedTrackId, filteredTracks]);
+
   // Listen for focus search input requests
   useEffect(() => {
     const handleFocusSearch = () => {
@@ -236,6 +263,7 @@ export function TrackList() {
             className="search-input"
             placeholder="Search tracks..."
             aria-label="Search tracks"
+            title={SEARCH_SYNTAX_HELP}
             onChange={handleSearchChange}
             onKeyDown={handleSearchKeyDown}
           />
@@ -302,9 +330,12 @@ export function TrackList() {
                   track={track}
                   index={originalIndex}
                   isCached={isCached}
+                  resumePosition={playerState.resumePositions.get(track.id) ?? null}
+                  stats={playerState.trackStats.get(track.id)}
                   isPlaying={isPlaying}
                   isPlayerPlaying={playerState.isPlaying}
                   isAvailable={isAvailable}
+                  isHighlighted={track.id === highlightedTrackId}
                   settings={settings}
                   onDoubleClick={() => handleTrackDoubleClick(track, originalIndex)}
                   onContextMenu={(e) => handleContextMenu(e, track, originalIndex)}
@@ -330,6 +361,7 @@ export function TrackList() {
           track={contextMenu.track}
           index={contextMenu.index}
           isCached={cachedTrackIds.has(contextMenu.track.id)}
+          hasResumePosition={playerState.resumePositions.has(contextMenu.track.id)}
           onPlay={() => {
             playTrack(contextMenu.track, contextMenu.index, currentPlaylistTracks);
             setContextMenu(null);
@@ -339,6 +371,10 @@ export function TrackList() {
             showToast(`Added "${contextMenu.track.title}" to queue`);
             setContextMenu(null);
           }}
+          onMarkFinished={() => {
+            playerActions.markTrackFinished(contextMenu.track.id);
+            setContextMenu(null);
+          }}
           onDownload={() => {
             downloadTrack(contextMenu.track);
             setContextMenu(null);
@@ -377,9 +413,12 @@ interface TrackItemProps {
   track: TrackInfo;
   index: number;
   isCached: boolean;
+  resumePosition: number | null;
+  stats: TrackPlayStats | undefined;
   isPlaying: boolean;
   isPlayerPlaying: boolean;
   isAvailable: boolean;
+  isHighlighted: boolean;
   settings: AppSettings;
   onDoubleClick: () => void;
   onContextMenu: (e: React.MouseEvent) => void;
@@ -391,9 +430,12 @@ function TrackItem({
   track,
   index,
   isCached,
+  resumePosition,
+  stats,
   isPlaying,
   isPlayerPlaying,
   isAvailable,
+  isHighlighted,
   settings,
   onDoubleClick,
   onContextMenu,
@@ -405,6 +447,7 @@ function TrackItem({
     isPlaying && 'playing',
     !isAvailable && 'unavailable',
     isCached && 'cached',
+    isHighlighted && 'highlighted',
   ].filter(Boolean).join(' ');
 
   const showReplayGainWarning = settings.showReplayGainWarning && settings.replayGainMode !== 'off';
@@ -430,6 +473,10 @@ function TrackItem({
     }
   }
 
+  const skipPositionsTooltip = stats && stats.skipPositions.length > 0
+    ? `Recently skipped at ${stats.skipPositions.map(position => formatDuration(position)).join(', ')}`
+    : undefined;
+
   return (
     <div
       className={className}
@@ -476,6 +523,22 @@ function TrackItem({
           <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z" />
         </svg>
       )}
+      {resumePosition !== null && (
+        <span className="track-resume" title="Playback resumes from this position">
+          Continue from {formatDuration(resumePosition)}
+        </span>
+      )}
+      <div className="track-stats" title={skipPositionsTooltip}>
+        {stats && (
+          <>
+            <span className="track-stats-counts">
+              {stats.playCount} {stats.playCount === 1 ? 'play' : 'plays'}
+              {stats.skipCount > 0 && ` · ${stats.skipCount} ${stats.skipCount === 1 ? 'skip' : 'skips'}`}
+            </span>
+            <span className="track-stats-last-played">{formatLastPlayed(stats.lastPlayedAt)}</span>
+          </>
+        )}
+      </div>
       <span className="track-duration">{formatDuration(track.duration)}</span>
       <button
         className="track-options-btn"
@@ -499,8 +562,10 @@ interface ContextMenuProps {
   track: TrackInfo;
   index: number;
   isCached: boolean;
+  hasResumePosition: boolean;
   onPlay: () => void;
   onAddToQueue: () => void;
+  onMarkFinished: () => void;
   onDownload: () => void;
   onDelete: () => void;
   onRemoveFromPlaylist?: () => void;
@@ -508,7 +573,7 @@ interface ContextMenuProps {
   onViewDetails: () => void;
 }
 
-function ContextMenu({ x, y, isCached, onPlay, onAddToQueue, onDownload, onDelete, onRemoveFromPlaylist, onCopyFilePath, onViewDetails }: ContextMenuProps) {
+function ContextMenu({ x, y, isCached, hasResumePosition, onPlay, onAddToQueue, onMarkFinished, onDownload, onDelete, onRemoveFromPlaylist, onCopyFilePath, onViewDetails }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ x, y });
 
@@ -554,6 +619,14 @@ function ContextMenu({ x, y, isCached, onPlay, onAddToQueue, onDownload, onDelet
         </svg>
         Add to Queue
       </button>
+      {hasResumePosition && (
+        <button className="context-menu-item" onClick={onMarkFinished}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+          </svg>
+          Mark as Finished
+        </button>
+      )}
       {onRemoveFromPlaylist && (
         <button className="context-menu-item" onClick={onRemoveFromPlaylist}>
           <svg viewBox="0 0 24 24" fill="currentColor">
@@ -608,6 +681,9 @@ function SortMenu({ id, anchorRef, currentOption, currentDirection, onSelect }:
     { label: 'Artist', value: 'artist' },
     { label: 'Album', value: 'album' },
     { label: 'Added Date', value: 'added' },
+    { label: 'Play Count', value: 'playCount' },
+    { label: 'Skip Count', value: 'skipCount' },
+    { label: 'Last Played', value: 'lastPlayed' },
   ];
 
   useEffect(() => {
@@ -666,8 +742,8 @@ function SortMenu({ id, anchorRef, currentOption, currentDirection, onSelect }:
               // Toggle direction
               handleSelect(opt.value, currentDirection === 'asc' ? 'desc' : 'asc');
             } else {
-              // Default directions: Added -> Desc, Others -> Asc
-              const defaultDir = opt.value === 'added' ? 'desc' : 'asc';
+              // Default directions: Added and stats -> Desc, Others -> Asc
+              const defaultDir = DESCENDING_SORT_OPTIONS.includes(opt.value) ? 'desc' : 'asc';
               handleSelect(opt.value, defaultDir);
             }
           }}
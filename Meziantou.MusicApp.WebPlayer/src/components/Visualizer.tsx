@@ -0,0 +1,167 @@
+import { useEffect, useRef } from 'react';
+import type { VisualizerMode } from '../types';
+import { getSpectrumBars, getVuLevels, getVuMeterPosition } from '../utils';
+import { useApp } from '../hooks';
+
+interface VisualizerProps {
+  mode: Exclude<VisualizerMode, 'off'>;
+  lowPower: boolean;
+}
+
+const FRAME_INTERVAL = 1000 / 60;
+const LOW_POWER_FRAME_INTERVAL = 1000 / 20;
+const BAR_COUNT = 64;
+const LOW_POWER_BAR_COUNT = 24;
+// Seconds during which the peak of the VU meter stays visible
+const PEAK_HOLD_DURATION = 1.5;
+
+type DrawFrame = (context: CanvasRenderingContext2D, analyser: AnalyserNode, width: number, height: number) => void;
+
+function createSpectrumRenderer(barCount: number, color: string): DrawFrame {
+  let data = new Uint8Array(0);
+  return (context, analyser, width, height) => {
+    if (data.length !== analyser.frequencyBinCount) {
+      data = new Uint8Array(analyser.frequencyBinCount);
+    }
+    analyser.getByteFrequencyData(data);
+
+    const bars = getSpectrumBars(data, barCount, analyser.context.sampleRate);
+    const barWidth = width / barCount;
+    context.fillStyle = color;
+    bars.forEach((value, i) => {
+      const barHeight = Math.max(1, value * height);
+      context.fillRect(i * barWidth + 1, height - barHeight, Math.max(1, barWidth - 2), barHeight);
+    });
+  };
+}
+
+function createOscilloscopeRenderer(color: string): DrawFrame {
+  let data = new Float32Array(0);
+  return (context, analyser, width, height) => {
+    if (data.length !== analyser.fftSize) {
+      data = new Float32Array(analyser.fftSize);
+    }
+    analyser.getFloatTimeDomainData(data);
+
+    context.strokeStyle = color;
+    context.lineWidth = 2;
+    context.beginPath();
+    for (let i = 0; i < data.length; i++) {
+      const x = (i / (data.length - 1)) * width;
+      const y = (1 - (data[i] + 1) / 2) * height;
+      if (i === 0) {
+        context.moveTo(x, y);
+      } else {
+        context.lineTo(x, y);
+      }
+    }
+    context.stroke();
+  };
+}
+
+function createVuMeterRenderer(color: string, peakColor: string): DrawFrame {
+  let data = new Float32Array(0);
+  let heldPeak = 0;
+  let heldPeakTime = 0;
+  return (context, analyser, width, height) => {
+    if (data.length !== analyser.fftSize) {
+      data = new Float32Array(analyser.fftSize);
+    }
+    analyser.getFloatTimeDomainData(data);
+
+    const levels = getVuLevels(data);
+    const rmsPosition = getVuMeterPosition(levels.rms);
+    const peakPosition = getVuMeterPosition(levels.peak);
+    const now = analyser.context.currentTime;
+    if (peakPosition >= heldPeak || now - heldPeakTime > PEAK_HOLD_DURATION) {
+      heldPeak = peakPosition;
+      heldPeakTime = now;
+    }
+
+    const meterHeight = Math.min(height, 24);
+    const top = (height - meterHeight) / 2;
+    context.fillStyle = color;
+    context.fillRect(0, top, rmsPosition * width, meterHeight);
+    context.fillStyle = peakColor;
+    context.fillRect(Math.max(0, heldPeak * width - 2), top, 2, meterHeight);
+  };
+}
+
+/**
+ * Draws the audio of the master bus. Rendering stops while the tab is hidden or the playback is paused.
+ */
+export function Visualizer({ mode, lowPower }: VisualizerProps) {
+  const { playerState, playerActions } = useApp();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isPlaying = playerState.isPlaying;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const styles = getComputedStyle(canvas);
+    const color = styles.getPropertyValue('--accent-primary').trim() || '#7c5cff';
+    const peakColor = styles.getPropertyValue('--text-primary').trim() || '#ffffff';
+    const drawFrame = mode === 'spectrum'
+      ? createSpectrumRenderer(lowPower ? LOW_POWER_BAR_COUNT : BAR_COUNT, color)
+      : mode === 'oscilloscope'
+        ? createOscilloscopeRenderer(color)
+        : createVuMeterRenderer(color, peakColor);
+    const frameInterval = lowPower ? LOW_POWER_FRAME_INTERVAL : FRAME_INTERVAL;
+    // High density screens need more pixels, which is not worth it in low power mode
+    const pixelRatio = lowPower ? 1 : window.devicePixelRatio || 1;
+
+    let animationFrame: number | null = null;
+    let lastFrameTime = 0;
+
+    const render = (time: number) => {
+      animationFrame = requestAnimationFrame(render);
+      if (time - lastFrameTime < frameInterval - 1) return;
+      lastFrameTime = time;
+
+      const width = Math.round(canvas.clientWidth * pixelRatio);
+      const height = Math.round(canvas.clientHeight * pixelRatio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      context.clearRect(0, 0, width, height);
+      const analyser = playerActions.getAnalyser();
+      if (analyser) {
+        drawFrame(context, analyser, width, height);
+      }
+    };
+
+    const start = () => {
+      if (animationFrame === null && isPlaying && !document.hidden) {
+        animationFrame = requestAnimationFrame(render);
+      }
+    };
+
+    const stop = () => {
+      if (animationFrame !== null) {
+        cancelAnimationFrame(animationFrame);
+        animationFrame = null;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        start();
+      }
+    };
+
+    start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [mode, lowPower, isPlaying, playerActions]);
+
+  return <canvas ref={canvasRef} className={`visualizer visualizer-${mode}`} aria-hidden="true" />;
+}
@@ -1,10 +1,21 @@
 export { PlaylistSidebar } from './PlaylistSidebar';
 export { TrackList } from './TrackList';
+export { AlbumGrid } from './AlbumGrid';
+export { AlbumDetail } from './AlbumDetail';
+export { ArtistIndex } from './ArtistIndex';
+export { ArtistDetail } from './ArtistDetail';
+export { SearchView } from './SearchView';
+export { HistoryView } from './HistoryView';
 export { PlayerBar } from './PlayerBar';
 export { QueuePanel } from './QueuePanel';
+export { LyricsPanel } from './LyricsPanel';
 export { SettingsDialog } from './SettingsDialog';
 export { CacheDiagnosticsDialog } from './CacheDiagnosticsDialog';
 export { SongDetailsDialog } from './SongDetailsDialog';
+export { SmartPlaylistDialog } from './SmartPlaylistDialog';
+export { EqualizerDialog } from './EqualizerDialog';
 export { PlayingIndicator } from './PlayingIndicator';
 export { CoverImage } from './CoverImage';
 export { UpdateNotification } from './UpdateNotification';
+export { NowPlayingView } from './NowPlayingView';
+export { Visualizer } from './Visualizer';
@@ -7,11 +7,20 @@ export const DEFAULT_SETTINGS: AppSettings = {
   lowDataQuality: { format: 'opus', maxBitRate: 160 },
   downloadQuality: { format: 'opus', maxBitRate: 160 },
   preventDownloadOnLowData: false,
+  adaptiveQuality: true,
   scrobbleEnabled: true,
   hideCoverArt: false,
+  visualizer: 'spectrum',
+  visualizerLowPower: false,
   replayGainMode: 'off',
   replayGainPreamp: 0,
-  showReplayGainWarning: true
+  showReplayGainWarning: true,
+  replayGainLimiter: false,
+  crossfadeDuration: 0,
+  shuffleAvoidSkipped: false,
+  outputDeviceId: null,
+  equalizer: { enabled: false, gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0], preamp: 0 },
+  equalizerPresets: []
 };
 
 export const DEFAULT_PLAYBACK_STATE: PlaybackState = {
@@ -27,3 +36,30 @@ export const DEFAULT_PLAYBACK_STATE: PlaybackState = {
   shuffleOrder: [],
   queue: []
 };
+
+// Prefix for player playlists built from an album rather than a server playlist
+export const ALBUM_PLAYLIST_PREFIX = 'virtual:album:';
+
+// Prefix for player playlists built from all the tracks of an artist
+export const ARTIST_PLAYLIST_PREFIX = 'virtual:artist:';
+
+// Same id as the server's virtual playlist so the cached tracks and offline state are shared
+export const ALL_SONGS_PLAYLIST_ID = 'virtual:all-songs';
+
+// Prefix for player playlists evaluated on the client from smart playlist rules
+export const SMART_PLAYLIST_PREFIX = 'virtual:smart:';
+
+// Center frequencies of the equalizer bands, in Hz
+export const EQUALIZER_FREQUENCIES = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// Maximum boost or cut of an equalizer band, in dB
+export const EQUALIZER_MAX_GAIN = 12;
+
+// Playback speeds offered in the player bar and used by the keyboard shortcuts
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+// Speed removed after each repetition of an A-B loop, 0 to keep the speed
+export const AB_LOOP_SLOW_DOWN_STEPS = [0, 0.01, 0.02, 0.05];
+
+// Tracks at least this long (in seconds) remember where playback stopped, e.g. audiobook chapters or DJ mixes
+export const RESUME_POSITION_MIN_DURATION = 20 * 60;
@@ -1,3 +1,5 @@
 export { useAudioPlayer } from './useAudioPlayer';
 export { AppProvider, useApp } from './useApp';
 export { useServiceWorkerUpdate } from './useServiceWorkerUpdate';
+export { useLyrics } from './useLyrics';
+export { useListeningHistory } from './useListeningHistory';
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AppProvider, useApp } from './useApp';
+import { getApiService, storageService } from '../services';
+import { DEFAULT_SETTINGS, DEFAULT_PLAYBACK_STATE } from '../constants';
+import type { SmartPlaylist, TrackInfo } from '../types';
+
+const mockApi = {
+  getPlaylists: vi.fn(),
+  getPlaylistTracks: vi.fn(),
+  getAllTracks: vi.fn(),
+  getScanStatus: vi.fn(),
+};
+
+// The actions must keep the same identity across renders, as the init effects depend on them
+const mockPlayerActions = new Proxy({} as Record<string, ReturnType<typeof vi.fn>>, {
+  get: (target, name: string) => target[name] ??= vi.fn().mockResolvedValue(undefined),
+});
+
+const mockPlayerState = { currentTrack: null, queue: [], isPlaying: false, shuffleEnabled: false };
+
+vi.mock('./useAudioPlayer', () => ({
+  useAudioPlayer: () => [mockPlayerState, mockPlayerActions],
+}));
+
+vi.mock('../services', () => ({
+  initApiService: vi.fn(),
+  getApiService: vi.fn(() => mockApi),
+  storageService: {
+    init: vi.fn().mockResolvedValue(undefined),
+    getSettings: vi.fn(),
+    getCachedTrackIds: vi.fn().mockResolvedValue(new Set()),
+    getOfflinePlaylistIds: vi.fn().mockResolvedValue(new Set()),
+    verifyOfflinePlaylistsIntegrity: vi.fn().mockResolvedValue({ removed: [], total: 0 }),
+    getSmartPlaylists: vi.fn(),
+    getAllCachedPlaylists: vi.fn().mockResolvedValue([]),
+    getCachedPlaylist: vi.fn().mockResolvedValue(undefined),
+    saveCachedPlaylist: vi.fn().mockResolvedValue(undefined),
+    getPlaybackState: vi.fn(),
+  },
+  audioPlayer: {
+    on: vi.fn(),
+    off: vi.fn(),
+  },
+  downloadService: {
+    init: vi.fn().mockResolvedValue(undefined),
+    onProgress: vi.fn(() => () => {}),
+  },
+  loudnessService: {
+    init: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+function createTrack(id: string, genre: string): TrackInfo {
+  return { id, title: `Track ${id}`, path: `/music/${id}.mp3`, artists: 'Artist', album: 'Album', duration: 100, artistId: null, albumId: null, track: 1, year: 2020, genre, bitRate: 320, size: 1000, contentType: 'audio/mp3', addedDate: null, isrc: null, replayGainTrackGain: null, replayGainTrackPeak: null, replayGainAlbumGain: null, replayGainAlbumPeak: null };
+}
+
+describe('AppProvider initialization', () => {
+  const smartPlaylist: SmartPlaylist = {
+    id: 'jazz',
+    name: 'Jazz',
+    match: 'all',
+    rules: [{ field: 'genre', operator: 'is', value: 'Jazz' }],
+    sortBy: 'title',
+    sortDirection: 'asc',
+    limit: null,
+    created: '2024-01-01T00:00:00Z',
+    changed: '2024-01-01T00:00:00Z',
+  };
+  const libraryTracks = [createTrack('1', 'Jazz'), createTrack('2', 'Rock'), createTrack('3', 'Jazz')];
+
+  const wrapper = ({ children }: { children: ReactNode }) => <AppProvider>{children}</AppProvider>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(getApiService).mockReturnValue(mockApi as unknown as ReturnType<typeof getApiService>);
+    vi.mocked(storageService.getSettings).mockResolvedValue({ ...DEFAULT_SETTINGS, serverUrl: 'http://server' });
+    vi.mocked(storageService.getPlaybackState).mockResolvedValue(DEFAULT_PLAYBACK_STATE);
+    vi.mocked(storageService.getSmartPlaylists).mockResolvedValue([smartPlaylist]);
+    mockApi.getPlaylists.mockResolvedValue({ playlists: [] });
+    mockApi.getScanStatus.mockResolvedValue({ isInitialScanCompleted: true, invalidPlaylists: [] });
+    mockApi.getAllTracks.mockResolvedValue({ tracks: libraryTracks });
+  });
+
+  afterEach(() => {
+    window.location.hash = '';
+  });
+
+  it('should restore a smart playlist from the URL and load the library for its track count', async () => {
+    window.location.hash = '#/playlist/virtual:smart:jazz';
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await waitFor(() => expect(result.current.currentPlaylistId).toBe('virtual:smart:jazz'));
+    await waitFor(() => expect(result.current.currentPlaylistTracks.map(t => t.id)).toEqual(['1', '3']));
+    expect(mockApi.getAllTracks).toHaveBeenCalled();
+    await waitFor(() => expect(result.current.smartPlaylistSummaries[0].trackCount).toBe(2));
+  });
+
+  it('should open the album of a track from the URL and highlight it', async () => {
+    mockApi.getAllTracks.mockResolvedValue({ tracks: [...libraryTracks, { ...createTrack('4', 'Pop'), albumId: 'album-1' }] });
+    window.location.hash = '#/track/4';
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await waitFor(() => expect(result.current.currentView).toEqual({ type: 'album', albumId: 'album-1' }));
+    expect(result.current.highlightedTrackId).toBe('4');
+    await waitFor(() => expect(window.location.hash).toBe('#/track/4'));
+
+    act(() => result.current.showAlbums());
+    expect(result.current.highlightedTrackId).toBeNull();
+    await waitFor(() => expect(window.location.hash).toBe('#/albums'));
+  });
+
+  it('should open "All Songs" for a track without album', async () => {
+    window.location.hash = '#/track/2';
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await waitFor(() => expect(result.current.currentPlaylistId).toBe('virtual:all-songs'));
+    expect(result.current.currentView).toEqual({ type: 'playlist' });
+    await waitFor(() => expect(result.current.highlightedTrackId).toBe('2'));
+  });
+
+  it('should restore the last viewed smart playlist', async () => {
+    localStorage.setItem('lastViewedPlaylistId', 'virtual:smart:jazz');
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await waitFor(() => expect(result.current.currentPlaylistId).toBe('virtual:smart:jazz'));
+  });
+});
+
+describe('playTracks', () => {
+  const tracks = [createTrack('1', 'Jazz'), createTrack('2', 'Rock'), createTrack('3', 'Jazz')];
+  const wrapper = ({ children }: { children: ReactNode }) => <AppProvider>{children}</AppProvider>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storageService.getSettings).mockResolvedValue(DEFAULT_SETTINGS);
+    vi.mocked(storageService.getSmartPlaylists).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    mockPlayerState.shuffleEnabled = false;
+  });
+
+  it('should play in order without disabling shuffle', async () => {
+    mockPlayerState.shuffleEnabled = true;
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await act(() => result.current.playTracks('virtual:artist:1', tracks, { shuffle: false }));
+
+    expect(mockPlayerActions.setShuffle).not.toHaveBeenCalled();
+    expect(mockPlayerActions.setPlaylist).toHaveBeenCalledWith('virtual:artist:1', tracks, [0, 1, 2]);
+  });
+
+  it('should shuffle the tracks without enabling shuffle', async () => {
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await act(() => result.current.playTracks('virtual:artist:1', tracks, { shuffle: true }));
+
+    expect(mockPlayerActions.setShuffle).not.toHaveBeenCalled();
+    const [, playlistTracks, shuffleOrder] = mockPlayerActions.setPlaylist.mock.calls[0];
+    expect(playlistTracks).toHaveLength(3);
+    expect(playlistTracks).toEqual(expect.arrayContaining(tracks));
+    expect(shuffleOrder).toBeUndefined();
+  });
+
+  it('should keep the shuffle order of the queue when shuffle is enabled', async () => {
+    mockPlayerState.shuffleEnabled = true;
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    await act(() => result.current.playTracks('virtual:artist:1', tracks, { shuffle: true }));
+
+    expect(mockPlayerActions.setPlaylist).toHaveBeenCalledWith('virtual:artist:1', tracks, undefined);
+  });
+});
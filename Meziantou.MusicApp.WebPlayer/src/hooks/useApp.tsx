@@ -1,19 +1,38 @@
-import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
 import type {
   AppSettings,
   PlaylistSummary,
   TrackInfo,
   InvalidPlaylistInfo,
+  AlbumInfo,
+  ArtistInfo,
+  LibraryView,
+  Route,
+  SmartPlaylist,
 } from '../types';
-import { DEFAULT_SETTINGS, DEFAULT_PLAYBACK_STATE } from '../constants';
+import { DEFAULT_SETTINGS, DEFAULT_PLAYBACK_STATE, ALBUM_PLAYLIST_PREFIX, ARTIST_PLAYLIST_PREFIX, ALL_SONGS_PLAYLIST_ID } from '../constants';
 import {
   initApiService,
   getApiService,
   storageService,
   audioPlayer,
   downloadService,
+  loudnessService,
+  type PlayerEventDetail,
 } from '../services';
-import { getNetworkType } from '../utils';
+import {
+  getNetworkType,
+  getAlbumTracks,
+  getArtistTracks,
+  createAllSongsPlaylist,
+  parseRoute,
+  formatRoute,
+  evaluateSmartPlaylist,
+  createSmartPlaylistSummary,
+  getSmartPlaylistPlaylistId,
+  isSmartPlaylistId,
+  createWeightedShuffleOrder,
+} from '../utils';
 import { useAudioPlayer, type AudioPlayerState, type AudioPlayerActions } from './useAudioPlayer';
 
 interface AppContextValue {
@@ -31,6 +50,29 @@ interface AppContextValue {
   deletePlaylist: (playlistId: string) => Promise<boolean>;
   invalidPlaylists: InvalidPlaylistInfo[];
 
+  // Library browsing
+  currentView: LibraryView;
+  // Track opened from a #/track/:id route, while its view is shown
+  highlightedTrackId: string | null;
+  albums: AlbumInfo[];
+  libraryTracks: TrackInfo[];
+  artists: ArtistInfo[];
+  loadAlbums: () => Promise<AlbumInfo[]>;
+  loadArtists: () => Promise<ArtistInfo[]>;
+  loadLibraryTracks: () => Promise<TrackInfo[]>;
+  showAlbums: () => void;
+  selectAlbum: (albumId: string) => Promise<void>;
+  showArtists: () => void;
+  selectArtist: (artistId: string) => Promise<void>;
+  showSearch: (query: string) => Promise<void>;
+  showHistory: () => void;
+
+  // Smart playlists
+  smartPlaylists: SmartPlaylist[];
+  smartPlaylistSummaries: PlaylistSummary[];
+  saveSmartPlaylist: (playlist: SmartPlaylist) => Promise<PlaylistSummary>;
+  deleteSmartPlaylist: (id: string) => Promise<boolean>;
+
   // Network status
   isOnline: boolean;
   networkType: 'normal' | 'low-data' | 'unknown';
@@ -58,6 +100,7 @@ interface AppContextValue {
 
   // Playback
   playTrack: (track: TrackInfo, index: number, tracks?: TrackInfo[]) => Promise<void>;
+  playTracks: (playlistId: string, tracks: TrackInfo[], options?: { startTrack?: TrackInfo; shuffle?: boolean }) => Promise<void>;
   addTrackToPlaylist: (playlist: PlaylistSummary, trackId: string) => Promise<void>;
   removeTrackFromPlaylist: (playlistId: string, trackIndex: number) => Promise<void>;
 
@@ -79,6 +122,13 @@ interface ToastMessage {
   type: 'info' | 'error' | 'success';
 }
 
+// Cached smart playlists are listed separately from the playlists returned by the server
+function getServerPlaylists(cachedPlaylists: PlaylistSummary[]): PlaylistSummary[] {
+  return cachedPlaylists
+    .filter(p => !isSmartPlaylistId(p.id))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
 interface AppProviderProps {
   children: ReactNode;
 }
@@ -99,6 +149,15 @@ export function AppProvider({ children }: AppProviderProps) {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   const [playingPlaylistId, setPlayingPlaylistId] = useState<string | null>(null);
+  const [currentView, setCurrentView] = useState<LibraryView>({ type: 'playlist' });
+  // The route of the view containing the track is null while the track is looked up
+  const [highlightedTrack, setHighlightedTrack] = useState<{ trackId: string; route: Route | null } | null>(null);
+  const [albums, setAlbums] = useState<AlbumInfo[]>([]);
+  const [artists, setArtists] = useState<ArtistInfo[]>([]);
+  const [libraryTracks, setLibraryTracks] = useState<TrackInfo[]>([]);
+  const libraryTracksPromiseRef = useRef<Promise<TrackInfo[]> | null>(null);
+  const [smartPlaylists, setSmartPlaylists] = useState<SmartPlaylist[]>([]);
+  const [cachedSmartPlaylists, setCachedSmartPlaylists] = useState<Map<string, PlaylistSummary>>(new Map());
 
   const [playerState, playerActions] = useAudioPlayer();
 
@@ -116,6 +175,16 @@ export function AppProvider({ children }: AppProviderProps) {
     return progress;
   }, [offlinePlaylistTracks, cachedTrackIds]);
 
+  // Smart playlists are evaluated against the library, or use the last cached result until it is loaded
+  const smartPlaylistSummaries = useMemo(() => {
+    return smartPlaylists.map(playlist => {
+      if (libraryTracks.length > 0) {
+        return createSmartPlaylistSummary(playlist, evaluateSmartPlaylist(playlist, libraryTracks));
+      }
+      return cachedSmartPlaylists.get(getSmartPlaylistPlaylistId(playlist)) ?? createSmartPlaylistSummary(playlist, []);
+    });
+  }, [smartPlaylists, libraryTracks, cachedSmartPlaylists]);
+
   const showToast = useCallback((message: string, type: 'info' | 'error' | 'success' = 'info') => {
     const id = Date.now();
     setToasts(prev => [...prev, { id, message, type }]);
@@ -150,7 +219,13 @@ export function AppProvider({ children }: AppProviderProps) {
         // Apply loaded settings to audio player
         playerActions.setReplayGainMode(loadedSettings.replayGainMode);
         playerActions.setReplayGainPreamp(loadedSettings.replayGainPreamp);
+        playerActions.setReplayGainLimiter(loadedSettings.replayGainLimiter);
+        playerActions.setCrossfadeDuration(loadedSettings.crossfadeDuration);
+        playerActions.setShuffleAvoidSkipped(loadedSettings.shuffleAvoidSkipped);
+        playerActions.setEqualizer(loadedSettings.equalizer);
         playerActions.setPreventDownloadOnLowData(loadedSettings.preventDownloadOnLowData);
+        playerActions.setAdaptiveQuality(loadedSettings.adaptiveQuality);
+        playerActions.setOutputDevice(loadedSettings.outputDeviceId);
 
         const networkType = getNetworkType();
         playerActions.setNetworkType(networkType);
@@ -162,6 +237,8 @@ export function AppProvider({ children }: AppProviderProps) {
         await downloadService.init();
         console.log('[useApp] Download service initialized');
 
+        await loudnessService.init();
+
         const cached = await storageService.getCachedTrackIds();
         setCachedTrackIds(cached);
 
@@ -176,10 +253,21 @@ export function AppProvider({ children }: AppProviderProps) {
           setOfflinePlaylistIds(updatedOfflinePlaylists);
         }
 
+        const loadedSmartPlaylists = await storageService.getSmartPlaylists();
+        setSmartPlaylists(loadedSmartPlaylists.sort((a, b) => a.name.localeCompare(b.name)));
+        const cachedPlaylists = await storageService.getAllCachedPlaylists();
+        setCachedSmartPlaylists(new Map(cachedPlaylists
+          .filter(cp => isSmartPlaylistId(cp.playlist.id))
+          .map(cp => [cp.playlist.id, cp.playlist])));
+
         // Load recently played tracks for queue filtering
         await playerActions.loadRecentlyPlayed();
         console.log('[useApp] Recently played tracks loaded');
 
+        // Load the positions of long tracks before restoring the playback
+        await playerActions.loadResumePositions();
+        await playerActions.loadTrackStats();
+
         setIsInitialized(true);
         console.log('[useApp] Initialization complete');
       } catch (error) {
@@ -204,7 +292,7 @@ export function AppProvider({ children }: AppProviderProps) {
           currentPlaylists = (await syncPlaylistsInternal()) || [];
         } else {
           const cachedPlaylists = await storageService.getAllCachedPlaylists();
-          currentPlaylists = cachedPlaylists.map(cp => cp.playlist).sort((a, b) => a.sortOrder - b.sortOrder);
+          currentPlaylists = getServerPlaylists(cachedPlaylists.map(cp => cp.playlist));
           setPlaylists(currentPlaylists);
 
           // Set up track lists for offline playlists
@@ -218,13 +306,30 @@ export function AppProvider({ children }: AppProviderProps) {
           setOfflinePlaylistTracks(trackLists);
         }
 
+        // Read from storage rather than state, as this effect does not depend on smartPlaylists
+        const loadedSmartPlaylists = await storageService.getSmartPlaylists();
+
+        // Smart playlist track counts need the whole library
+        if (isOnline && loadedSmartPlaylists.length > 0) {
+          loadLibraryTracksInternal().catch(error => console.error('Failed to load library tracks:', error));
+        }
+
         // Restore playback state
         const state = await storageService.getPlaybackState(DEFAULT_PLAYBACK_STATE);
         await playerActions.restoreState(state);
 
+        // A route in the URL takes precedence over the last viewed playlist
+        const initialRoute = parseRoute(window.location.hash);
+        if (initialRoute?.type === 'track') {
+          // Applied once the last viewed playlist is restored, as it may select a playlist. Keeps the route in the URL until then
+          setHighlightedTrack({ trackId: initialRoute.trackId, route: null });
+        } else if (initialRoute && initialRoute.type !== 'playlist') {
+          applyRoute(initialRoute);
+        }
+
         // Restore last viewed playlist
         const lastViewedId = localStorage.getItem('lastViewedPlaylistId');
-        let viewedId = lastViewedId;
+        let viewedId = initialRoute?.type === 'playlist' ? initialRoute.playlistId : lastViewedId;
 
         // If no last viewed, fallback to playing playlist
         if (!viewedId && state.currentPlaylistId) {
@@ -238,26 +343,43 @@ export function AppProvider({ children }: AppProviderProps) {
 
         let viewedTracks: TrackInfo[] = [];
         if (viewedId) {
-             const playlist = currentPlaylists.find(p => p.id === viewedId);
+             const playlist = currentPlaylists.find(p => p.id === viewedId)
+                 ?? loadedSmartPlaylists.find(p => getSmartPlaylistPlaylistId(p) === viewedId);
              if (playlist) {
                  setCurrentPlaylistId(viewedId);
                  viewedTracks = await loadPlaylistTracksInternal(viewedId, currentPlaylists);
              }
         }
 
+        if (initialRoute?.type === 'track') {
+          applyRoute(initialRoute);
+        }
+
         // Restore playing playlist tracks
         if (state.currentPlaylistId) {
              let tracks: TrackInfo[] = [];
 
              if (state.currentPlaylistId === viewedId) {
                  tracks = viewedTracks;
+             } else if (state.currentPlaylistId.startsWith(ALBUM_PLAYLIST_PREFIX)) {
+                 try {
+                     const albumId = state.currentPlaylistId.substring(ALBUM_PLAYLIST_PREFIX.length);
+                     tracks = getAlbumTracks(await loadLibraryTracksInternal(), albumId);
+                 } catch (e) {
+                     console.error("Failed to load playing album tracks", e);
+                 }
+             } else if (state.currentPlaylistId.startsWith(ARTIST_PLAYLIST_PREFIX)) {
+                 try {
+                     const artistId = state.currentPlaylistId.substring(ARTIST_PLAYLIST_PREFIX.length);
+                     tracks = getArtistTracks(await loadLibraryTracksInternal(), artistId);
+                 } catch (e) {
+                     console.error("Failed to load playing artist tracks", e);
+                 }
              } else {
                  // We need to fetch tracks for playing playlist separately
-                 const api = getApiService();
                  try {
                      if (isOnline) {
-                         const response = await api.getPlaylistTracks(state.currentPlaylistId);
-                         tracks = response.tracks;
+                         tracks = await fetchPlaylistTracks(state.currentPlaylistId);
                      } else {
                          const cached = await storageService.getCachedPlaylist(state.currentPlaylistId);
                          if (cached) tracks = cached.tracks;
@@ -379,6 +501,18 @@ export function AppProvider({ children }: AppProviderProps) {
     return () => audioPlayer.off('trackchange', handler);
   }, [playerActions]);
 
+  // Tracks skipped because their stream failed
+  useEffect(() => {
+    const handler = (detail: PlayerEventDetail) => {
+      const titles = detail.tracks?.map(track => track.title) ?? [];
+      if (titles.length > 0) {
+        showToast(`Skipped unplayable tracks: ${titles.join(', ')}`, 'error');
+      }
+    };
+    audioPlayer.on('unplayabletracks', handler);
+    return () => audioPlayer.off('unplayabletracks', handler);
+  }, [showToast]);
+
   // Refresh playlists when app becomes visible
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -420,7 +554,7 @@ export function AppProvider({ children }: AppProviderProps) {
           // Indexing not complete, keep cached data and retry later
           console.log('Playlists response is empty but indexing not complete, keeping cache');
           const cachedPlaylists = await storageService.getAllCachedPlaylists();
-          return cachedPlaylists.map(cp => cp.playlist).sort((a, b) => a.sortOrder - b.sortOrder);
+          return getServerPlaylists(cachedPlaylists.map(cp => cp.playlist));
         }
       }
 
@@ -433,7 +567,7 @@ export function AppProvider({ children }: AppProviderProps) {
       const cachedPlaylists = await storageService.getAllCachedPlaylists();
       const currentPlaylistIds = new Set(sorted.map(p => p.id));
       for (const cachedPlaylist of cachedPlaylists) {
-        if (!currentPlaylistIds.has(cachedPlaylist.playlist.id)) {
+        if (!currentPlaylistIds.has(cachedPlaylist.playlist.id) && !isSmartPlaylistId(cachedPlaylist.playlist.id)) {
           console.log(`Removing deleted playlist from cache: ${cachedPlaylist.playlist.id}`);
           await storageService.deleteCachedPlaylist(cachedPlaylist.playlist.id);
 
@@ -465,25 +599,25 @@ export function AppProvider({ children }: AppProviderProps) {
         if (currentOfflinePlaylists.has(playlist.id)) {
           if (needsUpdate) {
             // Download any new tracks
-            const tracksResponse = await api.getPlaylistTracks(playlist.id);
-            await storageService.saveCachedPlaylist(playlist, tracksResponse.tracks);
+            const playlistTracks = await fetchPlaylistTracks(playlist.id, true);
+            await storageService.saveCachedPlaylist(playlist, playlistTracks);
 
             // Update track list for progress calculation
             setOfflinePlaylistTracks(prev => {
               const next = new Map(prev);
-              next.set(playlist.id, tracksResponse.tracks.map(t => t.id));
+              next.set(playlist.id, playlistTracks.map(t => t.id));
               return next;
             });
 
             // Queue downloads for uncached tracks
-            const uncachedTracks = tracksResponse.tracks.filter(t => !cachedTrackIds.has(t.id));
+            const uncachedTracks = playlistTracks.filter(t => !cachedTrackIds.has(t.id));
             if (uncachedTracks.length > 0) {
               await downloadService.queuePlaylistDownload(uncachedTracks, playlist.id, settings.downloadQuality);
             }
 
             // Remove tracks that are no longer in the playlist
             if (cached) {
-              const newTrackIds = new Set(tracksResponse.tracks.map(t => t.id));
+              const newTrackIds = new Set(playlistTracks.map(t => t.id));
               const removedTracks = cached.tracks.filter(t => !newTrackIds.has(t.id));
               for (const track of removedTracks) {
                 await storageService.removePlaylistFromTrack(track.id, playlist.id);
@@ -491,7 +625,7 @@ export function AppProvider({ children }: AppProviderProps) {
             }
 
             if (currentPlaylistId === playlist.id) {
-              setCurrentPlaylistTracks(tracksResponse.tracks);
+              setCurrentPlaylistTracks(playlistTracks);
             }
           } else if (cached) {
             // Playlist hasn't changed, but ensure track list is set for progress
@@ -511,6 +645,8 @@ export function AppProvider({ children }: AppProviderProps) {
           await loadPlaylistTracksInternal(playlist.id, undefined, true);
         }
       }
+
+      await syncSmartPlaylistsInternal(currentOfflinePlaylists);
       return sorted;
     } catch (error) {
       console.error('Failed to sync playlists:', error);
@@ -523,7 +659,7 @@ export function AppProvider({ children }: AppProviderProps) {
           // Indexing not complete, keep cached data and retry later
           console.log('Failed to sync playlists but indexing not complete, keeping cache');
           const cachedPlaylists = await storageService.getAllCachedPlaylists();
-          return cachedPlaylists.map(cp => cp.playlist).sort((a, b) => a.sortOrder - b.sortOrder);
+          return getServerPlaylists(cachedPlaylists.map(cp => cp.playlist));
         }
       } catch (scanError) {
         console.error('Failed to check scan status:', scanError);
@@ -532,7 +668,7 @@ export function AppProvider({ children }: AppProviderProps) {
         const cachedPlaylists = await storageService.getAllCachedPlaylists();
         if (cachedPlaylists.length > 0) {
           showToast('Server unavailable, showing cached data', 'info');
-          const sorted = cachedPlaylists.map(cp => cp.playlist).sort((a, b) => a.sortOrder - b.sortOrder);
+          const sorted = getServerPlaylists(cachedPlaylists.map(cp => cp.playlist));
           setPlaylists(sorted);
           return sorted;
         }
@@ -559,8 +695,7 @@ export function AppProvider({ children }: AppProviderProps) {
 
       if (isOnline) {
         const api = getApiService();
-        const response = await api.getPlaylistTracks(playlistId);
-        tracks = response.tracks;
+        tracks = await fetchPlaylistTracks(playlistId, forceRefresh);
 
         // Check if response is empty
         if (tracks.length === 0) {
@@ -578,9 +713,10 @@ export function AppProvider({ children }: AppProviderProps) {
 
         setCurrentPlaylistTracks(tracks);
 
-        const playlist = (knownPlaylists || playlists).find(p => p.id === playlistId);
+        const playlist = (knownPlaylists || playlists).find(p => p.id === playlistId)
+          ?? await createVirtualPlaylistSummary(playlistId, tracks);
         if (playlist) {
-          await storageService.saveCachedPlaylist(playlist, response.tracks);
+          await storageService.saveCachedPlaylist(playlist, tracks);
         }
       } else if (!cached) {
         setCurrentPlaylistTracks([]);
@@ -621,6 +757,99 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }
 
+  // "All Songs" is built from the library endpoint, which also returns songs that are not in any playlist.
+  // Smart playlists are evaluated against the same tracks.
+  async function fetchPlaylistTracks(playlistId: string, forceRefresh = false): Promise<TrackInfo[]> {
+    if (playlistId === ALL_SONGS_PLAYLIST_ID) {
+      return loadLibraryTracksInternal(forceRefresh);
+    }
+
+    if (isSmartPlaylistId(playlistId)) {
+      const smartPlaylist = await findSmartPlaylist(playlistId);
+      if (!smartPlaylist) {
+        throw new Error(`Smart playlist not found: ${playlistId}`);
+      }
+      return evaluateSmartPlaylist(smartPlaylist, await loadLibraryTracksInternal(forceRefresh));
+    }
+
+    const api = getApiService();
+    const response = await api.getPlaylistTracks(playlistId);
+    return response.tracks;
+  }
+
+  // Read from storage rather than state, as this can be called from stale closures
+  async function findSmartPlaylist(playlistId: string): Promise<SmartPlaylist | undefined> {
+    const smartPlaylists = await storageService.getSmartPlaylists();
+    return smartPlaylists.find(p => getSmartPlaylistPlaylistId(p) === playlistId);
+  }
+
+  // Summary of playlists that are not returned by the server, used to cache their tracks
+  async function createVirtualPlaylistSummary(playlistId: string, tracks: TrackInfo[]): Promise<PlaylistSummary | undefined> {
+    if (playlistId === ALL_SONGS_PLAYLIST_ID) {
+      return createAllSongsPlaylist(tracks);
+    }
+
+    const smartPlaylist = isSmartPlaylistId(playlistId) ? await findSmartPlaylist(playlistId) : undefined;
+    return smartPlaylist ? createSmartPlaylistSummary(smartPlaylist, tracks) : undefined;
+  }
+
+  // Re-evaluate smart playlists marked for offline, as their tracks change with the library and the date
+  async function syncSmartPlaylistsInternal(offlineIds: Set<string>) {
+    for (const smartPlaylist of await storageService.getSmartPlaylists()) {
+      const playlistId = getSmartPlaylistPlaylistId(smartPlaylist);
+      if (!offlineIds.has(playlistId)) continue;
+
+      try {
+        const cached = await storageService.getCachedPlaylist(playlistId);
+        const playlistTracks = await fetchPlaylistTracks(playlistId);
+        const summary = createSmartPlaylistSummary(smartPlaylist, playlistTracks);
+        await storageService.saveCachedPlaylist(summary, playlistTracks);
+        setCachedSmartPlaylists(prev => new Map(prev).set(playlistId, summary));
+        setOfflinePlaylistTracks(prev => {
+          const next = new Map(prev);
+          next.set(playlistId, playlistTracks.map(t => t.id));
+          return next;
+        });
+
+        const uncachedTracks = playlistTracks.filter(t => !cachedTrackIds.has(t.id));
+        if (uncachedTracks.length > 0) {
+          await downloadService.queuePlaylistDownload(uncachedTracks, playlistId, settings.downloadQuality);
+        }
+
+        if (cached) {
+          const newTrackIds = new Set(playlistTracks.map(t => t.id));
+          const removedTracks = cached.tracks.filter(t => !newTrackIds.has(t.id));
+          for (const track of removedTracks) {
+            await storageService.removePlaylistFromTrack(track.id, playlistId);
+          }
+        }
+
+        if (currentPlaylistId === playlistId) {
+          setCurrentPlaylistTracks(playlistTracks);
+        }
+      } catch (error) {
+        console.error(`Failed to sync smart playlist ${playlistId}:`, error);
+      }
+    }
+  }
+
+  async function loadLibraryTracksInternal(forceRefresh = false): Promise<TrackInfo[]> {
+    if (!libraryTracksPromiseRef.current || forceRefresh) {
+      const api = getApiService();
+      libraryTracksPromiseRef.current = api.getAllTracks()
+        .then(response => {
+          setLibraryTracks(response.tracks);
+          return response.tracks;
+        })
+        .catch(error => {
+          // Allow a later call to retry
+          libraryTracksPromiseRef.current = null;
+          throw error;
+        });
+    }
+    return libraryTracksPromiseRef.current;
+  }
+
   const updateSettings = useCallback(async (newSettings: AppSettings) => {
     console.log('[useApp] updateSettings called with:', newSettings);
     const serverChanged = newSettings.serverUrl !== settings.serverUrl ||
@@ -634,8 +863,14 @@ export function AppProvider({ children }: AppProviderProps) {
 
     playerActions.setReplayGainMode(newSettings.replayGainMode);
     playerActions.setReplayGainPreamp(newSettings.replayGainPreamp);
+    playerActions.setReplayGainLimiter(newSettings.replayGainLimiter);
+    playerActions.setCrossfadeDuration(newSettings.crossfadeDuration);
+    playerActions.setShuffleAvoidSkipped(newSettings.shuffleAvoidSkipped);
+    playerActions.setEqualizer(newSettings.equalizer);
     playerActions.setScrobbleEnabled(newSettings.scrobbleEnabled);
     playerActions.setPreventDownloadOnLowData(newSettings.preventDownloadOnLowData);
+    playerActions.setAdaptiveQuality(newSettings.adaptiveQuality);
+    playerActions.setOutputDevice(newSettings.outputDeviceId);
 
     const networkType = getNetworkType();
     playerActions.setNetworkType(networkType);
@@ -682,6 +917,7 @@ export function AppProvider({ children }: AppProviderProps) {
   }, [settings, showToast, playerActions]);
 
   const selectPlaylist = useCallback(async (playlist: PlaylistSummary) => {
+    setCurrentView({ type: 'playlist' });
     setCurrentPlaylistId(playlist.id);
     localStorage.setItem('lastViewedPlaylistId', playlist.id);
     setIsLoading(true);
@@ -693,8 +929,8 @@ export function AppProvider({ children }: AppProviderProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOnline, playlists, showToast]);
 
-  const playTrack = useCallback(async (_track: TrackInfo, _index: number, tracks?: TrackInfo[]) => {
-    if (!currentPlaylistId) return;
+  const playTracks = useCallback(async (playlistId: string, tracks: TrackInfo[], options?: { startTrack?: TrackInfo; shuffle?: boolean }) => {
+    if (tracks.length === 0) return;
 
     const networkType = getNetworkType();
     playerActions.setNetworkType(networkType);
@@ -705,10 +941,225 @@ export function AppProvider({ children }: AppProviderProps) {
       : settings.normalQuality;
     playerActions.setQuality(quality);
 
-    playerActions.setPlaylist(currentPlaylistId, tracks || currentPlaylistTracks);
-    setPlayingPlaylistId(currentPlaylistId);
-    await playerActions.playTrack(_track);
-  }, [currentPlaylistId, currentPlaylistTracks, settings, playerActions]);
+    // A one-off order must not change the shuffle mode, which is a user preference:
+    // play in order by passing the identity shuffle order, or shuffle the tracks themselves
+    let playlistTracks = tracks;
+    let shuffleOrder: number[] | undefined;
+    if (options?.shuffle === false && playerState.shuffleEnabled) {
+      shuffleOrder = [...tracks.keys()];
+    } else if (options?.shuffle === true && !playerState.shuffleEnabled) {
+      playlistTracks = createWeightedShuffleOrder(tracks.map(() => 1)).map(index => tracks[index]);
+    }
+
+    playerActions.setPlaylist(playlistId, playlistTracks, shuffleOrder);
+    setPlayingPlaylistId(playlistId);
+    if (options?.startTrack) {
+      await playerActions.playTrack(options.startTrack);
+    } else {
+      await playerActions.playAtIndex(0);
+    }
+  }, [settings, playerState.shuffleEnabled, playerActions]);
+
+  const playTrack = useCallback(async (_track: TrackInfo, _index: number, tracks?: TrackInfo[]) => {
+    if (!currentPlaylistId) return;
+    await playTracks(currentPlaylistId, tracks || currentPlaylistTracks, { startTrack: _track });
+  }, [currentPlaylistId, currentPlaylistTracks, playTracks]);
+
+  const loadAlbums = useCallback(async (): Promise<AlbumInfo[]> => {
+    if (!isOnline) {
+      return albums;
+    }
+
+    try {
+      const api = getApiService();
+      const response = await api.getAlbums();
+      setAlbums(response.albums);
+      return response.albums;
+    } catch (error) {
+      console.error('Failed to load albums:', error);
+      showToast('Failed to load albums', 'error');
+      return albums;
+    }
+  }, [isOnline, albums, showToast]);
+
+  const loadArtists = useCallback(async (): Promise<ArtistInfo[]> => {
+    if (!isOnline) {
+      return artists;
+    }
+
+    try {
+      const api = getApiService();
+      const response = await api.getArtists();
+      setArtists(response.artists);
+      return response.artists;
+    } catch (error) {
+      console.error('Failed to load artists:', error);
+      showToast('Failed to load artists', 'error');
+      return artists;
+    }
+  }, [isOnline, artists, showToast]);
+
+  const loadLibraryTracks = useCallback(async (): Promise<TrackInfo[]> => {
+    try {
+      return await loadLibraryTracksInternal();
+    } catch (error) {
+      console.error('Failed to load library tracks:', error);
+      showToast('Failed to load tracks', 'error');
+      return [];
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showToast]);
+
+  const showAlbums = useCallback(() => {
+    setCurrentView({ type: 'albums' });
+  }, []);
+
+  const selectAlbum = useCallback(async (albumId: string) => {
+    setCurrentView({ type: 'album', albumId });
+    if (libraryTracks.length === 0) {
+      setIsLoading(true);
+      try {
+        await loadLibraryTracks();
+      } finally {
+        setIsLoading(false);
+      }
+    }
+  }, [libraryTracks.length, loadLibraryTracks, setIsLoading]);
+
+  const showArtists = useCallback(() => {
+    setCurrentView({ type: 'artists' });
+  }, []);
+
+  const selectArtist = useCallback(async (artistId: string) => {
+    setCurrentView({ type: 'artist', artistId });
+    setIsLoading(true);
+    try {
+      await Promise.all([
+        libraryTracks.length === 0 ? loadLibraryTracks() : Promise.resolve(libraryTracks),
+        albums.length === 0 ? loadAlbums() : Promise.resolve(albums),
+      ]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [libraryTracks, albums, loadLibraryTracks, loadAlbums, setIsLoading]);
+
+  const showSearch = useCallback(async (query: string) => {
+    setCurrentView({ type: 'search', query });
+    if (libraryTracks.length === 0) {
+      await loadLibraryTracks();
+    }
+  }, [libraryTracks.length, loadLibraryTracks]);
+
+  const showHistory = useCallback(() => {
+    setCurrentView({ type: 'history' });
+  }, []);
+
+  const applyRoute = useCallback(async (route: Route) => {
+    switch (route.type) {
+      case 'playlist': {
+        const playlist = playlists.find(p => p.id === route.playlistId)
+          ?? smartPlaylistSummaries.find(p => p.id === route.playlistId)
+          ?? (route.playlistId === ALL_SONGS_PLAYLIST_ID ? createAllSongsPlaylist([]) : undefined);
+        if (playlist) {
+          await selectPlaylist(playlist);
+        }
+        break;
+      }
+      case 'albums':
+        showAlbums();
+        break;
+      case 'album':
+        await selectAlbum(route.albumId);
+        break;
+      case 'artists':
+        showArtists();
+        break;
+      case 'artist':
+        await selectArtist(route.artistId);
+        break;
+      case 'search':
+        await showSearch(route.query);
+        break;
+      case 'history':
+        showHistory();
+        break;
+      case 'track': {
+        // Opens the album of the track, or "All Songs" for tracks without album
+        setHighlightedTrack({ trackId: route.trackId, route: null });
+        const tracks = await loadLibraryTracks();
+        const track = tracks.find(t => t.id === route.trackId);
+        if (!track) {
+          setHighlightedTrack(null);
+          showToast('Track not found', 'error');
+          break;
+        }
+
+        // Set along with the view, so the URL keeps the track route
+        if (track.albumId) {
+          setHighlightedTrack({ trackId: track.id, route: { type: 'album', albumId: track.albumId } });
+          await selectAlbum(track.albumId);
+        } else {
+          setHighlightedTrack({ trackId: track.id, route: { type: 'playlist', playlistId: ALL_SONGS_PLAYLIST_ID } });
+          await selectPlaylist(createAllSongsPlaylist(tracks));
+        }
+        break;
+      }
+    }
+  }, [playlists, smartPlaylistSummaries, selectPlaylist, showAlbums, selectAlbum, showArtists, selectArtist, showSearch, showHistory, loadLibraryTracks, showToast]);
+
+  const viewRoute = useMemo<Route | null>(() => {
+    if (currentView.type === 'playlist') {
+      return currentPlaylistId ? { type: 'playlist', playlistId: currentPlaylistId } : null;
+    }
+    return currentView;
+  }, [currentView, currentPlaylistId]);
+
+  // The highlighted track is kept while its view is shown, or while it is looked up
+  const isTrackHighlighted = highlightedTrack !== null && (highlightedTrack.route === null
+    || (viewRoute !== null && formatRoute(highlightedTrack.route) === formatRoute(viewRoute)));
+  const highlightedTrackId = isTrackHighlighted ? highlightedTrack.trackId : null;
+
+  const currentRoute = useMemo<Route | null>(() => {
+    return highlightedTrackId ? { type: 'track', trackId: highlightedTrackId } : viewRoute;
+  }, [highlightedTrackId, viewRoute]);
+
+  // Forget the highlighted track once another view is shown
+  useEffect(() => {
+    if (highlightedTrack && !isTrackHighlighted) {
+      setHighlightedTrack(null);
+    }
+  }, [highlightedTrack, isTrackHighlighted]);
+
+  // Keep the URL in sync with the current view
+  useEffect(() => {
+    if (!isInitialized || !currentRoute) return;
+
+    const hash = formatRoute(currentRoute);
+    if (window.location.hash === hash) return;
+
+    // Don't add a history entry for the initial view, nor one per keystroke in the search box
+    const previousRoute = parseRoute(window.location.hash);
+    if (!previousRoute || (currentRoute.type === 'search' && previousRoute.type === 'search')) {
+      history.replaceState(null, '', hash);
+    } else {
+      window.location.hash = hash;
+    }
+  }, [isInitialized, currentRoute]);
+
+  // Handle back/forward navigation and links
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    const handleHashChange = () => {
+      const route = parseRoute(window.location.hash);
+      if (route && (!currentRoute || formatRoute(route) !== formatRoute(currentRoute))) {
+        applyRoute(route);
+      }
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [isInitialized, currentRoute, applyRoute]);
 
   const downloadTrack = useCallback(async (track: TrackInfo) => {
     if (!currentPlaylistId) return;
@@ -1068,14 +1519,13 @@ export function AppProvider({ children }: AppProviderProps) {
     setOfflinePlaylistIds(prev => new Set([...prev, playlistId]));
 
     // Get playlist tracks
-    const api = getApiService();
     let tracks: TrackInfo[];
     try {
-      const response = await api.getPlaylistTracks(playlistId);
-      tracks = response.tracks;
+      tracks = await fetchPlaylistTracks(playlistId, true);
 
       // Save playlist metadata
-      const playlist = playlists.find(p => p.id === playlistId);
+      const playlist = playlists.find(p => p.id === playlistId)
+        ?? await createVirtualPlaylistSummary(playlistId, tracks);
       if (playlist) {
         await storageService.saveCachedPlaylist(playlist, tracks);
       }
@@ -1101,7 +1551,8 @@ export function AppProvider({ children }: AppProviderProps) {
 
   // Stop caching a playlist and optionally delete cached tracks
   const stopPlaylistCaching = useCallback(async (playlistId: string) => {
-    const playlist = playlists.find(p => p.id === playlistId);
+    const playlist = playlists.find(p => p.id === playlistId)
+      ?? smartPlaylistSummaries.find(p => p.id === playlistId);
     const playlistName = playlist?.name ?? 'this playlist';
     const confirmed = window.confirm(`Are you sure you want to remove "${playlistName}" from offline cache?`);
     if (!confirmed) {
@@ -1137,7 +1588,97 @@ export function AppProvider({ children }: AppProviderProps) {
     await storageService.cleanupOrphanedTracks();
 
     showToast('Removed offline playlist');
-  }, [playlists, showToast]);
+  }, [playlists, smartPlaylistSummaries, showToast]);
+
+  const saveSmartPlaylist = useCallback(async (playlist: SmartPlaylist): Promise<PlaylistSummary> => {
+    const saved: SmartPlaylist = { ...playlist, name: playlist.name.trim() || 'Smart Playlist', changed: new Date().toISOString() };
+    await storageService.saveSmartPlaylist(saved);
+    setSmartPlaylists(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+
+    const playlistId = getSmartPlaylistPlaylistId(saved);
+    let tracks: TrackInfo[] = [];
+    try {
+      tracks = await fetchPlaylistTracks(playlistId);
+    } catch (error) {
+      console.error('Failed to evaluate smart playlist:', error);
+    }
+
+    if (currentPlaylistId === playlistId) {
+      setCurrentPlaylistTracks(tracks);
+    }
+
+    // Keep the offline copy in sync with the new rules
+    if (offlinePlaylistIds.has(playlistId) && isOnline) {
+      await syncSmartPlaylistsInternal(new Set([playlistId]));
+    }
+
+    showToast(`Saved smart playlist "${saved.name}"`, 'success');
+    return createSmartPlaylistSummary(saved, tracks);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPlaylistId, offlinePlaylistIds, isOnline, cachedTrackIds, settings.downloadQuality, showToast]);
+
+  const deleteSmartPlaylist = useCallback(async (id: string): Promise<boolean> => {
+    const smartPlaylist = smartPlaylists.find(p => p.id === id);
+    if (!smartPlaylist) {
+      showToast('Playlist not found', 'error');
+      return false;
+    }
+
+    const confirmed = window.confirm(`Are you sure you want to delete "${smartPlaylist.name}"?`);
+    if (!confirmed) {
+      return false;
+    }
+
+    const playlistId = getSmartPlaylistPlaylistId(smartPlaylist);
+    try {
+      await storageService.deleteSmartPlaylist(id);
+
+      // If this playlist was marked for offline, clean up
+      if (offlinePlaylistIds.has(playlistId)) {
+        downloadService.cancelPlaylistDownloads(playlistId);
+        await storageService.setPlaylistOffline(playlistId, false);
+        await downloadService.deletePlaylistTracks(playlistId);
+        setOfflinePlaylistIds(prev => {
+          const next = new Set(prev);
+          next.delete(playlistId);
+          return next;
+        });
+        setOfflinePlaylistTracks(prev => {
+          const next = new Map(prev);
+          next.delete(playlistId);
+          return next;
+        });
+        setCachedTrackIds(await storageService.getCachedTrackIds());
+      }
+
+      await storageService.deleteCachedPlaylist(playlistId);
+      await storageService.cleanupOrphanedTracks();
+
+      setSmartPlaylists(prev => prev.filter(p => p.id !== id));
+      setCachedSmartPlaylists(prev => {
+        const next = new Map(prev);
+        next.delete(playlistId);
+        return next;
+      });
+
+      if (currentPlaylistId === playlistId) {
+        setCurrentPlaylistId(null);
+        setCurrentPlaylistTracks([]);
+      }
+
+      if (playingPlaylistId === playlistId) {
+        playerActions.pause();
+        setPlayingPlaylistId(null);
+      }
+
+      showToast(`Deleted playlist "${smartPlaylist.name}"`, 'success');
+      return true;
+    } catch (error) {
+      console.error('Failed to delete smart playlist:', error);
+      showToast('Failed to delete playlist', 'error');
+      return false;
+    }
+  }, [smartPlaylists, currentPlaylistId, playingPlaylistId, offlinePlaylistIds, playerActions, showToast]);
 
   const value: AppContextValue = {
     settings,
@@ -1150,6 +1691,24 @@ export function AppProvider({ children }: AppProviderProps) {
     createPlaylist,
     deletePlaylist,
     invalidPlaylists,
+    currentView,
+    highlightedTrackId,
+    albums,
+    libraryTracks,
+    artists,
+    loadAlbums,
+    loadArtists,
+    loadLibraryTracks,
+    showAlbums,
+    selectAlbum,
+    showArtists,
+    selectArtist,
+    showSearch,
+    showHistory,
+    smartPlaylists,
+    smartPlaylistSummaries,
+    saveSmartPlaylist,
+    deleteSmartPlaylist,
     isOnline,
     networkType,
     cachedTrackIds,
@@ -1166,6 +1725,7 @@ export function AppProvider({ children }: AppProviderProps) {
     isInitialized,
     showToast,
     playTrack,
+    playTracks,
     addTrackToPlaylist,
     removeTrackFromPlaylist,
     testConnection,
@@ -1,10 +1,13 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
-import type { TrackInfo, RepeatMode, QueueItem, StreamingQuality, ReplayGainMode, PlaybackState } from '../types';
+import type { AppliedReplayGain, TrackInfo, RepeatMode, QueueItem, StreamingQuality, ReplayGainMode, PlaybackState, EqualizerSettings, PlaybackRateScope, SleepTimerOptions, SleepTimerState, TrackPlayStats, AdaptiveQualityState, OutputDeviceState, ABLoop, ABLoopState } from '../types';
 import { audioPlayer, type PlayerEventType, type PlayerEventDetail } from '../services';
 
 export interface AudioPlayerState {
   currentTrack: TrackInfo | null;
   currentQuality: StreamingQuality | null;
+  adaptiveQuality: AdaptiveQualityState;
+  outputDevice: OutputDeviceState;
+  abLoop: ABLoopState;
   isPlaying: boolean;
   currentTime: number;
   duration: number;
@@ -15,6 +18,13 @@ export interface AudioPlayerState {
   queue: QueueItem[];
   lookaheadQueue: QueueItem[];
   isLoading: boolean;
+  sleepTimer: SleepTimerState | null;
+  playbackRate: number;
+  playbackRateScope: PlaybackRateScope | null;
+  resumePositions: ReadonlyMap<string, number>;
+  // Incremented when a track is added to the listening history
+  historyVersion: number;
+  trackStats: ReadonlyMap<string, TrackPlayStats>;
 }
 
 export interface AudioPlayerActions {
@@ -28,14 +38,31 @@ export interface AudioPlayerActions {
   toggleMute: () => void;
   setShuffle: (enabled: boolean) => void;
   cycleRepeatMode: () => RepeatMode;
+  setPlaybackRate: (rate: number) => void;
+  rememberPlaybackRate: (scope: PlaybackRateScope | null) => Promise<void>;
+  setSleepTimer: (options: SleepTimerOptions) => void;
+  cancelSleepTimer: () => void;
   setPlaylist: (playlistId: string, tracks: TrackInfo[], initialShuffleOrder?: number[]) => void;
   playTrack: (track: TrackInfo) => Promise<void>;
   playAtIndex: (index: number, autoPlay?: boolean, startTime?: number) => Promise<void>;
   addToQueue: (track: TrackInfo, playlistId: string, indexInPlaylist: number) => void;
   removeFromQueue: (index: number) => void;
   setQuality: (quality: StreamingQuality) => void;
+  setAdaptiveQuality: (enabled: boolean) => void;
+  setOutputDevice: (deviceId: string | null) => void;
+  requestOutputDeviceAccess: () => Promise<void>;
+  markABLoopPoint: (point: 'start' | 'end') => void;
+  setABLoop: (loop: ABLoop) => void;
+  setABLoopSlowDown: (slowDown: number) => void;
+  clearABLoop: () => void;
+  saveABLoop: () => Promise<void>;
+  deleteSavedABLoop: (id: number) => Promise<void>;
   setReplayGainMode: (mode: ReplayGainMode) => void;
   setReplayGainPreamp: (preamp: number) => void;
+  setReplayGainLimiter: (enabled: boolean) => void;
+  setCrossfadeDuration: (seconds: number) => void;
+  setShuffleAvoidSkipped: (enabled: boolean) => void;
+  setEqualizer: (settings: EqualizerSettings) => void;
   setScrobbleEnabled: (enabled: boolean) => void;
   setPreventDownloadOnLowData: (prevent: boolean) => void;
   setNetworkType: (type: 'normal' | 'low-data' | 'unknown') => void;
@@ -44,13 +71,21 @@ export interface AudioPlayerActions {
   restoreState: (state: PlaybackState) => Promise<void>;
   getCurrentPlaylistId: () => string | null;
   getCurrentIndex: () => number;
+  getReplayGainInfo: () => AppliedReplayGain | null;
+  getAnalyser: () => AnalyserNode | null;
   loadRecentlyPlayed: () => Promise<void>;
+  loadResumePositions: () => Promise<void>;
+  loadTrackStats: () => Promise<void>;
+  markTrackFinished: (trackId: string) => void;
 }
 
 export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
   const [state, setState] = useState<AudioPlayerState>({
     currentTrack: audioPlayer.getCurrentTrack(),
     currentQuality: audioPlayer.getCurrentQuality(),
+    adaptiveQuality: audioPlayer.getAdaptiveQuality(),
+    outputDevice: audioPlayer.getOutputDevice(),
+    abLoop: audioPlayer.getABLoop(),
     isPlaying: audioPlayer.isPlaying(),
     currentTime: audioPlayer.getCurrentTime(),
     duration: audioPlayer.getDuration(),
@@ -61,6 +96,12 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
     queue: audioPlayer.getQueue(),
     lookaheadQueue: audioPlayer.getLookaheadQueue(),
     isLoading: false,
+    sleepTimer: audioPlayer.getSleepTimer(),
+    playbackRate: audioPlayer.getPlaybackRate(),
+    playbackRateScope: audioPlayer.getPlaybackRateScope(),
+    resumePositions: audioPlayer.getResumePositions(),
+    historyVersion: 0,
+    trackStats: audioPlayer.getTrackStats(),
   });
 
   const timeUpdateThrottleRef = useRef<number>(0);
@@ -101,7 +142,9 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
           currentQuality: detail.quality ?? null,
           currentTime: 0,
           duration: 0,
-          isLoading: false
+          isLoading: false,
+          playbackRate: audioPlayer.getPlaybackRate(),
+          playbackRateScope: audioPlayer.getPlaybackRateScope(),
         })),
       },
       {
@@ -120,6 +163,42 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
           lookaheadQueue: audioPlayer.getLookaheadQueue()
         })),
       },
+      {
+        event: 'ratechange',
+        handler: () => setState(prev => ({
+          ...prev,
+          playbackRate: audioPlayer.getPlaybackRate(),
+          playbackRateScope: audioPlayer.getPlaybackRateScope(),
+        })),
+      },
+      {
+        event: 'resumepositionchange',
+        handler: () => setState(prev => ({ ...prev, resumePositions: audioPlayer.getResumePositions() })),
+      },
+      {
+        event: 'adaptivequalitychange',
+        handler: () => setState(prev => ({ ...prev, adaptiveQuality: audioPlayer.getAdaptiveQuality() })),
+      },
+      {
+        event: 'outputdevicechange',
+        handler: () => setState(prev => ({ ...prev, outputDevice: audioPlayer.getOutputDevice() })),
+      },
+      {
+        event: 'abloopchange',
+        handler: () => setState(prev => ({ ...prev, abLoop: audioPlayer.getABLoop() })),
+      },
+      {
+        event: 'trackstatschange',
+        handler: () => setState(prev => ({ ...prev, trackStats: audioPlayer.getTrackStats() })),
+      },
+      {
+        event: 'historychange',
+        handler: () => setState(prev => ({ ...prev, historyVersion: prev.historyVersion + 1 })),
+      },
+      {
+        event: 'sleeptimerchange',
+        handler: () => setState(prev => ({ ...prev, sleepTimer: audioPlayer.getSleepTimer() })),
+      },
       {
         event: 'loadstart',
         handler: () => setState(prev => ({ ...prev, isLoading: true })),
@@ -163,6 +242,10 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
       setState(prev => ({ ...prev, repeatMode: mode }));
       return mode;
     },
+    setPlaybackRate: (rate: number) => audioPlayer.setPlaybackRate(rate),
+    rememberPlaybackRate: (scope: PlaybackRateScope | null) => audioPlayer.rememberPlaybackRate(scope),
+    setSleepTimer: (options: SleepTimerOptions) => audioPlayer.setSleepTimer(options),
+    cancelSleepTimer: () => audioPlayer.cancelSleepTimer(),
     setPlaylist: (playlistId: string, tracks: TrackInfo[], initialShuffleOrder?: number[]) => {
       audioPlayer.setPlaylist(playlistId, tracks, initialShuffleOrder);
     },
@@ -183,12 +266,45 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
     setQuality: (quality: StreamingQuality) => {
       audioPlayer.setQuality(quality);
     },
+    setAdaptiveQuality: (enabled: boolean) => {
+      audioPlayer.setAdaptiveQuality(enabled);
+    },
+    setOutputDevice: (deviceId: string | null) => {
+      audioPlayer.setOutputDevice(deviceId).catch(console.error);
+    },
+    requestOutputDeviceAccess: () => audioPlayer.requestOutputDeviceAccess(),
+    markABLoopPoint: (point: 'start' | 'end') => {
+      audioPlayer.markABLoopPoint(point);
+    },
+    setABLoop: (loop: ABLoop) => {
+      audioPlayer.setABLoop(loop);
+    },
+    setABLoopSlowDown: (slowDown: number) => {
+      audioPlayer.setABLoopSlowDown(slowDown);
+    },
+    clearABLoop: () => {
+      audioPlayer.clearABLoop();
+    },
+    saveABLoop: () => audioPlayer.saveABLoop(),
+    deleteSavedABLoop: (id: number) => audioPlayer.deleteSavedABLoop(id),
     setReplayGainMode: (mode: ReplayGainMode) => {
       audioPlayer.setReplayGainMode(mode);
     },
     setReplayGainPreamp: (preamp: number) => {
       audioPlayer.setReplayGainPreamp(preamp);
     },
+    setReplayGainLimiter: (enabled: boolean) => {
+      audioPlayer.setReplayGainLimiter(enabled);
+    },
+    setCrossfadeDuration: (seconds: number) => {
+      audioPlayer.setCrossfadeDuration(seconds);
+    },
+    setShuffleAvoidSkipped: (enabled: boolean) => {
+      audioPlayer.setShuffleAvoidSkipped(enabled);
+    },
+    setEqualizer: (settings: EqualizerSettings) => {
+      audioPlayer.setEqualizer(settings);
+    },
     setScrobbleEnabled: (enabled: boolean) => {
       audioPlayer.setScrobbleEnabled(enabled);
     },
@@ -217,7 +333,12 @@ export function useAudioPlayer(): [AudioPlayerState, AudioPlayerActions] {
     },
     getCurrentPlaylistId: () => audioPlayer.getCurrentPlaylistId(),
     getCurrentIndex: () => audioPlayer.getCurrentIndex(),
+    getReplayGainInfo: () => audioPlayer.getReplayGainInfo(),
+    getAnalyser: () => audioPlayer.getAnalyser(),
     loadRecentlyPlayed: () => audioPlayer.loadRecentlyPlayed(),
+    loadResumePositions: () => audioPlayer.loadResumePositions(),
+    loadTrackStats: () => audioPlayer.loadTrackStats(),
+    markTrackFinished: (trackId: string) => audioPlayer.markTrackFinished(trackId),
   }), []);
 
   return [state, actions];
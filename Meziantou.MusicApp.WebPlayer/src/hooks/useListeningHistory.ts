@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ListeningHistoryEntry } from '../types';
+import { storageService } from '../services';
+
+interface ListeningHistoryState {
+  entries: ListeningHistoryEntry[];
+  isLoading: boolean;
+  clearHistory: () => Promise<void>;
+}
+
+/**
+ * Loads the listening history started since the given timestamp, oldest first.
+ * The history is reloaded when the version changes, i.e. when a track is added to it.
+ */
+export function useListeningHistory(since: number, version: number): ListeningHistoryState {
+  const [entries, setEntries] = useState<ListeningHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Ignore the result when the period changes before the history is loaded
+    let cancelled = false;
+    setIsLoading(true);
+
+    storageService.getListeningHistory(since)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        console.error('Error loading listening history:', err);
+        if (!cancelled) setEntries([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [since, version]);
+
+  const clearHistory = useCallback(async () => {
+    await storageService.clearListeningHistory();
+    setEntries([]);
+  }, []);
+
+  return { entries, isLoading, clearHistory };
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { getApiService, storageService } from '../services';
+
+interface LyricsState {
+  lyrics: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Lyrics are cached once fetched so they are available offline
+async function loadLyrics(trackId: string): Promise<string | null> {
+  const cached = await storageService.getCachedLyrics(trackId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const response = await getApiService().getSongLyrics(trackId);
+  if (response.lyrics) {
+    await storageService.saveCachedLyrics(trackId, response.lyrics);
+  }
+  return response.lyrics;
+}
+
+export function useLyrics(trackId: string | null): LyricsState {
+  const [state, setState] = useState<LyricsState>({ lyrics: null, isLoading: false, error: null });
+
+  useEffect(() => {
+    if (!trackId) {
+      setState({ lyrics: null, isLoading: false, error: null });
+      return;
+    }
+
+    // Ignore the result when the track changes before the lyrics are loaded
+    let cancelled = false;
+    setState({ lyrics: null, isLoading: true, error: null });
+
+    loadLyrics(trackId)
+      .then(lyrics => {
+        if (!cancelled) setState({ lyrics, isLoading: false, error: null });
+      })
+      .catch(err => {
+        console.error('Error fetching lyrics:', err);
+        if (!cancelled) setState({ lyrics: null, isLoading: false, error: 'Failed to load lyrics' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackId]);
+
+  return state;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AdaptiveQualityService, type ThroughputSample } from './adaptive-quality-service';
+
+const CHUNK_SIZE = 64 * 1024;
+const FILE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Stand-in for the music server, sending the files at a limited bandwidth.
+ * The time is simulated: reading a chunk advances the clock by the time it takes to receive it.
+ */
+function createThrottledServer() {
+  let time = 0;
+  let bandwidth = 10000; // in kbps
+
+  return {
+    now: () => time,
+    setBandwidth: (kbps: number) => { bandwidth = kbps; },
+    fetch: (): Response => {
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent >= FILE_SIZE) {
+            controller.close();
+            return;
+          }
+          // Bits per millisecond are kilobits per second
+          time += CHUNK_SIZE * 8 / bandwidth;
+          sent += CHUNK_SIZE;
+          controller.enqueue(new Uint8Array(CHUNK_SIZE));
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'audio/ogg' } });
+    },
+  };
+}
+
+describe('AdaptiveQualityService', () => {
+  let server: ReturnType<typeof createThrottledServer>;
+  let service: AdaptiveQualityService;
+
+  const downloadTrack = async () => {
+    const samples: ThroughputSample[] = [];
+    const blob = await service.download(server.fetch(), sample => {
+      samples.push(sample);
+      service.addSample(sample);
+    });
+    return { blob, samples };
+  };
+
+  beforeEach(() => {
+    server = createThrottledServer();
+    service = new AdaptiveQualityService({ format: 'flac' }, server.now);
+  });
+
+  it('should use the configured quality until the throughput is measured', () => {
+    expect(service.getQuality()).toEqual({ format: 'flac' });
+    expect(service.getState()).toEqual(expect.objectContaining({ tierIndex: 0, tierCount: 5, throughput: null }));
+  });
+
+  it('should measure the throughput of a download', async () => {
+    server.setBandwidth(800);
+
+    const { blob, samples } = await downloadTrack();
+
+    expect(blob.size).toBe(FILE_SIZE);
+    expect(blob.type).toBe('audio/ogg');
+    expect(samples).toHaveLength(1);
+    expect(samples[0].bytes * 8 / samples[0].duration).toBeCloseTo(800);
+    expect(service.getThroughput()).toBeCloseTo(800);
+  });
+
+  it('should lower the quality when the bandwidth drops and raise it once it recovers', async () => {
+    server.setBandwidth(5000);
+    await downloadTrack();
+    expect(service.getQuality()).toEqual({ format: 'flac' });
+
+    // A slow network is followed after a single track
+    server.setBandwidth(300);
+    await downloadTrack();
+    expect(service.getQuality()).toEqual({ format: 'opus', maxBitRate: 192 });
+
+    server.setBandwidth(100);
+    for (let i = 0; i < 10; i++) {
+      await downloadTrack();
+    }
+    expect(service.getQuality()).toEqual({ format: 'opus', maxBitRate: 64 });
+
+    // After a long slow period, the bandwidth must be stable for a few tracks before the quality is fully raised
+    server.setBandwidth(5000);
+    await downloadTrack();
+    expect(service.getState().tierIndex).toBeGreaterThan(0);
+
+    for (let i = 0; i < 10; i++) {
+      await downloadTrack();
+    }
+    expect(service.getQuality()).toEqual({ format: 'flac' });
+  });
+
+  it('should ignore small samples', () => {
+    expect(service.addSample({ bytes: 1024, duration: 1000 })).toBe(false);
+    expect(service.getThroughput()).toBeNull();
+  });
+
+  it('should use the configured quality when disabled', async () => {
+    server.setBandwidth(100);
+    await downloadTrack();
+    expect(service.getQuality()).toEqual({ format: 'opus', maxBitRate: 64 });
+
+    service.setEnabled(false);
+    expect(service.getQuality()).toEqual({ format: 'flac' });
+    expect(service.getState().tierIndex).toBe(0);
+  });
+
+  it('should select a tier of the new configured quality', async () => {
+    server.setBandwidth(300);
+    await downloadTrack();
+
+    service.setBaseQuality({ format: 'mp3', maxBitRate: 320 });
+
+    expect(service.getQuality()).toEqual({ format: 'mp3', maxBitRate: 192 });
+  });
+});
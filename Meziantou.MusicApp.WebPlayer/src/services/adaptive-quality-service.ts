@@ -0,0 +1,119 @@
+import type { AdaptiveQualityState, StreamingQuality } from '../types';
+import { getQualityTiers, selectQualityTier, updateThroughputAverage } from '../utils';
+
+export interface ThroughputSample {
+  bytes: number;
+  duration: number; // in ms, spent waiting for the network
+}
+
+/**
+ * Measures the download throughput and selects the streaming quality tier it can sustain.
+ *
+ * Two moving averages are kept: a fast one that follows drops of the bandwidth, and a slow one that confirms its
+ * recovery. The lowest one is used, so the quality is lowered quickly and raised again only once the bandwidth is
+ * stable. The clock can be replaced for tests.
+ */
+export class AdaptiveQualityService {
+  private baseQuality: StreamingQuality;
+  private tiers: StreamingQuality[];
+  private tierIndex: number = 0;
+  private enabled: boolean = true;
+  private fastAverage: number | null = null;
+  private slowAverage: number | null = null;
+  private readonly now: () => number;
+
+  // Samples smaller than this are mostly latency, not throughput
+  private static readonly MIN_SAMPLE_BYTES = 32 * 1024;
+  private static readonly FAST_HALF_LIFE_BYTES = 256 * 1024;
+  private static readonly SLOW_HALF_LIFE_BYTES = 4 * 1024 * 1024;
+
+  constructor(baseQuality: StreamingQuality, now: () => number = () => performance.now()) {
+    this.baseQuality = baseQuality;
+    this.tiers = getQualityTiers(baseQuality);
+    this.now = now;
+  }
+
+  /**
+   * Sets the configured quality, which is the highest tier. The current tier is kept when it still exists.
+   */
+  setBaseQuality(quality: StreamingQuality): void {
+    const current = this.getQuality();
+    this.baseQuality = quality;
+    this.tiers = getQualityTiers(quality);
+
+    const index = this.tiers.findIndex(tier => tier.format === current.format && tier.maxBitRate === current.maxBitRate);
+    this.tierIndex = this.selectTier(Math.max(0, index));
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.tierIndex = this.selectTier(this.tierIndex);
+  }
+
+  // Quality to stream the next tracks with
+  getQuality(): StreamingQuality {
+    return this.enabled ? this.tiers[this.tierIndex] : this.baseQuality;
+  }
+
+  getThroughput(): number | null {
+    if (this.fastAverage === null || this.slowAverage === null) return null;
+    return Math.min(this.fastAverage, this.slowAverage);
+  }
+
+  getState(): AdaptiveQualityState {
+    return {
+      enabled: this.enabled,
+      quality: this.getQuality(),
+      tierIndex: this.enabled ? this.tierIndex : 0,
+      tierCount: this.tiers.length,
+      throughput: this.getThroughput(),
+    };
+  }
+
+  /**
+   * Adds a measure of the throughput. Returns true when the selected tier changed.
+   */
+  addSample(sample: ThroughputSample): boolean {
+    if (sample.bytes < AdaptiveQualityService.MIN_SAMPLE_BYTES || sample.duration <= 0) return false;
+
+    // Bits per millisecond are kilobits per second
+    const throughput = sample.bytes * 8 / sample.duration;
+    this.fastAverage = updateThroughputAverage(this.fastAverage, throughput, sample.bytes, AdaptiveQualityService.FAST_HALF_LIFE_BYTES);
+    this.slowAverage = updateThroughputAverage(this.slowAverage, throughput, sample.bytes, AdaptiveQualityService.SLOW_HALF_LIFE_BYTES);
+
+    const previous = this.tierIndex;
+    this.tierIndex = this.selectTier(this.tierIndex);
+    return this.tierIndex !== previous;
+  }
+
+  /**
+   * Reads a response into a blob, measuring the time spent waiting for each chunk.
+   * onSample is called once the download is complete.
+   */
+  async download(response: Response, onSample: (sample: ThroughputSample) => void): Promise<Blob> {
+    if (!response.body) return response.blob();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    let bytes = 0;
+    let duration = 0;
+    for (;;) {
+      const start = this.now();
+      const { done, value } = await reader.read();
+      duration += this.now() - start;
+      if (done) break;
+
+      chunks.push(value);
+      bytes += value.byteLength;
+    }
+
+    onSample({ bytes, duration });
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' });
+  }
+
+  private selectTier(currentIndex: number): number {
+    const throughput = this.getThroughput();
+    if (!this.enabled || throughput === null) return currentIndex;
+    return selectQualityTier(this.tiers, currentIndex, throughput);
+  }
+}
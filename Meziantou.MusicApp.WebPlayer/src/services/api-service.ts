@@ -5,7 +5,10 @@ import type {
   StreamingQuality,
   CreatePlaylistRequest,
   UpdatePlaylistRequest,
-  LyricsResponse
+  LyricsResponse,
+  AlbumsResponse,
+  ArtistsResponse,
+  TracksResponse
 } from '../types';
 
 export class ApiService {
@@ -107,6 +110,18 @@ export class ApiService {
     });
   }
 
+  async getAlbums(): Promise<AlbumsResponse> {
+    return this.fetch<AlbumsResponse>('/api/albums.json');
+  }
+
+  async getArtists(): Promise<ArtistsResponse> {
+    return this.fetch<ArtistsResponse>('/api/artists.json');
+  }
+
+  async getAllTracks(): Promise<TracksResponse> {
+    return this.fetch<TracksResponse>('/api/tracks.json');
+  }
+
   async getScanStatus(): Promise<ScanStatusResponse> {
     return this.fetch<ScanStatusResponse>('/api/scan/status.json');
   }
@@ -145,6 +160,21 @@ export class ApiService {
     return `${this.baseUrl}/api/songs/${encodeURIComponent(songId)}/cover${params}`;
   }
 
+  getAlbumCoverUrl(albumId: string, size?: number): string {
+    const params = size ? `?size=${size}` : '';
+    return `${this.baseUrl}/api/albums/${encodeURIComponent(albumId)}/cover${params}`;
+  }
+
+  getArtistCoverUrl(artistId: string, size?: number): string {
+    const params = size ? `?size=${size}` : '';
+    return `${this.baseUrl}/api/artists/${encodeURIComponent(artistId)}/cover${params}`;
+  }
+
+  // Whether the URL targets the configured server, so it can be sent the auth headers
+  isServerUrl(url: string): boolean {
+    return this.baseUrl !== '' && url.startsWith(`${this.baseUrl}/`);
+  }
+
   getAuthHeaders(): HeadersInit {
     return {
       'Authorization': `Bearer ${this.authToken}`
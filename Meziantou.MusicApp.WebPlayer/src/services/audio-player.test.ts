@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AudioPlayerService } from './audio-player';
-import { TrackInfo } from '../types';
+import { storageService } from './storage-service';
+import { loudnessService } from './loudness-service';
+import { CachedTrack, StreamingQuality, TrackInfo } from '../types';
 
 // Mock dependencies
 vi.mock('./api-service', () => ({
@@ -20,6 +22,25 @@ vi.mock('./storage-service', () => ({
     addRecentlyPlayed: vi.fn().mockResolvedValue(undefined),
     getRecentlyPlayedIds: vi.fn().mockResolvedValue(new Set()),
     cleanupOldRecentlyPlayed: vi.fn().mockResolvedValue(undefined),
+    getPlaybackRate: vi.fn().mockResolvedValue(undefined),
+    savePlaybackRate: vi.fn().mockResolvedValue(undefined),
+    deletePlaybackRate: vi.fn().mockResolvedValue(undefined),
+    getAllResumePositions: vi.fn().mockResolvedValue(new Map()),
+    saveResumePosition: vi.fn().mockResolvedValue(undefined),
+    deleteResumePosition: vi.fn().mockResolvedValue(undefined),
+    addListeningHistoryEntry: vi.fn().mockResolvedValue(undefined),
+    saveTrackStats: vi.fn().mockResolvedValue(undefined),
+    getAllTrackStats: vi.fn().mockResolvedValue([]),
+    getABLoops: vi.fn().mockResolvedValue([]),
+    addABLoop: vi.fn().mockResolvedValue(1),
+    deleteABLoop: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('./loudness-service', () => ({
+  loudnessService: {
+    getAnalysis: vi.fn().mockReturnValue(null),
+    requestAnalysis: vi.fn(),
   },
 }));
 
@@ -224,4 +245,646 @@ describe('AudioPlayerService Queue Logic', () => {
       // Should be playing Track 2, not a random track
       expect(player.getCurrentTrack()?.id).toBe('2');
     });
-  });});
+  });
+
+  describe('Gapless Playback', () => {
+    // fetch is mocked in setupTests
+    const fetchMock = vi.mocked(fetch);
+
+    it('should reuse the preloaded track instead of fetching it again', async () => {
+      await player.playAtIndex(0, false);
+      await player['preloadNextTrack']();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await player.next();
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should start the preloaded track in the other audio instance', async () => {
+      await player.playAtIndex(0, false);
+      const firstAudio = player['audio'];
+      await player['preloadNextTrack']();
+      Object.defineProperty(player['standbyInstance'].audio, 'readyState', { value: HTMLMediaElement.HAVE_ENOUGH_DATA });
+
+      const onTrackChange = vi.fn();
+      player.on('trackchange', onTrackChange);
+
+      expect(await player['startGaplessTransition']()).toBe(true);
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(player.getCurrentIndex()).toBe(1);
+      expect(player['audio']).not.toBe(firstAudio);
+      expect(onTrackChange).toHaveBeenCalledWith(expect.objectContaining({ track: mockTracks[1] }));
+    });
+
+    it('should not start the preloaded track when the queue changed', async () => {
+      await player.playAtIndex(0, false);
+      await player['preloadNextTrack']();
+      Object.defineProperty(player['standbyInstance'].audio, 'readyState', { value: HTMLMediaElement.HAVE_ENOUGH_DATA });
+
+      const queue = player.getQueue();
+      player.removeFromQueue(queue.findIndex(item => item.track.id === '2'));
+
+      expect(await player['startGaplessTransition']()).toBe(false);
+      expect(player.getCurrentTrack()?.id).toBe('1');
+    });
+
+    it('should not start the preloaded track when repeat is one', async () => {
+      player.setRepeatMode('one');
+      await player.playAtIndex(0, false);
+      await player['preloadNextTrack']();
+
+      expect(await player['startGaplessTransition']()).toBe(false);
+    });
+  });
+
+  describe('Crossfade', () => {
+    const createGainNode = () => ({
+      gain: { value: 1, cancelScheduledValues: vi.fn(), setValueCurveAtTime: vi.fn() },
+    }) as unknown as GainNode;
+
+    beforeEach(() => {
+      player['audioContext'] = { currentTime: 0 } as AudioContext;
+      player['audioInstances'].forEach(instance => instance.gainNode = createGainNode());
+      player.setCrossfadeDuration(5);
+    });
+
+    it('should fade the previous track out while fading the next one in', async () => {
+      await player.playAtIndex(0, false);
+      const previous = player['activeInstance'];
+      Object.defineProperty(previous.audio, 'duration', { value: 100 });
+      Object.defineProperty(previous.audio, 'currentTime', { value: 97 });
+      await player['preloadNextTrack']();
+      const next = player['standbyInstance'];
+      Object.defineProperty(next.audio, 'readyState', { value: HTMLMediaElement.HAVE_ENOUGH_DATA });
+
+      expect(await player['startGaplessTransition']()).toBe(true);
+      expect(previous.gainNode!.gain.setValueCurveAtTime).toHaveBeenCalledWith(expect.any(Float32Array), 0, 3);
+      expect(next.gainNode!.gain.setValueCurveAtTime).toHaveBeenCalledWith(expect.any(Float32Array), 0, 3);
+      expect(player['fadingInstance']).toBe(previous);
+
+      // Pausing during the crossfade stops the previous track
+      player['audio'].dispatchEvent(new Event('pause'));
+      expect(player['fadingInstance']).toBeNull();
+      expect(previous.track).toBeNull();
+    });
+
+    it('should not crossfade tracks of the same album', async () => {
+      const albumTracks = mockTracks.map(track => ({ ...track, albumId: 'album-1' }));
+      player.setPlaylist('playlist-1', albumTracks);
+      await player.playAtIndex(0, false);
+
+      expect(player['getCrossfadeDuration'](albumTracks[1])).toBe(0);
+      expect(player['getCrossfadeDuration'](mockTracks[1])).toBe(5);
+    });
+  });
+
+  describe('ReplayGain', () => {
+    beforeEach(() => {
+      player['audioInstances'].forEach(instance => instance.gainNode = { gain: { value: 1 } } as GainNode);
+      player.setReplayGainMode('track');
+    });
+
+    it('should use the analyzed loudness of tracks without tags', async () => {
+      vi.mocked(loudnessService.getAnalysis).mockReturnValueOnce({ trackId: '1', trackGain: -6, trackPeak: 0.5, source: 'local', analyzedAt: 0 });
+
+      await player.playAtIndex(0, false);
+
+      expect(loudnessService.requestAnalysis).toHaveBeenCalledWith(mockTracks[0]);
+      expect(player['activeInstance'].gainNode!.gain.value).toBeCloseTo(Math.pow(10, -6 / 20));
+    });
+
+    it('should prefer the ReplayGain tags', async () => {
+      player.setPlaylist('playlist-1', mockTracks.map(track => ({ ...track, replayGainTrackGain: -3 })));
+
+      await player.playAtIndex(0, false);
+
+      expect(player['activeInstance'].gainNode!.gain.value).toBeCloseTo(Math.pow(10, -3 / 20));
+      expect(player.getReplayGainInfo()).toMatchObject({ source: 'track', appliedGain: -3, isLimiterEnabled: false });
+    });
+  });
+
+  describe('Limiter', () => {
+    // The AudioContext mock records the connections of its nodes
+    const getConnections = (node: AudioNode | null) => (node as unknown as { connections: object[] }).connections;
+
+    it('should limit the output after the master volume', async () => {
+      player.setReplayGainLimiter(true);
+      await player['initAudioContext']();
+
+      const limiter = player['limiterNode'];
+      expect(getConnections(player['equalizerFilters'][9])).toEqual([player['masterGainNode'], player['analyserNode']]);
+      expect(getConnections(player['masterGainNode'])).toEqual([limiter]);
+      expect(getConnections(limiter)).toEqual([player['audioContext']!.destination]);
+    });
+
+    it('should connect the master volume to the output when disabled', async () => {
+      await player['initAudioContext']();
+      player.setReplayGainLimiter(true);
+      player.setReplayGainLimiter(false);
+
+      expect(getConnections(player['masterGainNode'])).toEqual([player['audioContext']!.destination]);
+      expect(getConnections(player['limiterNode'])).toEqual([]);
+    });
+  });
+
+  describe('Equalizer', () => {
+    beforeEach(() => {
+      player['equalizerPreampNode'] = { gain: { value: 1 } } as GainNode;
+      player['equalizerFilters'] = Array.from({ length: 10 }, () => ({ gain: { value: 0 } }) as BiquadFilterNode);
+    });
+
+    it('should apply the band gains and lower the pre-amp', () => {
+      player.setEqualizer({ enabled: true, gains: [6, 0, 0, 0, 0, 0, 0, 0, 0, -3], preamp: 0 });
+
+      expect(player['equalizerFilters'][0].gain.value).toBe(6);
+      expect(player['equalizerFilters'][9].gain.value).toBe(-3);
+      expect(player['equalizerPreampNode']!.gain.value).toBeCloseTo(Math.pow(10, -6 / 20));
+    });
+
+    it('should keep a flat response when disabled', () => {
+      player.setEqualizer({ enabled: false, gains: [6, 0, 0, 0, 0, 0, 0, 0, 0, -3], preamp: -3 });
+
+      expect(player['equalizerFilters'].every(filter => filter.gain.value === 0)).toBe(true);
+      expect(player['equalizerPreampNode']!.gain.value).toBe(1);
+    });
+  });
+
+  describe('Sleep Timer', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pause when the time is over', () => {
+      vi.useFakeTimers();
+      const pause = vi.spyOn(player, 'pause');
+
+      player.setSleepTimer({ mode: 'minutes', minutes: 1 });
+      expect(player.getSleepTimer()?.endsAt).toBe(Date.now() + 60 * 1000);
+
+      vi.advanceTimersByTime(30 * 1000);
+      expect(player.getSleepTimer()?.isFading).toBe(true);
+      expect(pause).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(30 * 1000);
+      expect(pause).toHaveBeenCalled();
+      expect(player.getSleepTimer()).toBeNull();
+    });
+
+    it('should stop at the end of the current track and load the next one', async () => {
+      await player.playAtIndex(0, false);
+      const play = vi.spyOn(player, 'play');
+      player.setSleepTimer({ mode: 'endOfTrack' });
+
+      await player['handleTrackEnded']();
+
+      expect(player.getSleepTimer()).toBeNull();
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(play).not.toHaveBeenCalled();
+    });
+
+    it('should count the tracks played before stopping', async () => {
+      await player.playAtIndex(0, false);
+      player.setSleepTimer({ mode: 'tracks', count: 1 });
+
+      await player['handleTrackEnded']();
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(player.getSleepTimer()?.remainingTracks).toBe(0);
+
+      await player['handleTrackEnded']();
+      expect(player.getCurrentTrack()?.id).toBe('3');
+      expect(player.getSleepTimer()).toBeNull();
+    });
+
+    it('should be cancelled by the media controls during the fade-out', () => {
+      player.setSleepTimer({ mode: 'minutes', minutes: 0.25 });
+      expect(player.getSleepTimer()?.isFading).toBe(true);
+
+      player['interruptSleepTimerFade']();
+      expect(player.getSleepTimer()).toBeNull();
+    });
+  });
+
+  describe('Playback Rate', () => {
+    it('should apply the rate remembered for the genre', async () => {
+      // No rate for the track, then 1.5 for its genre
+      vi.mocked(storageService.getPlaybackRate).mockResolvedValueOnce(undefined).mockResolvedValueOnce(1.5);
+
+      await player.playAtIndex(0, false);
+
+      expect(player.getPlaybackRate()).toBe(1.5);
+      expect(player.getPlaybackRateScope()).toBe('genre');
+      expect(player['audio'].preservesPitch).toBe(true);
+    });
+
+    it('should clamp the rate and update the remembered one', async () => {
+      await player.playAtIndex(0, false);
+      await player.rememberPlaybackRate('track');
+
+      player.setPlaybackRate(10);
+
+      expect(player.getPlaybackRate()).toBe(3);
+      expect(storageService.savePlaybackRate).toHaveBeenLastCalledWith('track:1', 3);
+    });
+  });
+
+  describe('Resume Positions', () => {
+    const longTracks = mockTracks.map(track => ({ ...track, duration: 3600 }));
+
+    beforeEach(() => {
+      player.setPlaylist('playlist-1', longTracks);
+    });
+
+    it('should start long tracks from their resume position', async () => {
+      vi.mocked(storageService.getAllResumePositions).mockResolvedValueOnce(new Map([['2', 2530]]));
+      await player.loadResumePositions();
+      Object.defineProperty(player['audioInstances'][0].audio, 'readyState', { value: HTMLMediaElement.HAVE_METADATA });
+      Object.defineProperty(player['audioInstances'][1].audio, 'readyState', { value: HTMLMediaElement.HAVE_METADATA });
+
+      await player.playAtIndex(1, false);
+
+      expect(player.getCurrentTime()).toBe(2530);
+    });
+
+    it('should save the position when pausing and forget it when the track ends', async () => {
+      await player.playAtIndex(0, false);
+      player['audio'].currentTime = 600;
+
+      player['audio'].dispatchEvent(new Event('pause'));
+      expect(player.getResumePositions().get('1')).toBe(600);
+      expect(storageService.saveResumePosition).toHaveBeenCalledWith('1', 600);
+
+      player['audio'].currentTime = 3600;
+      await player['handleTrackEnded']();
+      expect(player.getResumePositions().has('1')).toBe(false);
+      expect(storageService.deleteResumePosition).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('Listening History', () => {
+    const playUntil = (position: number) => {
+      const audio = player['audio'];
+      for (let time = audio.currentTime + 1; time <= position; time++) {
+        audio.currentTime = time;
+        audio.dispatchEvent(new Event('timeupdate'));
+      }
+    };
+
+    it('should record a track skipped before its end', async () => {
+      await player.playAtIndex(0, false);
+      playUntil(10);
+      // Seeking is not listening
+      player['audio'].currentTime = 40;
+      player['audio'].dispatchEvent(new Event('timeupdate'));
+
+      await player.next();
+
+      expect(storageService.addListeningHistoryEntry).toHaveBeenCalledTimes(1);
+      expect(storageService.addListeningHistoryEntry).toHaveBeenCalledWith(expect.objectContaining({
+        trackId: '1',
+        title: 'Track 1',
+        playedDuration: 10,
+        skipped: true,
+      }));
+    });
+
+    it('should record a track played until its end', async () => {
+      await player.playAtIndex(0, false);
+      playUntil(100);
+
+      await player['handleTrackEnded']();
+
+      expect(storageService.addListeningHistoryEntry).toHaveBeenCalledWith(expect.objectContaining({
+        trackId: '1',
+        playedDuration: 100,
+        skipped: false,
+      }));
+    });
+
+    it('should not record tracks played for a few seconds', async () => {
+      await player.playAtIndex(0, false);
+      playUntil(2);
+
+      await player.next();
+
+      expect(storageService.addListeningHistoryEntry).not.toHaveBeenCalled();
+    });
+
+    it('should count skips with their position', async () => {
+      await player.playAtIndex(0, false);
+      playUntil(2);
+
+      await player.next();
+
+      expect(player.getTrackStats().get('1')).toEqual(expect.objectContaining({
+        playCount: 0,
+        skipCount: 1,
+        skipPositions: [2],
+      }));
+      expect(storageService.saveTrackStats).toHaveBeenCalledWith(expect.objectContaining({ trackId: '1', skipCount: 1 }));
+    });
+
+    it('should count full plays', async () => {
+      await player.playAtIndex(0, false);
+      playUntil(100);
+
+      await player['handleTrackEnded']();
+
+      const stats = player.getTrackStats().get('1');
+      expect(stats).toEqual(expect.objectContaining({ playCount: 1, skipCount: 0 }));
+      expect(stats?.lastPlayedAt).not.toBeNull();
+    });
+
+    it('should not count a track that was loaded but never played', async () => {
+      await player.playAtIndex(0, false);
+
+      await player.next();
+
+      expect(player.getTrackStats().has('1')).toBe(false);
+    });
+  });
+
+  describe('Stream Failures', () => {
+    // fetch is mocked in setupTests
+    const fetchMock = vi.mocked(fetch);
+    const failedResponse = { ok: false, status: 502 } as Response;
+    const failStreams = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        fetchMock.mockResolvedValueOnce(failedResponse);
+      }
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry a failed stream with an exponential backoff', async () => {
+      failStreams(2);
+      const onTrackChange = vi.fn();
+      player.on('trackchange', onTrackChange);
+
+      const loading = player.playAtIndex(0, false);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      player['audio'].dispatchEvent(new Event('loadedmetadata'));
+      await loading;
+
+      expect(onTrackChange).toHaveBeenCalledWith(expect.objectContaining({ track: mockTracks[0], quality: { format: 'raw' } }));
+    });
+
+    it('should fall back to lower qualities, then to a cached copy of any quality', async () => {
+      // The initial attempt, the retries, then Opus 192, 128, 96 and 64
+      failStreams(8);
+      const cachedQuality: StreamingQuality = { format: 'mp3', maxBitRate: 128 };
+      const cached: CachedTrack = { trackId: '1', playlistIds: ['playlist-1'], blob: new Blob(['cached']), quality: cachedQuality, cachedAt: 0 };
+      // The cached copy is not good enough to be played first
+      vi.mocked(storageService.getCachedTrack).mockResolvedValueOnce(cached).mockResolvedValueOnce(cached);
+      const onTrackChange = vi.fn();
+      player.on('trackchange', onTrackChange);
+
+      const loading = player.playAtIndex(0, false);
+      await vi.advanceTimersByTimeAsync(7000);
+      expect(fetchMock).toHaveBeenCalledTimes(8);
+
+      player['audio'].dispatchEvent(new Event('loadedmetadata'));
+      await loading;
+
+      expect(onTrackChange).toHaveBeenCalledWith(expect.objectContaining({ track: mockTracks[0], quality: cachedQuality }));
+    });
+
+    it('should skip unplayable tracks and report them once a track plays', async () => {
+      failStreams(8);
+      const onUnplayableTracks = vi.fn();
+      player.on('unplayabletracks', onUnplayableTracks);
+
+      const loading = player.playAtIndex(0, false);
+      await vi.advanceTimersByTimeAsync(7000);
+      await loading;
+
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(onUnplayableTracks).not.toHaveBeenCalled();
+
+      player['audio'].dispatchEvent(new Event('canplay'));
+      expect(onUnplayableTracks).toHaveBeenCalledWith({ tracks: [mockTracks[0]] });
+    });
+
+    it('should resume from the same position when the stream fails during the playback', async () => {
+      await player.playAtIndex(0, false);
+      player['isPlaybackRequested'] = true;
+      const audio = player['audio'];
+      audio.currentTime = 42;
+      const play = vi.spyOn(player, 'play').mockResolvedValue();
+
+      audio.dispatchEvent(new Event('error'));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      audio.dispatchEvent(new Event('loadedmetadata'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(audio.currentTime).toBe(42);
+      expect(play).toHaveBeenCalled();
+    });
+
+    it('should stop the recovery when another track is loaded', async () => {
+      failStreams(1);
+      const loading = player.playAtIndex(0, false);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await player.next();
+      await loading;
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(player.getCurrentTrack()?.id).toBe('2');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Output Device', () => {
+    const createOutput = (deviceId: string) => ({ deviceId, kind: 'audiooutput', label: deviceId, groupId: '' }) as MediaDeviceInfo;
+    let devices: MediaDeviceInfo[];
+    let setSinkId: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      devices = [createOutput('default'), createOutput('speakers'), createOutput('headset')];
+      Object.defineProperty(navigator, 'mediaDevices', {
+        configurable: true,
+        value: { enumerateDevices: () => Promise.resolve(devices) },
+      });
+      setSinkId = vi.fn().mockResolvedValue(undefined);
+      player['audioContext'] = { setSinkId, state: 'running' } as unknown as AudioContext;
+      await player.refreshOutputDevices();
+    });
+
+    afterEach(() => {
+      Reflect.deleteProperty(navigator, 'mediaDevices');
+    });
+
+    it('should list the devices and play to the selected one', async () => {
+      await player.setOutputDevice('headset');
+
+      expect(setSinkId).toHaveBeenLastCalledWith('headset');
+      expect(player.getOutputDevice().deviceId).toBe('headset');
+      expect(player.getOutputDevice().devices.map(device => device.id)).toEqual(['speakers', 'headset']);
+    });
+
+    it('should fall back to the default device when the device disappears, and use it again when it reappears', async () => {
+      await player.setOutputDevice('headset');
+
+      devices = [createOutput('default'), createOutput('speakers')];
+      await player.refreshOutputDevices();
+      expect(setSinkId).toHaveBeenLastCalledWith('');
+      expect(player.getOutputDevice().deviceId).toBeNull();
+
+      devices = [...devices, createOutput('headset')];
+      await player.refreshOutputDevices();
+      expect(setSinkId).toHaveBeenLastCalledWith('headset');
+    });
+
+    it('should fall back to the default device when the device cannot be selected', async () => {
+      setSinkId.mockRejectedValueOnce(new DOMException('Device not found', 'NotFoundError'));
+
+      await player.setOutputDevice('headset');
+
+      expect(setSinkId).toHaveBeenLastCalledWith('');
+      expect(player.getOutputDevice().deviceId).toBeNull();
+    });
+
+    it('should stop listening to the device changes when destroyed', () => {
+      const mediaDevices = {
+        enumerateDevices: () => Promise.resolve(devices),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+      };
+      Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: mediaDevices });
+      AudioContext.prototype.setSinkId = vi.fn<(sinkId: string) => Promise<void>>();
+      try {
+        new AudioPlayerService().destroy();
+      } finally {
+        Reflect.deleteProperty(AudioContext.prototype, 'setSinkId');
+      }
+
+      const [[event, listener]] = mediaDevices.addEventListener.mock.calls;
+      expect(event).toBe('devicechange');
+      expect(mediaDevices.removeEventListener).toHaveBeenCalledWith('devicechange', listener);
+    });
+  });
+
+  describe('A-B Loop', () => {
+    const markLoop = (start: number, end: number) => {
+      const audio = player['audio'];
+      audio.currentTime = start;
+      player.markABLoopPoint('start');
+      audio.currentTime = end;
+      player.markABLoopPoint('end');
+    };
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      await player.playAtIndex(0, false);
+      Object.defineProperty(player['audio'], 'paused', { configurable: true, value: false });
+    });
+
+    afterEach(() => {
+      Reflect.deleteProperty(player['audio'], 'paused');
+      vi.useRealTimers();
+    });
+
+    it('should jump back to A when B is reached', () => {
+      markLoop(10, 20);
+      const audio = player['audio'];
+      // B was marked at the current position
+      vi.advanceTimersByTime(0);
+      expect(audio.currentTime).toBe(10);
+
+      audio.currentTime = 19.5;
+      audio.dispatchEvent(new Event('timeupdate'));
+
+      vi.advanceTimersByTime(499);
+      expect(audio.currentTime).toBe(19.5);
+      vi.advanceTimersByTime(1);
+      expect(audio.currentTime).toBe(10);
+      expect(player.getABLoop()).toEqual(expect.objectContaining({ start: 10, end: 20, repetitions: 2 }));
+    });
+
+    it('should not loop after seeking further than B', () => {
+      markLoop(10, 20);
+      vi.advanceTimersByTime(0);
+      const audio = player['audio'];
+      audio.currentTime = 50;
+      audio.dispatchEvent(new Event('timeupdate'));
+
+      vi.advanceTimersByTime(5000);
+      expect(audio.currentTime).toBe(50);
+    });
+
+    it('should slow down each repetition and restore the speed when cleared', () => {
+      player.setABLoopSlowDown(0.05);
+      markLoop(10, 20);
+      const audio = player['audio'];
+
+      for (let i = 0; i < 2; i++) {
+        audio.currentTime = 20;
+        audio.dispatchEvent(new Event('timeupdate'));
+        vi.advanceTimersByTime(0);
+      }
+      expect(player.getPlaybackRate()).toBe(0.9);
+
+      player.clearABLoop();
+      expect(player.getPlaybackRate()).toBe(1);
+      expect(player.getABLoop()).toEqual(expect.objectContaining({ start: null, end: null }));
+    });
+
+    it('should not jump back to A once destroyed', () => {
+      markLoop(10, 20);
+
+      player.destroy();
+      vi.advanceTimersByTime(1000);
+
+      expect(player['audio'].currentTime).toBe(20);
+    });
+
+    it('should clear the loop when another track is loaded', async () => {
+      markLoop(10, 20);
+
+      await player.next();
+
+      expect(player.getABLoop()).toEqual(expect.objectContaining({ start: null, end: null }));
+    });
+
+    it('should save the loops per track', async () => {
+      player.setABLoopSlowDown(0.02);
+      markLoop(10, 20);
+
+      await player.saveABLoop();
+
+      expect(storageService.addABLoop).toHaveBeenCalledWith(expect.objectContaining({ trackId: '1', start: 10, end: 20, slowDown: 0.02 }));
+      expect(player.getABLoop().savedLoops).toEqual([expect.objectContaining({ id: 1, start: 10, end: 20 })]);
+
+      await player.deleteSavedABLoop(1);
+      expect(storageService.deleteABLoop).toHaveBeenCalledWith(1);
+      expect(player.getABLoop().savedLoops).toEqual([]);
+    });
+
+    it('should load the saved loops of the track', async () => {
+      vi.mocked(storageService.getABLoops).mockResolvedValueOnce([
+        { id: 2, trackId: '2', start: 30, end: 40, slowDown: 0, createdAt: 0 },
+        { id: 1, trackId: '2', start: 5, end: 15, slowDown: 0, createdAt: 0 },
+      ]);
+
+      await player.next();
+      await vi.waitFor(() => expect(player.getABLoop().savedLoops).toHaveLength(2));
+
+      expect(storageService.getABLoops).toHaveBeenCalledWith('2');
+      expect(player.getABLoop().savedLoops.map(loop => loop.id)).toEqual([1, 2]);
+    });
+  });
+});
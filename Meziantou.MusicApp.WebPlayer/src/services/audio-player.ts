@@ -1,7 +1,55 @@
-import type { TrackInfo, StreamingQuality, ReplayGainMode, PlaybackState, RepeatMode, QueueItem } from '../types';
+import type {
+  TrackInfo,
+  StreamingQuality,
+  ReplayGainMode,
+  PlaybackState,
+  RepeatMode,
+  QueueItem,
+  EqualizerSettings,
+  ListeningHistoryEntry,
+  PlaybackRateScope,
+  ReplayGainInfo,
+  AppliedReplayGain,
+  SleepTimerOptions,
+  SleepTimerState,
+  TrackPlayStats,
+  AdaptiveQualityState,
+  OutputDevice,
+  OutputDeviceState,
+  ABLoop,
+  ABLoopState,
+  SavedABLoop
+} from '../types';
 import { getApiService } from './api-service';
 import { storageService } from './storage-service';
+import { loudnessService } from './loudness-service';
 import { PlayQueueService } from './play-queue-service';
+import { AdaptiveQualityService, type ThroughputSample } from './adaptive-quality-service';
+import { getStreamProxyUrl, isStreamProxyAvailable, registerStreamProxy } from './stream-proxy';
+import {
+  HISTORY_MIN_PLAYED_DURATION,
+  applyTrackPlayEvent,
+  clampPlaybackRate,
+  computeReplayGain,
+  createEqualPowerCurve,
+  getEqualizerPreampGain,
+  getOutputDevices,
+  getPrimaryGenre,
+  getQualityTiers,
+  getResumePosition,
+  getSlowedDownPlaybackRate,
+  getShuffleWeight,
+  isSameAlbum,
+  isSkippedPlay,
+  isTrackFinished,
+  markABLoopPoint,
+  normalizeEqualizerGains,
+  normalizeSearch,
+  resolveOutputDeviceId,
+  supportsOutputDeviceSelection,
+  supportsResumePosition
+} from '../utils';
+import { EQUALIZER_FREQUENCIES } from '../constants';
 
 export type PlayerEventType =
   | 'play'
@@ -14,7 +62,16 @@ export type PlayerEventType =
   | 'durationchange'
   | 'loadstart'
   | 'canplay'
-  | 'queuechange';
+  | 'queuechange'
+  | 'sleeptimerchange'
+  | 'ratechange'
+  | 'resumepositionchange'
+  | 'historychange'
+  | 'trackstatschange'
+  | 'adaptivequalitychange'
+  | 'unplayabletracks'
+  | 'outputdevicechange'
+  | 'abloopchange';
 
 export interface PlayerEventDetail {
   currentTime?: number;
@@ -23,6 +80,7 @@ export interface PlayerEventDetail {
   error?: string;
   track?: TrackInfo;
   quality?: StreamingQuality;
+  tracks?: TrackInfo[];
 }
 
 type PlayerEventCallback = (detail: PlayerEventDetail) => void;
@@ -33,19 +91,103 @@ interface AudioInstance {
   sourceNode: MediaElementAudioSourceNode | null;
   track: TrackInfo | null;
   quality: StreamingQuality | null;
+  // What the playback rate of the track comes from, null when it is not remembered
+  rateScope: PlaybackRateScope | null;
+}
+
+// The playback of the current track, recorded in the listening history when it stops
+interface ListeningSession {
+  track: TrackInfo;
+  startedAt: number;
+  playedDuration: number;
+  lastPosition: number;
+}
+
+// Why the playback of a track stopped: it reached its end, another track was loaded, or the page was closed
+type ListeningSessionEnd = 'ended' | 'changed' | 'closed';
+
+// The A-B loop of the current track
+interface ActiveABLoop {
+  start: number | null;
+  end: number | null;
+  repetitions: number;
+  // Rate before the repetitions slowed it down, restored when the loop is cleared
+  initialRate: number | null;
+}
+
+// The attempts to play the current track again after a failure of its stream
+interface TrackRecovery {
+  track: TrackInfo;
+  quality: StreamingQuality;
+  retries: number;
+  // Lower qualities not tried yet
+  fallbackQualities: StreamingQuality[];
+  hasTriedCache: boolean;
+}
+
+// 'stopped' means the track was not loaded and nothing else must be done, e.g. another track was loaded meanwhile
+type TrackLoadResult = 'loaded' | 'unplayable' | 'stopped';
+
+// Waits for a delay, rejects when the signal is aborted
+function wait(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Waits until the metadata of the source of an audio element is loaded, resolves with the error when it cannot be played
+function waitForSource(audio: HTMLAudioElement, signal: AbortSignal): Promise<string | null> {
+  return new Promise((resolve) => {
+    const finish = (error: string | null) => {
+      audio.removeEventListener('loadedmetadata', onLoaded);
+      audio.removeEventListener('error', onError);
+      signal.removeEventListener('abort', onAbort);
+      resolve(error);
+    };
+    const onLoaded = () => finish(null);
+    const onError = () => finish(audio.error?.message || 'Unknown playback error');
+    const onAbort = () => finish('Aborted');
+    audio.addEventListener('loadedmetadata', onLoaded);
+    audio.addEventListener('error', onError);
+    signal.addEventListener('abort', onAbort);
+  });
 }
 
 export class AudioPlayerService {
-  private audioInstance: AudioInstance;
+  // Two instances so the next track can be buffered and started as soon as the current one ends
+  private audioInstances: [AudioInstance, AudioInstance];
+  private activeInstanceIndex: 0 | 1 = 0;
 
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
 
+  // Equalizer: pre-amp → one filter per band → master
+  private equalizer: EqualizerSettings = { enabled: false, gains: [], preamp: 0 };
+  private equalizerPreampNode: GainNode | null = null;
+  private equalizerFilters: BiquadFilterNode[] = [];
+
+  // Optional soft limiter between the equalizer and the master volume
+  private limiterNode: DynamicsCompressorNode | null = null;
+  private isLimiterEnabled: boolean = false;
+
+  // Feeds the visualizer, before the master volume so it doesn't depend on the volume
+  private analyserNode: AnalyserNode | null = null;
+
   private currentTrack: TrackInfo | null = null;
   private currentQuality: StreamingQuality | null = null;
   private queueService: PlayQueueService;
 
   private quality: StreamingQuality = { format: 'raw' };
+  // Lowers the quality of the streamed tracks when the throughput is too low for the configured one
+  private adaptiveQuality = new AdaptiveQualityService(this.quality);
   private replayGainMode: ReplayGainMode = 'off';
   private replayGainPreamp: number = 0;
   private scrobbleEnabled: boolean = true;
@@ -54,11 +196,20 @@ export class AudioPlayerService {
   private cachedTrackIds: Set<string> = new Set();
   private isOnline: boolean = true;
 
-  // Preloading state
+  // Preloading state (the preloaded track is loaded in the standby instance)
   private preloadedTrack: TrackInfo | null = null;
   private isPreloading: boolean = false;
-  private preloadBlobUrl: string | null = null;
   private preloadAbortController: AbortController | null = null;
+  private gaplessTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Crossfade state (the fading instance is the one playing the end of the previous track)
+  private crossfadeDuration: number = 0;
+  private fadingInstance: AudioInstance | null = null;
+  private crossfadeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Sleep timer state
+  private sleepTimer: SleepTimerState | null = null;
+  private sleepTimerTimeout: ReturnType<typeof setTimeout> | null = null;
 
   // Volume state
   private masterVolume: number = 1;
@@ -75,9 +226,62 @@ export class AudioPlayerService {
   private recentlyPlayedIds: Set<string> = new Set();
   private static readonly RECENTLY_PLAYED_MAX_COUNT = 300;
 
+  // Positions to resume long tracks from, by track id
+  private resumePositions: Map<string, number> = new Map();
+  private lastResumePositionSaveTime: number = 0;
+  private static readonly RESUME_POSITION_SAVE_INTERVAL = 5000;
+
+  // Listening history
+  private listeningSession: ListeningSession | null = null;
+  // Larger jumps of the position between two updates are seeks, not playback
+  private static readonly MAX_LISTENING_TIME_UPDATE = 2;
+
+  // Stream failures
+  private trackRecovery: TrackRecovery | null = null;
+  private recoveryAbortController: AbortController | null = null;
+  private isPlaybackRequested: boolean = false;
+  // Tracks skipped because they could not be played, reported together once a track plays or the playback stops
+  private unplayableTracks: TrackInfo[] = [];
+  private static readonly MAX_LOAD_RETRIES = 3;
+  // Doubled after each retry
+  private static readonly LOAD_RETRY_DELAY = 1000;
+  // The next tracks are likely to fail too, e.g. when the server is down
+  private static readonly MAX_CONSECUTIVE_UNPLAYABLE_TRACKS = 5;
+
+  // Output device, the remembered one is used when it is connected, otherwise the default one ('')
+  private preferredOutputDeviceId: string | null = null;
+  private outputDevices: OutputDevice[] = [];
+  private audioContextSinkId: string = '';
+  private readonly handleDeviceChange = () => this.refreshOutputDevices();
+
+  // A-B loop
+  private abLoop: ActiveABLoop | null = null;
+  private abLoopSlowDown: number = 0;
+  private abLoopTimer: ReturnType<typeof setTimeout> | null = null;
+  private savedABLoops: SavedABLoop[] = [];
+  // Seeking further after B plays the rest of the track
+  private static readonly AB_LOOP_END_TOLERANCE = 1;
+
+  // Play and skip counters, by track id
+  private trackStats: Map<string, TrackPlayStats> = new Map();
+  private shuffleAvoidSkipped: boolean = false;
+
+  // Seconds before the end of a track at which the start of the next one is scheduled
+  private static readonly GAPLESS_SCHEDULE_AHEAD = 1;
+  // Starting an audio element takes a few milliseconds, so start the next track slightly early
+  private static readonly GAPLESS_START_LATENCY = 0.02;
+  // Fades shorter than this are not audible, so the tracks are chained without crossfade
+  private static readonly MIN_CROSSFADE_DURATION = 0.1;
+  // Bandwidth of about one octave, matching the spacing of the equalizer bands
+  private static readonly EQUALIZER_Q = 1.41;
+  // Seconds over which the volume is lowered before the sleep timer pauses the playback
+  private static readonly SLEEP_TIMER_FADE_DURATION = 30;
+  // Level in dBFS above which the limiter reduces the signal
+  private static readonly LIMITER_THRESHOLD = -1;
+
   constructor() {
-    this.audioInstance = this.createAudioInstance();
-    this.setupAudioEvents(this.audioInstance);
+    this.audioInstances = [this.createAudioInstance(), this.createAudioInstance()];
+    this.audioInstances.forEach(instance => this.setupAudioEvents(instance));
     this.setupMediaSession();
     this.queueService = new PlayQueueService({
       currentPlaylistId: null,
@@ -91,6 +295,11 @@ export class AudioPlayerService {
       networkType: this.networkType,
       preventDownloadOnLowData: this.preventDownloadOnLowData
     });
+
+    // Record the track being played when the page is closed
+    window.addEventListener('pagehide', () => this.endListeningSession('closed'));
+    registerStreamProxy((sample) => this.addThroughputSample(sample));
+    this.setupOutputDevices();
   }
 
   private createAudioInstance(): AudioInstance {
@@ -101,16 +310,40 @@ export class AudioPlayerService {
       gainNode: null,
       sourceNode: null,
       track: null,
-      quality: null
+      quality: null,
+      rateScope: null
     };
   }
 
   private get audio(): HTMLAudioElement {
-    return this.audioInstance.audio;
+    return this.activeInstance.audio;
   }
 
   private get activeInstance(): AudioInstance {
-    return this.audioInstance;
+    return this.audioInstances[this.activeInstanceIndex];
+  }
+
+  private get standbyInstance(): AudioInstance {
+    return this.audioInstances[this.activeInstanceIndex === 0 ? 1 : 0];
+  }
+
+  private swapInstances(): void {
+    this.activeInstanceIndex = this.activeInstanceIndex === 0 ? 1 : 0;
+  }
+
+  // Stops an instance and frees the blob it was playing
+  private releaseInstance(instance: AudioInstance): void {
+    instance.audio.pause();
+    if (instance.audio.src) {
+      if (instance.audio.src.startsWith('blob:')) {
+        URL.revokeObjectURL(instance.audio.src);
+      }
+      instance.audio.removeAttribute('src');
+      instance.audio.load();
+    }
+    instance.track = null;
+    instance.quality = null;
+    instance.rateScope = null;
   }
 
   private async initAudioContext(): Promise<void> {
@@ -118,12 +351,16 @@ export class AudioPlayerService {
 
     this.audioContext = new AudioContext();
     this.masterGainNode = this.audioContext.createGain();
-    this.masterGainNode.connect(this.audioContext.destination);
     // Apply volume respecting the muted state
     this.masterGainNode.gain.value = this.isMuted ? 0 : this.linearToLogarithmic(this.masterVolume);
 
-    // Connect audio element to the audio context
-    this.connectAudioInstance(this.audioInstance);
+    this.createEqualizer();
+
+    // Connect both audio elements to the audio context
+    this.audioInstances.forEach(instance => this.connectAudioInstance(instance));
+
+    // The audio elements play through the audio context, so it is the one that selects the output device
+    await this.applyOutputDevice();
 
     // Emit volumechange to sync React state with actual audio player state
     // This ensures the UI reflects the correct volume after AudioContext initialization
@@ -131,18 +368,89 @@ export class AudioPlayerService {
   }
 
   private connectAudioInstance(instance: AudioInstance): void {
-    if (!this.audioContext || !this.masterGainNode) return;
+    if (!this.audioContext || !this.equalizerPreampNode) return;
 
     instance.gainNode = this.audioContext.createGain();
     instance.sourceNode = this.audioContext.createMediaElementSource(instance.audio);
     instance.sourceNode.connect(instance.gainNode);
-    instance.gainNode.connect(this.masterGainNode);
+    instance.gainNode.connect(this.equalizerPreampNode);
+  }
+
+  private createEqualizer(): void {
+    if (!this.audioContext || !this.masterGainNode) return;
+
+    const context = this.audioContext;
+    this.equalizerPreampNode = context.createGain();
+    this.equalizerFilters = EQUALIZER_FREQUENCIES.map((frequency, index) => {
+      const filter = context.createBiquadFilter();
+      // Shelves for the outer bands so they also affect the frequencies beyond them
+      filter.type = index === 0 ? 'lowshelf' : index === EQUALIZER_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = AudioPlayerService.EQUALIZER_Q;
+      return filter;
+    });
+
+    let node: AudioNode = this.equalizerPreampNode;
+    for (const filter of this.equalizerFilters) {
+      node.connect(filter);
+      node = filter;
+    }
+    this.limiterNode = context.createDynamicsCompressor();
+    this.limiterNode.threshold.value = AudioPlayerService.LIMITER_THRESHOLD;
+    this.limiterNode.knee.value = 0;
+    this.limiterNode.ratio.value = 20;
+    this.limiterNode.attack.value = 0.001;
+    this.limiterNode.release.value = 0.1;
+
+    this.analyserNode = context.createAnalyser();
+    this.analyserNode.fftSize = 2048;
+    this.analyserNode.smoothingTimeConstant = 0.8;
+
+    this.applyEqualizer();
+    this.connectMasterBus();
+  }
+
+  // The limiter comes after the master gain, as the volume can boost the signal above full scale.
+  // It is removed from the graph when disabled, as a compressor always colors the sound a little
+  private connectMasterBus(): void {
+    const output = this.equalizerFilters[this.equalizerFilters.length - 1];
+    if (!output || !this.audioContext || !this.limiterNode || !this.masterGainNode) return;
+
+    output.disconnect();
+    this.masterGainNode.disconnect();
+    this.limiterNode.disconnect();
+
+    output.connect(this.masterGainNode);
+    if (this.analyserNode) {
+      output.connect(this.analyserNode);
+    }
+
+    if (this.isLimiterEnabled) {
+      this.masterGainNode.connect(this.limiterNode);
+      this.limiterNode.connect(this.audioContext.destination);
+    } else {
+      this.masterGainNode.connect(this.audioContext.destination);
+    }
+  }
+
+  // A disabled equalizer keeps its filters with a flat response, so the graph doesn't change while playing
+  private applyEqualizer(): void {
+    if (!this.equalizerPreampNode) return;
+
+    const gains = normalizeEqualizerGains(this.equalizer.gains);
+    this.equalizerFilters.forEach((filter, i) => {
+      filter.gain.value = this.equalizer.enabled ? gains[i] : 0;
+    });
+    this.equalizerPreampNode.gain.value = Math.pow(10, getEqualizerPreampGain(this.equalizer) / 20);
   }
 
   private setupAudioEvents(instance: AudioInstance): void {
     const audio = instance.audio;
+    // The standby instance is preloading or finishing the previous track, so it must not update the player state
+    const isActive = () => instance === this.activeInstance;
 
     audio.addEventListener('play', () => {
+      if (!isActive()) return;
       this.emit('play', {});
       if (!this.hasSentNowPlaying && this.currentTrack) {
         this.hasSentNowPlaying = true;
@@ -151,15 +459,23 @@ export class AudioPlayerService {
     });
 
     audio.addEventListener('pause', () => {
+      if (!isActive()) return;
+      this.cancelGaplessTransition();
+      this.cancelABLoopRepeat();
+      this.finishCrossfade();
+      this.saveResumePosition();
       this.emit('pause', {});
     });
 
     audio.addEventListener('timeupdate', () => {
+      if (!isActive()) return;
       this.emit('timeupdate', {
         currentTime: audio.currentTime,
         duration: audio.duration
       });
       this.saveStateThrottled();
+      this.saveResumePositionThrottled();
+      this.updateListeningSession(audio.currentTime);
 
       if (!this.hasScrobbled && this.currentTrack && audio.duration > 0) {
         const progress = audio.currentTime / audio.duration;
@@ -171,42 +487,88 @@ export class AudioPlayerService {
 
       // Check if we should start preload
       this.checkForPreload();
+      this.scheduleGaplessTransition();
+      this.scheduleABLoopRepeat();
+      this.checkSleepTimerFade();
+    });
+
+    audio.addEventListener('seeking', () => {
+      if (!isActive()) return;
+      this.cancelGaplessTransition();
+      this.cancelABLoopRepeat();
     });
 
     audio.addEventListener('ended', () => {
+      if (!isActive()) {
+        // The previous track finished after the next one was started
+        if (instance === this.fadingInstance) {
+          this.finishCrossfade();
+        } else if (instance.track) {
+          this.releaseInstance(instance);
+        }
+        return;
+      }
       this.handleTrackEnded();
     });
 
     audio.addEventListener('error', () => {
-      const error = audio.error?.message ?? 'Unknown playback error';
-      this.emit('error', { error });
+      if (!isActive()) return;
+      const error = audio.error?.message || 'Unknown playback error';
+      this.handlePlaybackError(instance, error).catch(console.error);
     });
 
     audio.addEventListener('volumechange', () => {
+      if (!isActive()) return;
       this.emit('volumechange', { volume: this.masterVolume });
     });
 
     audio.addEventListener('durationchange', () => {
+      if (!isActive()) return;
       this.emit('durationchange', { duration: audio.duration });
     });
 
     audio.addEventListener('loadstart', () => {
+      if (!isActive()) return;
       this.emit('loadstart', {});
     });
 
     audio.addEventListener('canplay', () => {
+      if (!isActive()) return;
       this.emit('canplay', {});
+      this.reportUnplayableTracks();
     });
   }
 
   private setupMediaSession(): void {
     if (!('mediaSession' in navigator)) return;
 
-    navigator.mediaSession.setActionHandler('play', () => this.play());
-    navigator.mediaSession.setActionHandler('pause', () => this.pause());
-    navigator.mediaSession.setActionHandler('previoustrack', () => this.previous());
-    navigator.mediaSession.setActionHandler('nexttrack', () => this.next());
+    // Using the media controls (e.g. a headphone button) while the sleep timer fades out means the listener is still awake
+    navigator.mediaSession.setActionHandler('play', () => {
+      this.interruptSleepTimerFade();
+      this.play();
+    });
+    navigator.mediaSession.setActionHandler('pause', () => {
+      this.interruptSleepTimerFade();
+      this.pause();
+    });
+    navigator.mediaSession.setActionHandler('previoustrack', () => {
+      this.interruptSleepTimerFade();
+      this.previous();
+    });
+    navigator.mediaSession.setActionHandler('nexttrack', () => {
+      this.interruptSleepTimerFade();
+      this.next();
+    });
+    try {
+      navigator.mediaSession.setActionHandler('stop', () => {
+        this.pause();
+        this.cancelSleepTimer();
+      });
+    } catch {
+      // The stop action is not supported by all browsers
+    }
     navigator.mediaSession.setActionHandler('seekto', (details) => {
+      this.interruptSleepTimerFade();
       if (details.seekTime !== undefined) {
         this.seek(details.seekTime);
       }
@@ -257,46 +619,47 @@ export class AudioPlayerService {
     }
   }
 
-  private applyReplayGain(instance: AudioInstance): void {
+  // Returns the gain applied to the instance so fades can be scaled to it
+  private applyReplayGain(instance: AudioInstance): number {
     const gainNode = instance.gainNode;
     const track = instance.track;
 
     if (!gainNode || !track) {
-      return;
+      return 1;
     }
 
-    let appliedGain = 1;
-    let gainDb: number | null = null;
-
-    if (this.replayGainMode !== 'off') {
-      if (this.replayGainMode === 'track') {
-        gainDb = track.replayGainTrackGain ?? null;
-      } else if (this.replayGainMode === 'album') {
-        gainDb = track.replayGainAlbumGain ?? track.replayGainTrackGain ?? null;
-      }
-
-      if (gainDb !== null && gainDb !== undefined && Number.isFinite(gainDb)) {
-        // Convert dB to linear gain: 10^(dB/20)
-        const preamp = Number.isFinite(this.replayGainPreamp) ? this.replayGainPreamp : 0;
-        const linearGain = Math.pow(10, (gainDb + preamp) / 20);
+    const replayGain = this.getReplayGain(track);
+    // Convert dB to linear gain: 10^(dB/20)
+    const appliedGain = Math.pow(10, replayGain.appliedGain / 20);
 
-        if (Number.isFinite(linearGain)) {
-          // Prevent clipping by limiting to reasonable values
-          appliedGain = Math.min(linearGain, 2);
-        }
-      }
+    // A running fade would override the new value
+    if (this.audioContext) {
+      gainNode.gain.cancelScheduledValues(this.audioContext.currentTime);
     }
-
     gainNode.gain.value = appliedGain;
 
     console.log(`Playing track: ${track.title} - ${track.artists}`, {
       replayGainMode: this.replayGainMode,
       trackGain: track.replayGainTrackGain,
       albumGain: track.replayGainAlbumGain,
-      usedGain: gainDb,
+      usedGain: replayGain.gain,
       preamp: this.replayGainPreamp,
+      isPeakLimited: replayGain.isPeakLimited,
       appliedGain: appliedGain
     });
+
+    return appliedGain;
+  }
+
+  // Tracks without tags use the gain computed by the loudness analysis, if any
+  private getReplayGain(track: TrackInfo): ReplayGainInfo {
+    return computeReplayGain(
+      track,
+      this.replayGainMode,
+      this.replayGainPreamp,
+      loudnessService.getAnalysis(track.id),
+      this.isLimiterEnabled && this.limiterNode !== null
+    );
   }
 
   private async handleScrobble(trackId: string, submission: boolean): Promise<void> {
@@ -350,7 +713,8 @@ export class AudioPlayerService {
   // Preloading methods
 
   private checkForPreload(): void {
-    if (this.isPreloading || this.preloadedTrack) return;
+    // The standby instance is still playing the end of the previous track
+    if (this.isPreloading || this.preloadedTrack || this.fadingInstance) return;
 
     const duration = this.audio.duration;
 
@@ -368,26 +732,26 @@ export class AudioPlayerService {
     // Don't preload if already preloaded
     if (this.preloadedTrack?.id === track.id) return;
 
+    this.requestLoudnessAnalysis(track);
+
     // Cancel any existing preload request
     if (this.preloadAbortController) {
       this.preloadAbortController.abort();
     }
-    this.preloadAbortController = new AbortController();
+    const abortController = new AbortController();
+    this.preloadAbortController = abortController;
 
     this.isPreloading = true;
 
     try {
       const api = getApiService();
       const cached = await storageService.getCachedTrack(track.id);
+      let source: string;
+      let quality: StreamingQuality;
 
-      // Clean up old preload URL
-      if (this.preloadBlobUrl) {
-        URL.revokeObjectURL(this.preloadBlobUrl);
-        this.preloadBlobUrl = null;
-      }
-
-      if (cached && this.shouldUseCache(cached.quality, this.quality)) {
-        this.preloadBlobUrl = URL.createObjectURL(cached.blob);
+      if (cached && this.canUseCachedTrack(cached.quality)) {
+        source = URL.createObjectURL(cached.blob);
+        quality = cached.quality;
       } else {
         if (this.networkType === 'low-data' && this.preventDownloadOnLowData) {
           // Skip preloading
@@ -395,20 +759,30 @@ export class AudioPlayerService {
           return;
         }
 
-        const url = api.getSongStreamUrl(track.id, this.quality);
-        const response = await fetch(url, {
-          headers: api.getAuthHeaders(),
-          signal: this.preloadAbortController.signal
-        });
+        quality = this.adaptiveQuality.getQuality();
+        source = await this.getStreamSource(api.getSongStreamUrl(track.id, quality), abortController.signal);
+      }
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
+      const playbackRate = await this.getRememberedPlaybackRate(track);
 
-        const blob = await response.blob();
-        this.preloadBlobUrl = URL.createObjectURL(blob);
+      // Another track was loaded while this one was being fetched
+      if (abortController.signal.aborted) {
+        if (source.startsWith('blob:')) {
+          URL.revokeObjectURL(source);
+        }
+        return;
       }
 
+      // Buffer the track in the standby instance so it can start without delay
+      const standby = this.standbyInstance;
+      this.releaseInstance(standby);
+      standby.audio.src = source;
+      standby.audio.load();
+      standby.track = track;
+      standby.quality = quality;
+      this.applyPlaybackRate(standby, playbackRate.rate, playbackRate.scope);
+      this.applyReplayGain(standby);
+
       this.preloadedTrack = track;
     } catch (error: any) {
       if (error.name !== 'AbortError') {
@@ -416,11 +790,190 @@ export class AudioPlayerService {
       }
     } finally {
       this.isPreloading = false;
+      if (this.preloadAbortController === abortController) {
+        this.preloadAbortController = null;
+      }
+    }
+  }
+
+  private clearPreload(): void {
+    if (this.preloadAbortController) {
+      this.preloadAbortController.abort();
       this.preloadAbortController = null;
     }
+
+    this.cancelGaplessTransition();
+    this.finishCrossfade();
+    this.preloadedTrack = null;
+    if (this.standbyInstance.track) {
+      this.releaseInstance(this.standbyInstance);
+    }
+  }
+
+  // Gapless methods
+
+  /**
+   * Schedules the start of the preloaded track for the moment the current one ends,
+   * or for the start of the crossfade when it is enabled.
+   * Timeupdate events are too coarse (~250ms) to start it from the event itself.
+   */
+  private scheduleGaplessTransition(): void {
+    if (this.gaplessTimer || !this.canStartGaplessTransition()) return;
+
+    const audio = this.audio;
+    if (audio.paused || !audio.duration || isNaN(audio.duration)) return;
+
+    const remaining = this.getRemainingTime();
+    const crossfade = this.getCrossfadeDuration(this.preloadedTrack!);
+    if (remaining > crossfade + AudioPlayerService.GAPLESS_SCHEDULE_AHEAD) return;
+
+    const delay = Math.max(0, remaining - crossfade - AudioPlayerService.GAPLESS_START_LATENCY) * 1000;
+    this.gaplessTimer = setTimeout(() => {
+      this.gaplessTimer = null;
+      this.startGaplessTransition();
+    }, delay);
+  }
+
+  private cancelGaplessTransition(): void {
+    if (this.gaplessTimer) {
+      clearTimeout(this.gaplessTimer);
+      this.gaplessTimer = null;
+    }
+  }
+
+  private canStartGaplessTransition(): boolean {
+    if (!this.preloadedTrack || this.queueService.getRepeatMode() === 'one') return false;
+
+    // The end of the track is repeated
+    if (this.hasABLoop()) return false;
+
+    // The playback stops at the end of the current track
+    if (this.isSleepTimerOnLastTrack()) return false;
+
+    // The next track must be loaded normally to start from its resume position
+    if (this.resumePositions.has(this.preloadedTrack.id)) return false;
+
+    // The queue may have been edited since the track was preloaded
+    const lookahead = this.queueService.getLookaheadQueue();
+    if (lookahead.length === 0 || lookahead[0].track.id !== this.preloadedTrack.id) return false;
+
+    return this.standbyInstance.audio.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA;
+  }
+
+  /**
+   * Starts the preloaded track in the standby instance and makes it the active one.
+   * The previous instance keeps playing its last milliseconds and is released when it ends.
+   */
+  private async startGaplessTransition(): Promise<boolean> {
+    if (!this.canStartGaplessTransition()) return false;
+
+    this.updateQueueConfig();
+    if (!this.queueService.next(true)) return false;
+
+    // The previous track is at its end, or is faded out during the crossfade
+    this.endListeningSession('ended');
+    this.cancelTrackRecovery();
+    this.resetABLoop();
+    const previous = this.activeInstance;
+    const next = this.standbyInstance;
+    const track = next.track!;
+    // When called because the track ended, there is nothing left to fade
+    const crossfade = Math.min(this.getCrossfadeDuration(track), this.getRemainingTime());
+    this.preloadedTrack = null;
+    this.swapInstances();
+
+    this.currentTrack = track;
+    this.currentQuality = next.quality;
+    this.hasScrobbled = false;
+    this.hasSentNowPlaying = false;
+    const gain = this.applyReplayGain(next);
+
+    if (crossfade >= AudioPlayerService.MIN_CROSSFADE_DURATION) {
+      this.startCrossfade(previous, next, gain, crossfade);
+    }
+    this.countSleepTimerTrack();
+
+    try {
+      await next.audio.play();
+    } catch (error) {
+      console.warn('Gapless playback failed:', error);
+    }
+
+    this.announceTrackChange(track);
+    this.emit('queuechange', {});
+    return true;
+  }
+
+  // Crossfade methods
+
+  private getRemainingTime(): number {
+    const audio = this.audio;
+    if (!audio.duration || isNaN(audio.duration)) return 0;
+    return Math.max(0, audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+  }
+
+  /**
+   * Gets the duration of the crossfade between the current track and the next one, 0 to chain them without fade
+   */
+  private getCrossfadeDuration(nextTrack: TrackInfo): number {
+    if (this.crossfadeDuration <= 0 || !this.currentTrack) return 0;
+
+    // Fades are done with the Web Audio API
+    if (!this.activeInstance.gainNode || !this.standbyInstance.gainNode) return 0;
+
+    if (isSameAlbum(this.currentTrack, nextTrack)) return 0;
+
+    // Don't fade over most of a short track
+    return Math.min(this.crossfadeDuration, this.currentTrack.duration / 2, nextTrack.duration / 2);
+  }
+
+  /**
+   * Fades out the previous track while fading in the next one, on top of their ReplayGain
+   */
+  private startCrossfade(previous: AudioInstance, next: AudioInstance, nextGain: number, duration: number): void {
+    if (!this.audioContext || !previous.gainNode || !next.gainNode) return;
+
+    const now = this.audioContext.currentTime;
+    const previousGain = previous.gainNode.gain.value;
+
+    previous.gainNode.gain.cancelScheduledValues(now);
+    previous.gainNode.gain.setValueCurveAtTime(createEqualPowerCurve('out', previousGain), now, duration);
+    next.gainNode.gain.cancelScheduledValues(now);
+    next.gainNode.gain.setValueCurveAtTime(createEqualPowerCurve('in', nextGain), now, duration);
+
+    this.fadingInstance = previous;
+    this.crossfadeTimer = setTimeout(() => {
+      this.crossfadeTimer = null;
+      this.finishCrossfade();
+    }, duration * 1000);
+  }
+
+  /**
+   * Stops the previous track. When the crossfade is interrupted, e.g. on pause, the current track is restored to its full gain.
+   */
+  private finishCrossfade(): void {
+    const instance = this.fadingInstance;
+    if (!instance) return;
+
+    const interrupted = this.crossfadeTimer !== null;
+    if (this.crossfadeTimer) {
+      clearTimeout(this.crossfadeTimer);
+      this.crossfadeTimer = null;
+    }
+
+    this.fadingInstance = null;
+    this.releaseInstance(instance);
+
+    if (interrupted) {
+      this.applyReplayGain(this.activeInstance);
+    }
   }
 
-  // Crossfade methods removed
+  // The cached file is used when it is as good as the configured quality, or as the quality the network allows
+  private canUseCachedTrack(cachedQuality: StreamingQuality): boolean {
+    return this.shouldUseCache(cachedQuality, this.quality) ||
+      this.shouldUseCache(cachedQuality, this.adaptiveQuality.getQuality());
+  }
 
   private shouldUseCache(cachedQuality: StreamingQuality, desiredQuality: StreamingQuality): boolean {
     if (!this.isOnline) return true;
@@ -435,72 +988,50 @@ export class AudioPlayerService {
   }
 
   private async loadTrack(track: TrackInfo, autoPlay: boolean = false, startTime: number = 0): Promise<void> {
-    // Cancel any ongoing preload
-    if (this.preloadAbortController) {
-      this.preloadAbortController.abort();
-      this.preloadAbortController = null;
+    // Remember where the previous track was stopped
+    if (this.currentTrack && this.currentTrack.id !== track.id) {
+      this.saveResumePosition();
     }
+    this.endListeningSession('changed');
+    this.cancelTrackRecovery();
+    this.resetABLoop();
+    this.lastResumePositionSaveTime = Date.now();
 
-    // Clear preloaded state
-    this.preloadedTrack = null;
-    if (this.preloadBlobUrl) {
-      URL.revokeObjectURL(this.preloadBlobUrl);
-      this.preloadBlobUrl = null;
+    if (startTime <= 0) {
+      startTime = this.resumePositions.get(track.id) ?? 0;
+    }
+
+    // Reuse the preloaded track when it is the one being loaded, e.g. when pressing next
+    const usePreload = this.preloadedTrack?.id === track.id && this.standbyInstance.track?.id === track.id;
+    if (usePreload) {
+      this.cancelGaplessTransition();
+      this.preloadedTrack = null;
+      this.releaseInstance(this.activeInstance);
+      this.swapInstances();
+    } else {
+      this.clearPreload();
     }
 
     this.currentTrack = track;
     const active = this.activeInstance;
-    active.track = track;
 
     this.hasScrobbled = false;
     this.hasSentNowPlaying = false;
 
-    const api = getApiService();
-
-    // Try to use cached version first
-    const cached = await storageService.getCachedTrack(track.id);
-
-    // Clean up old src
-    if (active.audio.src) {
-      URL.revokeObjectURL(active.audio.src);
-    }
-
-    if (cached && this.shouldUseCache(cached.quality, this.quality)) {
-      active.audio.src = URL.createObjectURL(cached.blob);
-      active.quality = cached.quality;
-    } else {
-      if (this.networkType === 'low-data' && this.preventDownloadOnLowData) {
-        this.emit('error', { error: 'Skipping track: Low data mode prevents download' });
-        // Try to play next track if possible, or just stop
-        // For now we just return, the UI should handle the error
-        return;
-      }
-
-      // Stream from server with auth header
-      const url = api.getSongStreamUrl(track.id, this.quality);
-
-      // Fetch with auth and create blob URL
-      try {
-        const response = await fetch(url, {
-          headers: api.getAuthHeaders()
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
-
-        const blob = await response.blob();
-        active.audio.src = URL.createObjectURL(blob);
-        active.quality = this.quality;
-      } catch (error) {
-        this.emit('error', { error: `Failed to load track: ${error}` });
-        return;
+    if (!usePreload) {
+      const result = await this.loadInstanceSource(active, track);
+      if (result === 'unplayable') {
+        await this.skipUnplayableTrack(track, autoPlay);
       }
+      if (result !== 'loaded') return;
     }
 
     this.currentQuality = active.quality;
 
+    const playbackRate = await this.getRememberedPlaybackRate(track);
+    this.applyPlaybackRate(active, playbackRate.rate, playbackRate.scope);
     this.applyReplayGain(active);
+    this.requestLoudnessAnalysis(track);
 
     // Reset gain to full for active track
     if (active.gainNode) {
@@ -538,12 +1069,7 @@ export class AudioPlayerService {
       }
     }
 
-    this.updateMediaSession();
-    this.emit('trackchange', { track, quality: this.currentQuality ?? undefined });
-    this.saveState();
-
-    // Record the track as recently played
-    this.recordRecentlyPlayed(track.id);
+    this.announceTrackChange(track);
 
     if (autoPlay) {
       try {
@@ -555,93 +1081,653 @@ export class AudioPlayerService {
     }
   }
 
-  private async handleTrackEnded(): Promise<void> {
-    this.emit('ended', {});
+  // Loads a track from the cache or the server into an instance
+  private async loadInstanceSource(instance: AudioInstance, track: TrackInfo): Promise<TrackLoadResult> {
+    const api = getApiService();
 
-    if (this.queueService.getRepeatMode() === 'one') {
-      this.audio.currentTime = 0;
-      this.play();
-      return;
+    // Try to use cached version first
+    const cached = await storageService.getCachedTrack(track.id);
+
+    // Clean up old src
+    this.releaseInstance(instance);
+    instance.track = track;
+
+    if (cached && this.canUseCachedTrack(cached.quality)) {
+      instance.audio.src = URL.createObjectURL(cached.blob);
+      instance.quality = cached.quality;
+      return 'loaded';
     }
 
-    // Move to next track in queue
-    if (this.hasNext()) {
-      await this.next();
-      return;
+    if (this.networkType === 'low-data' && this.preventDownloadOnLowData) {
+      this.emit('error', { error: 'Skipping track: Low data mode prevents download' });
+      // Try to play next track if possible, or just stop
+      // For now we just return, the UI should handle the error
+      return 'stopped';
     }
 
-    // Queue is empty - stop playback
-  }
+    // Stream from server with auth header
+    const quality = this.adaptiveQuality.getQuality();
+    const url = api.getSongStreamUrl(track.id, quality);
 
-  private scheduleStateSave(): void {
-    if (this.saveStateDebounced) {
-      clearTimeout(this.saveStateDebounced);
+    try {
+      instance.audio.src = await this.getStreamSource(url);
+      instance.quality = quality;
+      return 'loaded';
+    } catch (error) {
+      return this.recoverTrack(instance, track, quality, String(error));
     }
-    this.saveStateDebounced = setTimeout(() => this.saveState(), 1000);
   }
 
-  private saveStateThrottled(): void {
-    const now = Date.now();
-    if (now - this.lastSaveTime >= 1000) {
-      this.saveState();
+  /**
+   * Loads the current track again after a failure of its stream: the same quality is retried with an exponential
+   * backoff, then lower qualities are streamed, then a cached copy of any quality is played.
+   * When the track fails again later during its playback, the attempts continue from where they stopped.
+   */
+  private async recoverTrack(
+    instance: AudioInstance,
+    track: TrackInfo,
+    quality: StreamingQuality,
+    error: string
+  ): Promise<TrackLoadResult> {
+    if (this.trackRecovery?.track.id !== track.id) {
+      this.trackRecovery = {
+        track,
+        quality,
+        retries: 0,
+        fallbackQualities: getQualityTiers(quality).slice(1),
+        hasTriedCache: false,
+      };
     }
-  }
 
-  private async saveState(): Promise<void> {
-    this.lastSaveTime = Date.now();
-    const state: PlaybackState = {
-      currentPlaylistId: this.queueService.getPlaylistId(),
-      currentTrackIndex: this.queueService.getCurrentIndex(),
-      currentTrackId: this.currentTrack?.id ?? null,
-      currentTime: this.audio.currentTime,
-      isPlaying: !this.audio.paused,
-      volume: this.masterVolume,
-      isMuted: this.isMuted,
-      shuffleEnabled: this.queueService.isShuffleEnabled(),
-      repeatMode: this.queueService.getRepeatMode(),
-      shuffleOrder: this.queueService.getShuffleOrder(),
-      queue: this.queueService.getQueue()
-    };
-    await storageService.savePlaybackState(state);
-  }
+    const recovery = this.trackRecovery;
+    const abortController = new AbortController();
+    this.recoveryAbortController = abortController;
+    const signal = abortController.signal;
+    const api = getApiService();
+    const canStream = () => this.isOnline && !(this.networkType === 'low-data' && this.preventDownloadOnLowData);
 
-  private recordRecentlyPlayed(trackId: string): void {
-    // Add to local cache
-    this.recentlyPlayedIds.add(trackId);
+    try {
+      for (;;) {
+        console.warn(`Failed to play ${track.title}:`, error);
 
-    // Persist to storage and cleanup old entries in the background
-    storageService.addRecentlyPlayed(trackId)
-      .then(() => storageService.cleanupOldRecentlyPlayed(AudioPlayerService.RECENTLY_PLAYED_MAX_COUNT))
-      .catch((err) => console.error('Failed to save recently played track:', err));
-  }
+        let source: string;
+        let sourceQuality: StreamingQuality;
+        try {
+          if (canStream() && recovery.retries < AudioPlayerService.MAX_LOAD_RETRIES) {
+            await wait(AudioPlayerService.LOAD_RETRY_DELAY * 2 ** recovery.retries, signal);
+            recovery.retries++;
+            sourceQuality = recovery.quality;
+            source = await this.getStreamSource(api.getSongStreamUrl(track.id, sourceQuality), signal);
+          } else if (canStream() && recovery.fallbackQualities.length > 0) {
+            sourceQuality = recovery.fallbackQualities.shift()!;
+            source = await this.getStreamSource(api.getSongStreamUrl(track.id, sourceQuality), signal);
+          } else if (!recovery.hasTriedCache) {
+            recovery.hasTriedCache = true;
+            const cached = await storageService.getCachedTrack(track.id);
+            if (!cached) {
+              error = 'No cached copy';
+              continue;
+            }
+            sourceQuality = cached.quality;
+            source = URL.createObjectURL(cached.blob);
+          } else {
+            return 'unplayable';
+          }
+        } catch (e) {
+          if (signal.aborted) return 'stopped';
+          error = String(e);
+          continue;
+        }
 
-  async loadRecentlyPlayed(): Promise<void> {
-    try {
-      this.recentlyPlayedIds = await storageService.getRecentlyPlayedIds(AudioPlayerService.RECENTLY_PLAYED_MAX_COUNT);
-    } catch (err) {
-      console.error('Failed to load recently played tracks:', err);
-      this.recentlyPlayedIds = new Set();
-    }
-  }
+        if (signal.aborted) {
+          if (source.startsWith('blob:')) {
+            URL.revokeObjectURL(source);
+          }
+          return 'stopped';
+        }
 
-  // Public methods
+        this.releaseInstance(instance);
+        instance.track = track;
+        instance.quality = sourceQuality;
+        instance.audio.src = source;
 
-  on(event: PlayerEventType, callback: PlayerEventCallback): void {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, new Set());
+        const sourceError = await waitForSource(instance.audio, signal);
+        if (signal.aborted) return 'stopped';
+        if (sourceError === null) return 'loaded';
+        error = sourceError;
+      }
+    } finally {
+      if (this.recoveryAbortController === abortController) {
+        this.recoveryAbortController = null;
+      }
     }
-    this.eventListeners.get(event)!.add(callback);
   }
 
-  off(event: PlayerEventType, callback: PlayerEventCallback): void {
-    this.eventListeners.get(event)?.delete(callback);
+  private cancelTrackRecovery(): void {
+    this.recoveryAbortController?.abort();
+    this.recoveryAbortController = null;
+    this.trackRecovery = null;
   }
 
-  private emit(event: PlayerEventType, detail: PlayerEventDetail): void {
+  /**
+   * Handles a failure of the current track after its source was set, e.g. a server error received by the audio
+   * element or a network loss. The playback continues from the same position when the track can be recovered.
+   */
+  private async handlePlaybackError(instance: AudioInstance, error: string): Promise<void> {
+    const track = instance.track;
+    // The errors of the sources tried during the recovery are handled by it
+    if (!track || !instance.quality || this.recoveryAbortController) return;
+
+    const position = instance.audio.currentTime;
+    const previousQuality = instance.quality;
+    const shouldPlay = this.isPlaybackRequested;
+
+    const result = await this.recoverTrack(instance, track, previousQuality, error);
+    if (result === 'unplayable') {
+      await this.skipUnplayableTrack(track, shouldPlay);
+      return;
+    }
+    if (result !== 'loaded') return;
+
+    if (position > 0) {
+      instance.audio.currentTime = position;
+    }
+    this.currentQuality = instance.quality;
+    if (instance.quality !== previousQuality) {
+      this.emit('trackchange', { track, quality: instance.quality ?? undefined });
+    }
+
+    if (shouldPlay) {
+      try {
+        await this.play();
+      } catch (e) {
+        console.warn('Failed to resume playback:', e);
+        this.emit('pause', {});
+      }
+    }
+  }
+
+  /**
+   * Skips the current track when it cannot be played. The playback stops after several unplayable tracks in a row.
+   */
+  private async skipUnplayableTrack(track: TrackInfo, autoPlay: boolean): Promise<void> {
+    // The track was not skipped by the listener, so it must not count as a skip in its statistics
+    this.endListeningSession('closed');
+    this.unplayableTracks.push(track);
+
+    if (this.unplayableTracks.length >= AudioPlayerService.MAX_CONSECUTIVE_UNPLAYABLE_TRACKS || !this.hasNext()) {
+      this.emit('error', { error: `Failed to load track: ${track.title}` });
+      this.reportUnplayableTracks();
+      return;
+    }
+
+    this.updateQueueConfig();
+    if (this.queueService.next(true)) {
+      const nextTrack = this.queueService.getCurrentTrack();
+      if (nextTrack) {
+        await this.loadTrack(nextTrack, autoPlay);
+        this.emit('queuechange', {});
+      }
+    }
+  }
+
+  // Reports the skipped tracks once, when the playback continues with another track or stops
+  private reportUnplayableTracks(): void {
+    if (this.unplayableTracks.length === 0) return;
+
+    this.emit('unplayabletracks', { tracks: this.unplayableTracks });
+    this.unplayableTracks = [];
+  }
+
+  /**
+   * Gets the source of an audio element for a stream of the server. Through the service worker, the playback starts
+   * as soon as the first bytes are received and seeking uses range requests. Otherwise, the whole file is downloaded
+   * with the auth header and played from a blob.
+   */
+  private async getStreamSource(url: string, signal?: AbortSignal): Promise<string> {
+    if (isStreamProxyAvailable()) {
+      return getStreamProxyUrl(url);
+    }
+
+    const response = await fetch(url, {
+      headers: getApiService().getAuthHeaders(),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const blob = await this.adaptiveQuality.download(response, (sample) => this.addThroughputSample(sample));
+    return URL.createObjectURL(blob);
+  }
+
+  private addThroughputSample(sample: ThroughputSample): void {
+    this.adaptiveQuality.addSample(sample);
+    this.emit('adaptivequalitychange', {});
+  }
+
+  // Playback rate methods
+
+  private getPlaybackRateKey(track: TrackInfo, scope: PlaybackRateScope): string | null {
+    if (scope === 'track') return `track:${track.id}`;
+
+    const genre = getPrimaryGenre(track.genre);
+    return genre ? `genre:${normalizeSearch(genre)}` : null;
+  }
+
+  /**
+   * Gets the remembered playback rate of a track. The rate of the track has priority over the one of its genre.
+   * Tracks without remembered rate are played at normal speed.
+   */
+  private async getRememberedPlaybackRate(track: TrackInfo): Promise<{ rate: number; scope: PlaybackRateScope | null }> {
+    for (const scope of ['track', 'genre'] as const) {
+      const key = this.getPlaybackRateKey(track, scope);
+      if (!key) continue;
+
+      try {
+        const rate = await storageService.getPlaybackRate(key);
+        if (rate !== undefined) {
+          return { rate: clampPlaybackRate(rate), scope };
+        }
+      } catch (error) {
+        console.error('Failed to load playback rate:', error);
+      }
+    }
+
+    return { rate: 1, scope: null };
+  }
+
+  // The gain is used the next time the track is loaded, changing it during the playback would be audible
+  private requestLoudnessAnalysis(track: TrackInfo): void {
+    if (this.replayGainMode === 'off') return;
+    loudnessService.requestAnalysis(track);
+  }
+
+  private applyPlaybackRate(instance: AudioInstance, rate: number, scope: PlaybackRateScope | null): void {
+    // Loading a source resets the playback rate to the default one
+    instance.audio.defaultPlaybackRate = rate;
+    instance.audio.playbackRate = rate;
+    instance.audio.preservesPitch = true;
+    instance.rateScope = scope;
+  }
+
+  private announceTrackChange(track: TrackInfo): void {
+    this.updateMediaSession();
+    this.emit('trackchange', { track, quality: this.currentQuality ?? undefined });
+    this.saveState();
+
+    // Record the track as recently played
+    this.recordRecentlyPlayed(track.id);
+    this.startListeningSession(track);
+    this.loadSavedABLoops(track.id);
+  }
+
+  private async handleTrackEnded(): Promise<void> {
+    // The B point is at the end of the track
+    const loop = this.abLoop;
+    if (loop && loop.start !== null && loop.end !== null && loop.end >= this.audio.duration - AudioPlayerService.AB_LOOP_END_TOLERANCE) {
+      this.repeatABLoop();
+      this.play();
+      return;
+    }
+
+    this.emit('ended', {});
+    this.endListeningSession('ended');
+
+    if (this.currentTrack) {
+      this.forgetResumePosition(this.currentTrack.id);
+    }
+
+    if (this.isSleepTimerOnLastTrack()) {
+      await this.stopAtTrackEnd();
+      return;
+    }
+
+    if (this.queueService.getRepeatMode() === 'one') {
+      this.countSleepTimerTrack();
+      if (this.currentTrack) {
+        this.startListeningSession(this.currentTrack);
+      }
+      this.audio.currentTime = 0;
+      this.play();
+      return;
+    }
+
+    // The preloaded track is normally started just before the end, but the timer may not have run
+    if (await this.startGaplessTransition()) {
+      return;
+    }
+
+    // Move to next track in queue
+    if (this.hasNext()) {
+      this.countSleepTimerTrack();
+      await this.next();
+      return;
+    }
+
+    // Queue is empty - stop playback
+  }
+
+  // Sleep timer methods
+
+  private isSleepTimerOnLastTrack(): boolean {
+    return this.sleepTimer !== null && this.sleepTimer.endsAt === null && this.sleepTimer.remainingTracks === 0;
+  }
+
+  private countSleepTimerTrack(): void {
+    if (!this.sleepTimer || this.sleepTimer.endsAt !== null) return;
+
+    this.sleepTimer = { ...this.sleepTimer, remainingTracks: Math.max(0, this.sleepTimer.remainingTracks - 1) };
+    this.emit('sleeptimerchange', {});
+  }
+
+  // Waits for the start of the fade-out, then for the end of the timer
+  private scheduleSleepTimer(): void {
+    if (this.sleepTimerTimeout) {
+      clearTimeout(this.sleepTimerTimeout);
+      this.sleepTimerTimeout = null;
+    }
+    if (!this.sleepTimer || this.sleepTimer.endsAt === null) return;
+
+    const remaining = this.sleepTimer.endsAt - Date.now();
+    const fadeDuration = AudioPlayerService.SLEEP_TIMER_FADE_DURATION * 1000;
+    if (remaining > fadeDuration) {
+      this.sleepTimerTimeout = setTimeout(() => this.scheduleSleepTimer(), remaining - fadeDuration);
+      return;
+    }
+
+    this.startSleepTimerFade(remaining / 1000);
+    this.sleepTimerTimeout = setTimeout(() => {
+      this.sleepTimerTimeout = null;
+      this.pause();
+      this.cancelSleepTimer();
+    }, Math.max(0, remaining));
+  }
+
+  // In the track modes, the fade-out starts near the end of the last track
+  private checkSleepTimerFade(): void {
+    if (!this.isSleepTimerOnLastTrack() || this.sleepTimer!.isFading || this.audio.paused) return;
+
+    const remaining = this.getRemainingTime();
+    if (remaining > 0 && remaining <= AudioPlayerService.SLEEP_TIMER_FADE_DURATION) {
+      this.startSleepTimerFade(remaining);
+    }
+  }
+
+  private startSleepTimerFade(duration: number): void {
+    if (!this.sleepTimer) return;
+
+    this.sleepTimer = { ...this.sleepTimer, isFading: true };
+    this.emit('sleeptimerchange', {});
+
+    // Without the Web Audio API, the playback is paused without fade
+    if (!this.audioContext || !this.masterGainNode) return;
+
+    const gain = this.masterGainNode.gain;
+    const now = this.audioContext.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueCurveAtTime(createEqualPowerCurve('out', gain.value), now, Math.max(duration, AudioPlayerService.MIN_CROSSFADE_DURATION));
+  }
+
+  private interruptSleepTimerFade(): void {
+    if (this.sleepTimer?.isFading) {
+      this.cancelSleepTimer();
+    }
+  }
+
+  // Pauses at the end of the last track, and loads the next one so playing again continues from there
+  private async stopAtTrackEnd(): Promise<void> {
+    this.pause();
+    this.cancelSleepTimer();
+
+    if (!this.hasNext()) return;
+
+    this.updateQueueConfig();
+    if (this.queueService.next(true)) {
+      const currentTrack = this.queueService.getCurrentTrack();
+      if (currentTrack) {
+        await this.loadTrack(currentTrack, false);
+        this.emit('queuechange', {});
+      }
+    }
+  }
+
+  private scheduleStateSave(): void {
+    if (this.saveStateDebounced) {
+      clearTimeout(this.saveStateDebounced);
+    }
+    this.saveStateDebounced = setTimeout(() => this.saveState(), 1000);
+  }
+
+  private saveStateThrottled(): void {
+    const now = Date.now();
+    if (now - this.lastSaveTime >= 1000) {
+      this.saveState();
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    this.lastSaveTime = Date.now();
+    const state: PlaybackState = {
+      currentPlaylistId: this.queueService.getPlaylistId(),
+      currentTrackIndex: this.queueService.getCurrentIndex(),
+      currentTrackId: this.currentTrack?.id ?? null,
+      currentTime: this.audio.currentTime,
+      isPlaying: !this.audio.paused,
+      volume: this.masterVolume,
+      isMuted: this.isMuted,
+      shuffleEnabled: this.queueService.isShuffleEnabled(),
+      repeatMode: this.queueService.getRepeatMode(),
+      shuffleOrder: this.queueService.getShuffleOrder(),
+      queue: this.queueService.getQueue()
+    };
+    await storageService.savePlaybackState(state);
+  }
+
+  private recordRecentlyPlayed(trackId: string): void {
+    // Add to local cache
+    this.recentlyPlayedIds.add(trackId);
+
+    // Persist to storage and cleanup old entries in the background
+    storageService.addRecentlyPlayed(trackId)
+      .then(() => storageService.cleanupOldRecentlyPlayed(AudioPlayerService.RECENTLY_PLAYED_MAX_COUNT))
+      .catch((err) => console.error('Failed to save recently played track:', err));
+  }
+
+  async loadRecentlyPlayed(): Promise<void> {
+    try {
+      this.recentlyPlayedIds = await storageService.getRecentlyPlayedIds(AudioPlayerService.RECENTLY_PLAYED_MAX_COUNT);
+    } catch (err) {
+      console.error('Failed to load recently played tracks:', err);
+      this.recentlyPlayedIds = new Set();
+    }
+  }
+
+  // Listening history methods
+
+  private startListeningSession(track: TrackInfo): void {
+    this.listeningSession = {
+      track,
+      startedAt: Date.now(),
+      playedDuration: 0,
+      lastPosition: this.audio.currentTime,
+    };
+  }
+
+  // Adds the time played since the previous update, in real time so faster playback counts less
+  private updateListeningSession(currentTime: number): void {
+    const session = this.listeningSession;
+    if (!session) return;
+
+    const rate = this.audio.playbackRate || 1;
+    const elapsed = currentTime - session.lastPosition;
+    session.lastPosition = currentTime;
+    if (elapsed > 0 && elapsed <= AudioPlayerService.MAX_LISTENING_TIME_UPDATE * rate) {
+      session.playedDuration += elapsed / rate;
+    }
+  }
+
+  /**
+   * Records the current track in the listening history and in its play and skip counters.
+   * A track that didn't end is recorded as skipped, unless it was stopped during its last seconds.
+   * Closing the page is not a skip for the counters, as the user didn't choose to play another track.
+   */
+  private endListeningSession(end: ListeningSessionEnd): void {
+    const session = this.listeningSession;
+    if (!session) return;
+
+    const currentTime = this.audio.currentTime;
+    this.updateListeningSession(currentTime);
+    this.listeningSession = null;
+    if (session.playedDuration <= 0) return;
+
+    const track = session.track;
+    const skipped = end !== 'ended' && isSkippedPlay(currentTime, this.audio.duration || track.duration);
+    if (!skipped) {
+      this.recordTrackPlayEvent(track.id, 'play', currentTime);
+    } else if (end === 'changed') {
+      this.recordTrackPlayEvent(track.id, 'skip', currentTime);
+    }
+
+    if (session.playedDuration < HISTORY_MIN_PLAYED_DURATION) return;
+
+    const entry: ListeningHistoryEntry = {
+      trackId: track.id,
+      title: track.title,
+      artists: track.artists,
+      artistId: track.artistId,
+      album: track.album,
+      albumId: track.albumId,
+      trackDuration: track.duration,
+      startedAt: session.startedAt,
+      playedDuration: session.playedDuration,
+      skipped,
+    };
+
+    storageService.addListeningHistoryEntry(entry)
+      .then(() => this.emit('historychange', {}))
+      .catch((err) => console.error('Failed to save listening history:', err));
+  }
+
+  // Track stats methods
+
+  private recordTrackPlayEvent(trackId: string, type: 'play' | 'skip', position: number): void {
+    const stats = applyTrackPlayEvent(this.trackStats.get(trackId), trackId, { type, position, timestamp: Date.now() });
+    this.trackStats.set(trackId, stats);
+    this.emit('trackstatschange', {});
+    storageService.saveTrackStats(stats)
+      .catch((err) => console.error('Failed to save track stats:', err));
+  }
+
+  async loadTrackStats(): Promise<void> {
+    try {
+      const stats = await storageService.getAllTrackStats();
+      this.trackStats = new Map(stats.map(s => [s.trackId, s]));
+    } catch (err) {
+      console.error('Failed to load track stats:', err);
+      this.trackStats = new Map();
+    }
+    this.emit('trackstatschange', {});
+  }
+
+  getTrackStats(): ReadonlyMap<string, TrackPlayStats> {
+    return new Map(this.trackStats);
+  }
+
+  // Only skipped tracks have a weight lower than 1
+  private updateShuffleWeights(): void {
+    let shuffleWeights: Map<string, number> | null = null;
+    if (this.shuffleAvoidSkipped) {
+      shuffleWeights = new Map();
+      for (const stats of this.trackStats.values()) {
+        if (stats.skipCount > 0) {
+          shuffleWeights.set(stats.trackId, getShuffleWeight(stats));
+        }
+      }
+    }
+    this.queueService.updateConfig({ shuffleWeights });
+  }
+
+  // Resume position methods
+
+  // Remembers the position of the current track, or forgets it once the track is finished
+  private saveResumePosition(): void {
+    const track = this.currentTrack;
+    if (!track) return;
+
+    this.lastResumePositionSaveTime = Date.now();
+    const duration = this.audio.duration || track.duration;
+    if (!supportsResumePosition(duration)) return;
+
+    const currentTime = this.audio.currentTime;
+    if (isTrackFinished(currentTime, duration)) {
+      this.forgetResumePosition(track.id);
+      return;
+    }
+
+    // The position near the start is not saved, so loading the track doesn't forget the previous position
+    const position = getResumePosition(currentTime, duration);
+    if (position === null) return;
+
+    this.resumePositions.set(track.id, position);
+    this.emit('resumepositionchange', {});
+    storageService.saveResumePosition(track.id, position)
+      .catch((err) => console.error('Failed to save resume position:', err));
+  }
+
+  private saveResumePositionThrottled(): void {
+    if (Date.now() - this.lastResumePositionSaveTime >= AudioPlayerService.RESUME_POSITION_SAVE_INTERVAL) {
+      this.saveResumePosition();
+    }
+  }
+
+  private forgetResumePosition(trackId: string): void {
+    if (!this.resumePositions.delete(trackId)) return;
+
+    this.emit('resumepositionchange', {});
+    storageService.deleteResumePosition(trackId)
+      .catch((err) => console.error('Failed to delete resume position:', err));
+  }
+
+  async loadResumePositions(): Promise<void> {
+    try {
+      this.resumePositions = await storageService.getAllResumePositions();
+    } catch (err) {
+      console.error('Failed to load resume positions:', err);
+      this.resumePositions = new Map();
+    }
+    this.emit('resumepositionchange', {});
+  }
+
+  getResumePositions(): ReadonlyMap<string, number> {
+    return new Map(this.resumePositions);
+  }
+
+  // The track starts from the beginning the next time it is played
+  markTrackFinished(trackId: string): void {
+    this.forgetResumePosition(trackId);
+  }
+
+  // Public methods
+
+  on(event: PlayerEventType, callback: PlayerEventCallback): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set());
+    }
+    this.eventListeners.get(event)!.add(callback);
+  }
+
+  off(event: PlayerEventType, callback: PlayerEventCallback): void {
+    this.eventListeners.get(event)?.delete(callback);
+  }
+
+  private emit(event: PlayerEventType, detail: PlayerEventDetail): void {
     this.eventListeners.get(event)?.forEach(callback => callback(detail));
   }
 
   setPlaylist(playlistId: string, tracks: TrackInfo[], initialShuffleOrder?: number[]): void {
+    this.updateShuffleWeights();
     this.queueService.setPlaylist(playlistId, tracks, initialShuffleOrder);
     this.emit('queuechange', {});
   }
@@ -692,11 +1778,13 @@ export class AudioPlayerService {
         console.warn('AudioContext resume failed/timed out:', e);
       }
     }
+    this.isPlaybackRequested = true;
     await this.audio.play();
     navigator.mediaSession.playbackState = 'playing';
   }
 
   pause(): void {
+    this.isPlaybackRequested = false;
     this.audio.pause();
     navigator.mediaSession.playbackState = 'paused';
   }
@@ -713,13 +1801,7 @@ export class AudioPlayerService {
     if (!this.hasNext()) return;
 
     // Update config before advancing
-    this.queueService.updateConfig({
-      cachedTrackIds: this.cachedTrackIds,
-      recentlyPlayedIds: this.recentlyPlayedIds,
-      isOnline: this.isOnline,
-      networkType: this.networkType,
-      preventDownloadOnLowData: this.preventDownloadOnLowData
-    });
+    this.updateQueueConfig();
 
     // User explicitly pressed next, so force advancement even with repeat one
     if (this.queueService.next(true)) {
@@ -731,6 +1813,16 @@ export class AudioPlayerService {
     }
   }
 
+  private updateQueueConfig(): void {
+    this.queueService.updateConfig({
+      cachedTrackIds: this.cachedTrackIds,
+      recentlyPlayedIds: this.recentlyPlayedIds,
+      isOnline: this.isOnline,
+      networkType: this.networkType,
+      preventDownloadOnLowData: this.preventDownloadOnLowData
+    });
+  }
+
   async previous(): Promise<void> {
     // If more than 3 seconds into the song, restart it
     if (this.audio.currentTime > 3) {
@@ -769,14 +1861,26 @@ export class AudioPlayerService {
     return linear * linear;
   }
 
+  // Sets the master gain from the volume, stopping the sleep timer fade if any
+  private applyMasterGain(): void {
+    if (!this.masterGainNode) return;
+
+    if (this.audioContext) {
+      this.masterGainNode.gain.cancelScheduledValues(this.audioContext.currentTime);
+    }
+    this.masterGainNode.gain.value = this.isMuted ? 0 : this.linearToLogarithmic(this.masterVolume);
+  }
+
   setVolume(volume: number): void {
     this.masterVolume = Math.max(0, Math.min(2, volume));
     const gainValue = this.linearToLogarithmic(this.masterVolume);
     if (this.masterGainNode) {
-      this.masterGainNode.gain.value = this.isMuted ? 0 : gainValue;
+      this.applyMasterGain();
     } else {
       // Fallback if no audio context
-      this.audioInstance.audio.volume = this.isMuted ? 0 : Math.min(1, gainValue);
+      this.audioInstances.forEach(instance => {
+        instance.audio.volume = this.isMuted ? 0 : Math.min(1, gainValue);
+      });
     }
     this.emit('volumechange', { volume: this.masterVolume });
   }
@@ -788,9 +1892,11 @@ export class AudioPlayerService {
   setMuted(muted: boolean): void {
     this.isMuted = muted;
     if (this.masterGainNode) {
-      this.masterGainNode.gain.value = muted ? 0 : this.linearToLogarithmic(this.masterVolume);
+      this.applyMasterGain();
     } else {
-      this.audioInstance.audio.muted = muted;
+      this.audioInstances.forEach(instance => {
+        instance.audio.muted = muted;
+      });
     }
     this.emit('volumechange', { volume: this.masterVolume });
   }
@@ -804,6 +1910,7 @@ export class AudioPlayerService {
   }
 
   setShuffle(enabled: boolean): void {
+    this.updateShuffleWeights();
     this.queueService.setShuffle(enabled);
     this.scheduleStateSave();
     this.emit('queuechange', {});
@@ -831,13 +1938,359 @@ export class AudioPlayerService {
     return newMode;
   }
 
+  setSleepTimer(options: SleepTimerOptions): void {
+    this.cancelSleepTimer();
+
+    this.sleepTimer = {
+      mode: options.mode,
+      endsAt: options.mode === 'minutes' ? Date.now() + options.minutes * 60 * 1000 : null,
+      remainingTracks: options.mode === 'tracks' ? Math.max(0, options.count) : 0,
+      isFading: false
+    };
+    this.emit('sleeptimerchange', {});
+
+    this.scheduleSleepTimer();
+    this.checkSleepTimerFade();
+  }
+
+  cancelSleepTimer(): void {
+    if (!this.sleepTimer) return;
+
+    if (this.sleepTimerTimeout) {
+      clearTimeout(this.sleepTimerTimeout);
+      this.sleepTimerTimeout = null;
+    }
+
+    const wasFading = this.sleepTimer.isFading;
+    this.sleepTimer = null;
+    if (wasFading) {
+      this.applyMasterGain();
+    }
+    this.emit('sleeptimerchange', {});
+  }
+
+  getSleepTimer(): SleepTimerState | null {
+    return this.sleepTimer ? { ...this.sleepTimer } : null;
+  }
+
+  setPlaybackRate(rate: number): void {
+    const active = this.activeInstance;
+    this.applyPlaybackRate(active, clampPlaybackRate(rate), active.rateScope);
+
+    // The speed chosen during an A-B loop is kept when the loop is cleared
+    if (this.abLoop) {
+      this.abLoop.initialRate = null;
+    }
+
+    // The gapless transition was scheduled for the previous rate
+    this.cancelGaplessTransition();
+    this.updatePositionState();
+    this.emit('ratechange', {});
+
+    // Update the remembered rate
+    const key = this.currentTrack && active.rateScope ? this.getPlaybackRateKey(this.currentTrack, active.rateScope) : null;
+    if (key) {
+      storageService.savePlaybackRate(key, this.audio.playbackRate)
+        .catch((err) => console.error('Failed to save playback rate:', err));
+    }
+  }
+
+  getPlaybackRate(): number {
+    return this.audio.playbackRate;
+  }
+
+  getPlaybackRateScope(): PlaybackRateScope | null {
+    return this.activeInstance.rateScope;
+  }
+
+  /**
+   * Remembers the current playback rate for the current track or its genre, or forgets it when scope is null
+   */
+  async rememberPlaybackRate(scope: PlaybackRateScope | null): Promise<void> {
+    const track = this.currentTrack;
+    if (!track) return;
+
+    const active = this.activeInstance;
+    const trackKey = this.getPlaybackRateKey(track, 'track')!;
+    const genreKey = this.getPlaybackRateKey(track, 'genre');
+    if (scope === 'genre' && !genreKey) return;
+
+    try {
+      // The rate of the track has priority, so it must be removed to use the one of the genre
+      if (scope !== 'track') {
+        await storageService.deletePlaybackRate(trackKey);
+      }
+      if (scope === null && genreKey && active.rateScope === 'genre') {
+        await storageService.deletePlaybackRate(genreKey);
+      }
+      if (scope) {
+        await storageService.savePlaybackRate(scope === 'track' ? trackKey : genreKey!, this.audio.playbackRate);
+      }
+    } catch (error) {
+      console.error('Failed to save playback rate:', error);
+      return;
+    }
+
+    if (active === this.activeInstance) {
+      active.rateScope = scope;
+    }
+    this.emit('ratechange', {});
+  }
+
   setQuality(quality: StreamingQuality): void {
     this.quality = quality;
+    this.adaptiveQuality.setBaseQuality(quality);
+    this.emit('adaptivequalitychange', {});
+  }
+
+  setAdaptiveQuality(enabled: boolean): void {
+    this.adaptiveQuality.setEnabled(enabled);
+    this.emit('adaptivequalitychange', {});
+  }
+
+  getAdaptiveQuality(): AdaptiveQualityState {
+    return this.adaptiveQuality.getState();
+  }
+
+  // A-B loop methods
+
+  private hasABLoop(): boolean {
+    return this.abLoop !== null && this.abLoop.start !== null && this.abLoop.end !== null;
+  }
+
+  /**
+   * Marks the A (start) or B (end) point of the loop at the current position
+   */
+  markABLoopPoint(point: 'start' | 'end'): void {
+    if (!this.currentTrack) return;
+
+    const points = markABLoopPoint(this.abLoop ?? { start: null, end: null }, point, this.audio.currentTime);
+    this.abLoop = { ...points, repetitions: 0, initialRate: this.abLoop?.initialRate ?? null };
+    this.updateABLoop();
+  }
+
+  // Loops a section, e.g. a saved loop, from its start
+  setABLoop(loop: ABLoop): void {
+    if (!this.currentTrack) return;
+
+    this.abLoopSlowDown = loop.slowDown;
+    this.abLoop = { start: loop.start, end: loop.end, repetitions: 0, initialRate: this.abLoop?.initialRate ?? null };
+    this.seek(loop.start);
+    this.updateABLoop();
+  }
+
+  setABLoopSlowDown(slowDown: number): void {
+    this.abLoopSlowDown = Math.max(0, slowDown);
+    this.emit('abloopchange', {});
+  }
+
+  // Stops looping and restores the speed the repetitions slowed down
+  clearABLoop(): void {
+    const initialRate = this.abLoop?.initialRate ?? null;
+    this.resetABLoop();
+
+    if (initialRate !== null) {
+      const active = this.activeInstance;
+      this.applyPlaybackRate(active, initialRate, active.rateScope);
+      this.updatePositionState();
+      this.emit('ratechange', {});
+    }
+  }
+
+  private resetABLoop(): void {
+    this.cancelABLoopRepeat();
+    if (!this.abLoop) return;
+
+    this.abLoop = null;
+    this.emit('abloopchange', {});
+  }
+
+  private updateABLoop(): void {
+    this.cancelABLoopRepeat();
+    this.cancelGaplessTransition();
+    this.scheduleABLoopRepeat();
+    this.emit('abloopchange', {});
+  }
+
+  /**
+   * Schedules the jump back to A for the moment B is reached.
+   * Timeupdate events are too coarse (~250ms) to jump from the event itself.
+   */
+  private scheduleABLoopRepeat(): void {
+    const loop = this.abLoop;
+    if (this.abLoopTimer || !loop || loop.start === null || loop.end === null) return;
+
+    const audio = this.audio;
+    if (audio.paused) return;
+
+    const position = audio.currentTime;
+    if (position > loop.end + AudioPlayerService.AB_LOOP_END_TOLERANCE) return;
+
+    const remaining = Math.max(0, loop.end - position) / (audio.playbackRate || 1);
+    if (remaining > AudioPlayerService.GAPLESS_SCHEDULE_AHEAD) return;
+
+    this.abLoopTimer = setTimeout(() => {
+      this.abLoopTimer = null;
+      this.repeatABLoop();
+    }, remaining * 1000);
+  }
+
+  private cancelABLoopRepeat(): void {
+    if (this.abLoopTimer) {
+      clearTimeout(this.abLoopTimer);
+      this.abLoopTimer = null;
+    }
+  }
+
+  private repeatABLoop(): void {
+    const loop = this.abLoop;
+    if (!loop || loop.start === null) return;
+
+    loop.repetitions++;
+    const active = this.activeInstance;
+    active.audio.currentTime = loop.start;
+
+    if (this.abLoopSlowDown > 0) {
+      loop.initialRate ??= active.audio.playbackRate;
+      this.applyPlaybackRate(active, getSlowedDownPlaybackRate(active.audio.playbackRate, this.abLoopSlowDown), active.rateScope);
+      this.emit('ratechange', {});
+    }
+
+    this.updatePositionState();
+    this.emit('abloopchange', {});
+  }
+
+  private async loadSavedABLoops(trackId: string): Promise<void> {
+    let loops: SavedABLoop[] = [];
+    try {
+      loops = await storageService.getABLoops(trackId);
+    } catch (error) {
+      console.error('Failed to load A-B loops:', error);
+    }
+
+    // Another track was loaded in the meantime
+    if (this.currentTrack?.id !== trackId) return;
+
+    this.savedABLoops = loops.sort((a, b) => a.start - b.start);
+    this.emit('abloopchange', {});
+  }
+
+  // Saves the current loop for the current track
+  async saveABLoop(): Promise<void> {
+    const track = this.currentTrack;
+    const loop = this.abLoop;
+    if (!track || !loop || loop.start === null || loop.end === null) return;
+
+    const savedLoop: SavedABLoop = {
+      trackId: track.id,
+      start: loop.start,
+      end: loop.end,
+      slowDown: this.abLoopSlowDown,
+      createdAt: Date.now(),
+    };
+    savedLoop.id = await storageService.addABLoop(savedLoop);
+
+    if (this.currentTrack?.id !== track.id) return;
+    this.savedABLoops = [...this.savedABLoops, savedLoop].sort((a, b) => a.start - b.start);
+    this.emit('abloopchange', {});
+  }
+
+  async deleteSavedABLoop(id: number): Promise<void> {
+    await storageService.deleteABLoop(id);
+    this.savedABLoops = this.savedABLoops.filter(loop => loop.id !== id);
+    this.emit('abloopchange', {});
+  }
+
+  getABLoop(): ABLoopState {
+    return {
+      start: this.abLoop?.start ?? null,
+      end: this.abLoop?.end ?? null,
+      slowDown: this.abLoopSlowDown,
+      repetitions: this.abLoop?.repetitions ?? 0,
+      savedLoops: this.savedABLoops,
+    };
+  }
+
+  // Output device methods
+
+  private setupOutputDevices(): void {
+    if (!supportsOutputDeviceSelection()) return;
+
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.refreshOutputDevices();
+  }
+
+  /**
+   * Lists the output devices and plays to the remembered one when it is connected, otherwise to the default one.
+   * Called when a device is connected or disconnected, so the remembered device is used again when it reappears.
+   */
+  async refreshOutputDevices(): Promise<void> {
+    try {
+      this.outputDevices = getOutputDevices(await navigator.mediaDevices.enumerateDevices());
+    } catch (error) {
+      console.error('Failed to list the output devices:', error);
+      this.outputDevices = [];
+    }
+    await this.applyOutputDevice();
+  }
+
+  private async applyOutputDevice(): Promise<void> {
+    let deviceId = resolveOutputDeviceId(this.outputDevices, this.preferredOutputDeviceId);
+    const context = this.audioContext;
+
+    if (context?.setSinkId && deviceId !== this.audioContextSinkId) {
+      try {
+        await context.setSinkId(deviceId);
+      } catch (error) {
+        // The device may have been disconnected in the meantime
+        console.error('Failed to select the output device:', error);
+        deviceId = '';
+        await context.setSinkId(deviceId).catch(console.error);
+      }
+      this.audioContextSinkId = deviceId;
+
+      // Losing the device the audio context was playing to may suspend it
+      if (!this.audio.paused && context.state === 'suspended') {
+        await context.resume().catch(console.error);
+      }
+    }
+
+    this.emit('outputdevicechange', {});
+  }
+
+  async setOutputDevice(deviceId: string | null): Promise<void> {
+    this.preferredOutputDeviceId = deviceId;
+    await this.applyOutputDevice();
+  }
+
+  /**
+   * Browsers list the output devices with their names once the page is allowed to use a microphone.
+   * The microphone is released immediately.
+   */
+  async requestOutputDeviceAccess(): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach(track => track.stop());
+    await this.refreshOutputDevices();
+  }
+
+  getOutputDevice(): OutputDeviceState {
+    // The audio context falls back to the default device when the remembered one cannot be selected
+    const deviceId = this.audioContext?.setSinkId
+      ? this.audioContextSinkId
+      : resolveOutputDeviceId(this.outputDevices, this.preferredOutputDeviceId);
+    return {
+      supported: supportsOutputDeviceSelection(),
+      devices: this.outputDevices,
+      deviceId: deviceId || null,
+    };
   }
 
   setReplayGainMode(mode: ReplayGainMode): void {
     this.replayGainMode = mode;
     this.applyReplayGain(this.activeInstance);
+    if (this.currentTrack) {
+      this.requestLoudnessAnalysis(this.currentTrack);
+    }
   }
 
   setReplayGainPreamp(preamp: number): void {
@@ -845,6 +2298,47 @@ export class AudioPlayerService {
     this.applyReplayGain(this.activeInstance);
   }
 
+  setReplayGainLimiter(enabled: boolean): void {
+    if (this.isLimiterEnabled === enabled) return;
+
+    this.isLimiterEnabled = enabled;
+    this.connectMasterBus();
+    this.applyReplayGain(this.activeInstance);
+  }
+
+  // Null until the audio context is created by the first playback
+  getAnalyser(): AnalyserNode | null {
+    return this.analyserNode;
+  }
+
+  /**
+   * Gets the gain applied to the current track, and the gain reduction of the limiter in dB (0 when not limiting)
+   */
+  getReplayGainInfo(): AppliedReplayGain | null {
+    if (!this.currentTrack) return null;
+
+    const isLimiterEnabled = this.isLimiterEnabled && this.limiterNode !== null;
+    return {
+      ...this.getReplayGain(this.currentTrack),
+      isLimiterEnabled,
+      limiterReduction: isLimiterEnabled ? this.limiterNode!.reduction : 0,
+    };
+  }
+
+  setCrossfadeDuration(seconds: number): void {
+    this.crossfadeDuration = Number.isFinite(seconds) ? Math.max(0, Math.min(12, seconds)) : 0;
+  }
+
+  setEqualizer(settings: EqualizerSettings): void {
+    this.equalizer = settings;
+    this.applyEqualizer();
+  }
+
+  // Applies to the shuffle orders generated from now on
+  setShuffleAvoidSkipped(enabled: boolean): void {
+    this.shuffleAvoidSkipped = enabled;
+  }
+
   setPreventDownloadOnLowData(prevent: boolean): void {
     this.preventDownloadOnLowData = prevent;
   }
@@ -978,8 +2472,11 @@ export class AudioPlayerService {
   }
 
   destroy(): void {
-    this.audio.pause();
-    this.audio.src = '';
+    this.clearPreload();
+    this.cancelSleepTimer();
+    this.cancelABLoopRepeat();
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    this.audioInstances.forEach(instance => this.releaseInstance(instance));
     this.eventListeners.clear();
     if (this.saveStateDebounced) {
       clearTimeout(this.saveStateDebounced);
@@ -2,3 +2,4 @@ export { ApiService, getApiService, initApiService } from './api-service';
 export { storageService } from './storage-service';
 export { audioPlayer, type PlayerEventType, type PlayerEventDetail } from './audio-player';
 export { downloadService, type DownloadProgress } from './download-service';
+export { loudnessService } from './loudness-service';
@@ -0,0 +1,117 @@
+import type { LoudnessAnalysis, TrackInfo } from '../types';
+import { storageService } from './storage-service';
+import type { LoudnessWorkerRequest, LoudnessWorkerResponse } from './loudness-worker';
+import { K_WEIGHTING_SAMPLE_RATE, loudnessToReplayGain } from '../utils';
+
+// Decoding a file needs the whole PCM data in memory (about 230 MB for 10 minutes of stereo at 48 kHz),
+// so longer tracks are not measured locally
+const LOCAL_ANALYSIS_MAX_DURATION = 10 * 60;
+
+// Duration of the samples sent to the worker at once, a multiple of the 100 ms loudness steps
+const ANALYSIS_CHUNK_DURATION = 10;
+
+function postToWorker(worker: Worker, request: LoudnessWorkerRequest, transfer: Transferable[] = []): Promise<LoudnessWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<LoudnessWorkerResponse>) => resolve(event.data);
+    worker.onerror = event => reject(new Error(event.message));
+    worker.postMessage(request, transfer);
+  });
+}
+
+async function measureLoudness(blob: Blob): Promise<{ loudness: number | null; peak: number }> {
+  // Decoding resamples the audio to the sample rate of the K-weighting coefficients
+  const decodingContext = new OfflineAudioContext(1, 1, K_WEIGHTING_SAMPLE_RATE);
+  const decoded = await decodingContext.decodeAudioData(await blob.arrayBuffer());
+
+  // The samples are filtered and measured in a worker, one chunk at a time so only one chunk is copied
+  const worker = new Worker(new URL('./loudness-worker.ts', import.meta.url), { type: 'module' });
+  try {
+    const chunkLength = ANALYSIS_CHUNK_DURATION * K_WEIGHTING_SAMPLE_RATE;
+    for (let offset = 0; offset < decoded.length; offset += chunkLength) {
+      const channels = Array.from(
+        { length: decoded.numberOfChannels },
+        (_, i) => decoded.getChannelData(i).slice(offset, offset + chunkLength));
+      await postToWorker(worker, { type: 'chunk', channels }, channels.map(samples => samples.buffer));
+    }
+
+    const response = await postToWorker(worker, { type: 'end' });
+    if (response.type !== 'result') {
+      throw new Error('Unexpected response from the loudness worker');
+    }
+    return { loudness: response.loudness, peak: response.peak };
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Computes the ReplayGain of tracks without tags, one track at a time, by measuring the cached file.
+ * The server has no endpoint computing it, so only local analysis is used.
+ */
+class LoudnessService {
+  private analyses: Map<string, LoudnessAnalysis> = new Map();
+  private analysisQueue: Map<string, TrackInfo> = new Map();
+  private isProcessing = false;
+
+  async init(): Promise<void> {
+    const analyses = await storageService.getAllLoudnessAnalyses();
+    this.analyses = new Map(analyses.map(a => [a.trackId, a]));
+  }
+
+  getAnalysis(trackId: string): LoudnessAnalysis | null {
+    return this.analyses.get(trackId) ?? null;
+  }
+
+  requestAnalysis(track: TrackInfo): void {
+    if (track.replayGainTrackGain !== null && track.replayGainTrackGain !== undefined) return;
+    if (this.analyses.has(track.id) || this.analysisQueue.has(track.id)) return;
+
+    this.analysisQueue.set(track.id, track);
+    this.processQueue();
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      for (const [trackId, track] of this.analysisQueue) {
+        try {
+          const analysis = await this.analyzeTrack(track);
+          if (analysis) {
+            this.analyses.set(trackId, analysis);
+            await storageService.saveLoudnessAnalysis(analysis);
+          }
+        } catch (error) {
+          console.error(`Failed to analyze the loudness of ${track.title}:`, error);
+        }
+        // Tracks that cannot be analyzed yet (e.g. not cached) are retried the next time they are requested
+        this.analysisQueue.delete(trackId);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async analyzeTrack(track: TrackInfo): Promise<LoudnessAnalysis | null> {
+    if (typeof OfflineAudioContext === 'undefined' || track.duration > LOCAL_ANALYSIS_MAX_DURATION) {
+      return null;
+    }
+
+    const cached = await storageService.getCachedTrack(track.id);
+    if (!cached) return null;
+
+    const { loudness, peak } = await measureLoudness(cached.blob);
+    if (loudness === null) return null;
+
+    return {
+      trackId: track.id,
+      trackGain: loudnessToReplayGain(loudness),
+      trackPeak: peak,
+      source: 'local',
+      analyzedAt: Date.now(),
+    };
+  }
+}
+
+export const loudnessService = new LoudnessService();
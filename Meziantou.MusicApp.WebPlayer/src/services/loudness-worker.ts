@@ -0,0 +1,38 @@
+import {
+  K_WEIGHTING_SAMPLE_RATE,
+  computeGatedLoudness,
+  computeStepPowers,
+  createKWeightingFilter,
+  getSamplePeak
+} from '../utils/loudness';
+
+// The decoded track is sent in consecutive chunks, each one acknowledged before the next is sent
+export type LoudnessWorkerRequest =
+  | { type: 'chunk'; channels: Float32Array[] }
+  | { type: 'end' };
+
+export type LoudnessWorkerResponse =
+  | { type: 'processed' }
+  | { type: 'result'; loudness: number | null; peak: number };
+
+// Measures the loudness of one track off the main thread, so long tracks don't stall the UI or the playback
+const filters: Array<(samples: Float32Array) => void> = [];
+const stepPowers: number[] = [];
+let peak = 0;
+
+function post(response: LoudnessWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<LoudnessWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'chunk') {
+    // The peak is read before the samples are filtered in place
+    peak = Math.max(peak, getSamplePeak(request.channels));
+    request.channels.forEach((samples, channel) => (filters[channel] ??= createKWeightingFilter())(samples));
+    stepPowers.push(...computeStepPowers(request.channels, K_WEIGHTING_SAMPLE_RATE));
+    post({ type: 'processed' });
+  } else {
+    post({ type: 'result', loudness: computeGatedLoudness(stepPowers, K_WEIGHTING_SAMPLE_RATE), peak });
+  }
+};
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PlayQueueService } from './play-queue-service';
 import type { TrackInfo } from '../types';
 
@@ -140,6 +140,18 @@ describe('PlayQueueService - New Array Architecture', () => {
       // Should still have queue with lookahead
       expect(service.getQueue().length).toBeGreaterThan(0);
     });
+
+    it('should put tracks with a lower weight later in the shuffle order', () => {
+      const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      service.updateConfig({ shuffleWeights: new Map([['2', 0.2]]) });
+      service.setPlaylist('playlist1', mockTracks);
+      service.setShuffle(true);
+      randomSpy.mockRestore();
+
+      const shuffleOrder = service.getShuffleOrder();
+      expect(shuffleOrder).toHaveLength(5);
+      expect(shuffleOrder[4]).toBe(1);
+    });
   });
 
   describe('Manual Queue Items', () => {
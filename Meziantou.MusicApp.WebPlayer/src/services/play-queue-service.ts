@@ -1,4 +1,5 @@
 import type { TrackInfo, QueueItem, RepeatMode } from '../types';
+import { createWeightedShuffleOrder } from '../utils';
 
 export interface QueueConfig {
   currentPlaylistId: string | null;
@@ -11,6 +12,8 @@ export interface QueueConfig {
   isOnline: boolean;
   networkType: 'normal' | 'low-data' | 'unknown';
   preventDownloadOnLowData: boolean;
+  // Shuffle weights by track id, tracks without weight default to 1. Uniform shuffle when not set
+  shuffleWeights?: ReadonlyMap<string, number> | null;
 }
 
 /**
@@ -551,9 +554,14 @@ export class PlayQueueService {
   }
 
   /**
-   * Generates a new shuffle order using Fisher-Yates algorithm
+   * Generates a new shuffle order using Fisher-Yates algorithm, or a weighted shuffle when weights are set
    */
   private generateShuffleOrder(): number[] {
+    const weights = this.config.shuffleWeights;
+    if (weights) {
+      return createWeightedShuffleOrder(this.config.playlist.map(track => weights.get(track.id) ?? 1));
+    }
+
     const shuffleOrder = [...Array(this.config.playlist.length).keys()];
 
     for (let i = shuffleOrder.length - 1; i > 0; i--) {
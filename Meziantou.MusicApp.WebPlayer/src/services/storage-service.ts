@@ -4,7 +4,14 @@ import type {
   PlaybackState,
   CachedTrack,
   CachedPlaylist,
+  CachedLyrics,
+  ListeningHistoryEntry,
+  LoudnessAnalysis,
+  ResumePosition,
+  SavedABLoop,
+  TrackPlayStats,
   PlaylistSummary,
+  SmartPlaylist,
   TrackInfo,
   StreamingQuality
 } from '../types';
@@ -71,10 +78,52 @@ interface MusicPlayerDB extends DBSchema {
       'by-played-at': number;
     };
   };
+  smartPlaylists: {
+    key: string;
+    value: SmartPlaylist;
+  };
+  lyrics: {
+    key: string;
+    value: CachedLyrics;
+  };
+  playbackRates: {
+    key: string;
+    value: {
+      key: string;
+      rate: number;
+      updatedAt: number;
+    };
+  };
+  resumePositions: {
+    key: string;
+    value: ResumePosition;
+  };
+  loudness: {
+    key: string;
+    value: LoudnessAnalysis;
+  };
+  listeningHistory: {
+    key: number;
+    value: ListeningHistoryEntry;
+    indexes: {
+      'by-started-at': number;
+    };
+  };
+  trackStats: {
+    key: string;
+    value: TrackPlayStats;
+  };
+  abLoops: {
+    key: number;
+    value: SavedABLoop;
+    indexes: {
+      'by-track': string;
+    };
+  };
 }
 
 const DB_NAME = 'meziantou-music-player';
-const DB_VERSION = 6;
+const DB_VERSION = 14;
 
 class StorageService {
   private db: IDBPDatabase<MusicPlayerDB> | null = null;
@@ -156,6 +205,48 @@ class StorageService {
           const recentlyPlayedStore = db.createObjectStore('recentlyPlayed', { keyPath: 'trackId' });
           recentlyPlayedStore.createIndex('by-played-at', 'playedAt');
         }
+
+        // Smart playlists store
+        if (!db.objectStoreNames.contains('smartPlaylists')) {
+          db.createObjectStore('smartPlaylists', { keyPath: 'id' });
+        }
+
+        // Lyrics store
+        if (!db.objectStoreNames.contains('lyrics')) {
+          db.createObjectStore('lyrics', { keyPath: 'trackId' });
+        }
+
+        // Remembered playback speeds, by track or genre
+        if (!db.objectStoreNames.contains('playbackRates')) {
+          db.createObjectStore('playbackRates', { keyPath: 'key' });
+        }
+
+        // Positions to resume long tracks from
+        if (!db.objectStoreNames.contains('resumePositions')) {
+          db.createObjectStore('resumePositions', { keyPath: 'trackId' });
+        }
+
+        // ReplayGain of tracks without tags
+        if (!db.objectStoreNames.contains('loudness')) {
+          db.createObjectStore('loudness', { keyPath: 'trackId' });
+        }
+
+        // Listening history
+        if (!db.objectStoreNames.contains('listeningHistory')) {
+          const historyStore = db.createObjectStore('listeningHistory', { keyPath: 'id', autoIncrement: true });
+          historyStore.createIndex('by-started-at', 'startedAt');
+        }
+
+        // Play and skip counters
+        if (!db.objectStoreNames.contains('trackStats')) {
+          db.createObjectStore('trackStats', { keyPath: 'trackId' });
+        }
+
+        // A-B loops saved per track
+        if (!db.objectStoreNames.contains('abLoops')) {
+          const abLoopsStore = db.createObjectStore('abLoops', { keyPath: 'id', autoIncrement: true });
+          abLoopsStore.createIndex('by-track', 'trackId');
+        }
       }
     });
 
@@ -366,6 +457,136 @@ class StorageService {
     await db.delete('cachedPlaylists', playlistId);
   }
 
+  // Smart Playlists
+  async getSmartPlaylists(): Promise<SmartPlaylist[]> {
+    const db = await this.init();
+    return db.getAll('smartPlaylists');
+  }
+
+  async saveSmartPlaylist(playlist: SmartPlaylist): Promise<void> {
+    const db = await this.init();
+    await db.put('smartPlaylists', playlist);
+  }
+
+  async deleteSmartPlaylist(id: string): Promise<void> {
+    const db = await this.init();
+    await db.delete('smartPlaylists', id);
+  }
+
+  // Lyrics
+  async getCachedLyrics(trackId: string): Promise<string | undefined> {
+    const db = await this.init();
+    const entry = await db.get('lyrics', trackId);
+    return entry?.lyrics;
+  }
+
+  async saveCachedLyrics(trackId: string, lyrics: string): Promise<void> {
+    const db = await this.init();
+    await db.put('lyrics', {
+      trackId,
+      lyrics,
+      cachedAt: Date.now()
+    });
+  }
+
+  // Playback Rates
+  async getPlaybackRate(key: string): Promise<number | undefined> {
+    const db = await this.init();
+    const entry = await db.get('playbackRates', key);
+    return entry?.rate;
+  }
+
+  async savePlaybackRate(key: string, rate: number): Promise<void> {
+    const db = await this.init();
+    await db.put('playbackRates', {
+      key,
+      rate,
+      updatedAt: Date.now()
+    });
+  }
+
+  async deletePlaybackRate(key: string): Promise<void> {
+    const db = await this.init();
+    await db.delete('playbackRates', key);
+  }
+
+  // Resume Positions
+  async getAllResumePositions(): Promise<Map<string, number>> {
+    const db = await this.init();
+    const entries = await db.getAll('resumePositions');
+    return new Map(entries.map(e => [e.trackId, e.position]));
+  }
+
+  async saveResumePosition(trackId: string, position: number): Promise<void> {
+    const db = await this.init();
+    await db.put('resumePositions', {
+      trackId,
+      position,
+      updatedAt: Date.now()
+    });
+  }
+
+  async deleteResumePosition(trackId: string): Promise<void> {
+    const db = await this.init();
+    await db.delete('resumePositions', trackId);
+  }
+
+  // Loudness Analysis
+  async getAllLoudnessAnalyses(): Promise<LoudnessAnalysis[]> {
+    const db = await this.init();
+    return db.getAll('loudness');
+  }
+
+  async saveLoudnessAnalysis(analysis: LoudnessAnalysis): Promise<void> {
+    const db = await this.init();
+    await db.put('loudness', analysis);
+  }
+
+  // Listening History
+  async addListeningHistoryEntry(entry: ListeningHistoryEntry): Promise<void> {
+    const db = await this.init();
+    await db.add('listeningHistory', entry);
+  }
+
+  // Gets the entries started since the given timestamp, oldest first
+  async getListeningHistory(since: number = 0): Promise<ListeningHistoryEntry[]> {
+    const db = await this.init();
+    return db.getAllFromIndex('listeningHistory', 'by-started-at', IDBKeyRange.lowerBound(since));
+  }
+
+  async clearListeningHistory(): Promise<void> {
+    const db = await this.init();
+    await db.clear('listeningHistory');
+  }
+
+  // Track Stats
+  async getAllTrackStats(): Promise<TrackPlayStats[]> {
+    const db = await this.init();
+    return db.getAll('trackStats');
+  }
+
+  async saveTrackStats(stats: TrackPlayStats): Promise<void> {
+    const db = await this.init();
+    await db.put('trackStats', stats);
+  }
+
+  // A-B Loops
+  async getABLoops(trackId: string): Promise<SavedABLoop[]> {
+    const db = await this.init();
+    return db.getAllFromIndex('abLoops', 'by-track', trackId);
+  }
+
+  // Returns the id of the new loop
+  async addABLoop(loop: SavedABLoop): Promise<number> {
+    const db = await this.init();
+    return db.add('abLoops', loop);
+  }
+
+  async deleteABLoop(id: number): Promise<void> {
+    const db = await this.init();
+    await db.delete('abLoops', id);
+  }
+
   // Cover Art
   async getCachedCover(trackId: string): Promise<Blob | undefined> {
     const db = await this.init();
@@ -452,7 +673,8 @@ class StorageService {
       db.clear('cachedPlaylists'),
       db.clear('coverArt'),
       db.clear('missingCovers'),
-      db.clear('offlinePlaylists')
+      db.clear('offlinePlaylists'),
+      db.clear('lyrics')
     ]);
   }
 
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import serviceWorkerSource from '../../public/stream-proxy-sw.js?raw';
+
+const ORIGIN = 'http://localhost';
+const STREAM_URL = 'https://music.example.com/api/songs/1/data';
+const CHUNK_SIZE = 64 * 1024;
+const FILE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Stand-in for the music server, sending the files at a limited bandwidth.
+ * The time is simulated: reading a chunk advances the clock by the time it takes to receive it.
+ */
+function createThrottledServer(bandwidth: number) { // in kbps
+  let time = 0;
+  let sent = 0;
+
+  return {
+    now: () => time,
+    wait: (ms: number) => { time += ms; },
+    getSentBytes: () => sent,
+    fetch: vi.fn(async (_url: string, _init: RequestInit): Promise<Response> => {
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent >= FILE_SIZE) {
+            controller.close();
+            return;
+          }
+          // Bits per millisecond are kilobits per second
+          time += CHUNK_SIZE * 8 / bandwidth;
+          sent += CHUNK_SIZE;
+          controller.enqueue(new Uint8Array(CHUNK_SIZE));
+        },
+      });
+      return new Response(body, {
+        status: 206,
+        headers: { 'Content-Type': 'audio/ogg', 'Content-Range': `bytes 0-${FILE_SIZE - 1}/${FILE_SIZE}`, 'Accept-Ranges': 'bytes' },
+      });
+    }),
+  };
+}
+
+/**
+ * Runs the service worker script with a stand-in of its global scope, and returns its fetch handler.
+ * The page answers the auth requests and collects the throughput reports.
+ */
+function loadServiceWorker(server: ReturnType<typeof createThrottledServer>) {
+  const messages: unknown[] = [];
+  const client = {
+    postMessage: (message: { type: string }, ports?: MessagePort[]) => {
+      if (message.type === 'stream-proxy:get-auth-headers') {
+        ports?.[0].postMessage({ headers: { Authorization: 'Bearer secret' } });
+      } else {
+        messages.push(message);
+      }
+    },
+  };
+  let onFetch: ((event: unknown) => void) | undefined;
+  const scope = {
+    location: { origin: ORIGIN },
+    clients: { get: async () => client, matchAll: async () => [client] },
+    addEventListener: (type: string, listener: (event: unknown) => void) => {
+      if (type === 'fetch') onFetch = listener;
+    },
+  };
+
+  new Function('self', 'fetch', 'performance', serviceWorkerSource)(scope, server.fetch, { now: server.now });
+
+  const play = (headers: HeadersInit = {}): Promise<Response> | undefined => {
+    let response: Promise<Response> | undefined;
+    onFetch?.({
+      request: new Request(`${ORIGIN}/stream-proxy?url=${encodeURIComponent(STREAM_URL)}`, { headers }),
+      clientId: 'client',
+      respondWith: (value: Promise<Response>) => { response = value; },
+    });
+    return response;
+  };
+  return { play, messages };
+}
+
+describe('stream proxy service worker', () => {
+  let server: ReturnType<typeof createThrottledServer>;
+  let serviceWorker: ReturnType<typeof loadServiceWorker>;
+
+  beforeEach(() => {
+    server = createThrottledServer(1000);
+    serviceWorker = loadServiceWorker(server);
+  });
+
+  it('should forward the request with the auth and range headers', async () => {
+    const response = await serviceWorker.play({ Range: 'bytes=0-' });
+
+    const [url, init] = server.fetch.mock.calls[0];
+    expect(url).toBe(STREAM_URL);
+    expect(new Headers(init.headers).get('Authorization')).toBe('Bearer secret');
+    expect(new Headers(init.headers).get('Range')).toBe('bytes=0-');
+    expect(response?.status).toBe(206);
+    expect(response?.headers.get('Content-Range')).toBe(`bytes 0-${FILE_SIZE - 1}/${FILE_SIZE}`);
+    expect(response?.headers.get('Accept-Ranges')).toBe('bytes');
+  });
+
+  it('should report the throughput of the stream', async () => {
+    const response = await serviceWorker.play();
+
+    const blob = await response!.blob();
+
+    expect(blob.size).toBe(FILE_SIZE);
+    await vi.waitFor(() => expect(serviceWorker.messages.length).toBeGreaterThanOrEqual(4));
+    expect(serviceWorker.messages[0]).toEqual({ type: 'stream-proxy:throughput', bytes: 512 * 1024, duration: expect.closeTo(512 * 1024 * 8 / 1000) });
+  });
+
+  it('should only read the stream when the audio element reads it', async () => {
+    const response = await serviceWorker.play();
+    const reader = response!.body!.getReader();
+
+    await reader.read();
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(server.getSentBytes()).toBeLessThanOrEqual(2 * CHUNK_SIZE);
+    await reader.cancel();
+  });
+
+  it('should not count the time the audio element does not read', async () => {
+    const response = await serviceWorker.play();
+    const reader = response!.body!.getReader();
+
+    for (let i = 0; i < 4; i++) await reader.read();
+    // The buffer of the audio element is full, it reads again later
+    server.wait(60000);
+    for (let i = 0; i < 4; i++) await reader.read();
+
+    await vi.waitFor(() => expect(serviceWorker.messages).toHaveLength(1));
+    expect(serviceWorker.messages[0]).toEqual({ type: 'stream-proxy:throughput', bytes: 512 * 1024, duration: expect.closeTo(512 * 1024 * 8 / 1000) });
+    await reader.cancel();
+  });
+
+  it('should stop reading the server when the audio element cancels the stream', async () => {
+    const response = await serviceWorker.play();
+    const reader = response!.body!.getReader();
+
+    await reader.read();
+    await reader.cancel();
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(server.getSentBytes()).toBeLessThan(FILE_SIZE);
+    expect(serviceWorker.messages).toEqual([]);
+  });
+});
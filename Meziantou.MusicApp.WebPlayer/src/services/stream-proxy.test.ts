@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiService } from './api-service';
+import { getStreamProxyUrl, handleStreamProxyMessage } from './stream-proxy';
+
+function createAuthRequest(url: string) {
+  const port = { postMessage: vi.fn() };
+  const event = {
+    data: { type: 'stream-proxy:get-auth-headers', url },
+    ports: [port],
+  } as unknown as MessageEvent;
+  return { event, port };
+}
+
+describe('stream proxy', () => {
+  const api = new ApiService('https://music.example.com/', 'secret');
+
+  it('should encode the stream url', () => {
+    expect(getStreamProxyUrl('https://music.example.com/api/songs/1/data?format=opus'))
+      .toBe('/stream-proxy?url=https%3A%2F%2Fmusic.example.com%2Fapi%2Fsongs%2F1%2Fdata%3Fformat%3Dopus');
+  });
+
+  it('should send the auth headers for the streams of the server', () => {
+    const { event, port } = createAuthRequest('https://music.example.com/api/songs/1/data');
+
+    handleStreamProxyMessage(event, api, vi.fn());
+
+    expect(port.postMessage).toHaveBeenCalledWith({ headers: { Authorization: 'Bearer secret' } });
+  });
+
+  it('should not send the auth headers to other servers', () => {
+    const { event, port } = createAuthRequest('https://music.example.com.evil.com/api/songs/1/data');
+
+    handleStreamProxyMessage(event, api, vi.fn());
+
+    expect(port.postMessage).toHaveBeenCalledWith({ headers: {} });
+  });
+
+  it('should report the throughput measured by the service worker', () => {
+    const onThroughput = vi.fn();
+    const event = { data: { type: 'stream-proxy:throughput', bytes: 524288, duration: 1000 }, ports: [] } as unknown as MessageEvent;
+
+    handleStreamProxyMessage(event, api, onThroughput);
+
+    expect(onThroughput).toHaveBeenCalledWith({ bytes: 524288, duration: 1000 });
+  });
+
+  it('should ignore other messages', () => {
+    const port = { postMessage: vi.fn() };
+
+    handleStreamProxyMessage({ data: { type: 'SKIP_WAITING' }, ports: [port] } as unknown as MessageEvent, api, vi.fn());
+
+    expect(port.postMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { getApiService, type ApiService } from './api-service';
+import type { ThroughputSample } from './adaptive-quality-service';
+
+// Path handled by the service worker (public/stream-proxy-sw.js), which forwards the request with the auth headers
+const STREAM_PROXY_PATH = '/stream-proxy';
+const AUTH_REQUEST_TYPE = 'stream-proxy:get-auth-headers';
+const THROUGHPUT_MESSAGE_TYPE = 'stream-proxy:throughput';
+
+interface StreamProxyAuthRequest {
+  type: typeof AUTH_REQUEST_TYPE;
+  url: string;
+}
+
+interface StreamProxyThroughputMessage extends ThroughputSample {
+  type: typeof THROUGHPUT_MESSAGE_TYPE;
+}
+
+function isAuthRequest(data: unknown): data is StreamProxyAuthRequest {
+  return typeof data === 'object' && data !== null &&
+    (data as StreamProxyAuthRequest).type === AUTH_REQUEST_TYPE &&
+    typeof (data as StreamProxyAuthRequest).url === 'string';
+}
+
+function isThroughputMessage(data: unknown): data is StreamProxyThroughputMessage {
+  return typeof data === 'object' && data !== null &&
+    (data as StreamProxyThroughputMessage).type === THROUGHPUT_MESSAGE_TYPE &&
+    typeof (data as StreamProxyThroughputMessage).bytes === 'number' &&
+    typeof (data as StreamProxyThroughputMessage).duration === 'number';
+}
+
+/**
+ * Whether streams can be played through the service worker. The page is not controlled by the service worker
+ * on its first load, after a hard reload, or when service workers are not available (e.g. on the dev server).
+ */
+export function isStreamProxyAvailable(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+}
+
+export function getStreamProxyUrl(streamUrl: string): string {
+  return `${STREAM_PROXY_PATH}?url=${encodeURIComponent(streamUrl)}`;
+}
+
+/**
+ * Handles the messages of the service worker: requests for the auth headers of a stream, and measures of the
+ * download throughput. Other URLs get no headers, so the proxy cannot be used to send the token to another server.
+ */
+export function handleStreamProxyMessage(
+  event: MessageEvent,
+  api: ApiService,
+  onThroughput: (sample: ThroughputSample) => void
+): void {
+  if (isThroughputMessage(event.data)) {
+    onThroughput({ bytes: event.data.bytes, duration: event.data.duration });
+    return;
+  }
+
+  if (!isAuthRequest(event.data) || event.ports.length === 0) return;
+
+  const headers = api.isServerUrl(event.data.url) ? api.getAuthHeaders() : {};
+  event.ports[0].postMessage({ headers });
+}
+
+export function registerStreamProxy(onThroughput: (sample: ThroughputSample) => void): void {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) return;
+
+  navigator.serviceWorker.addEventListener('message', (event) => handleStreamProxyMessage(event, getApiService(), onThroughput));
+}
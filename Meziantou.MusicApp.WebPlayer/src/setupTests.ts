@@ -21,17 +21,57 @@ Object.defineProperty(window.HTMLMediaElement.prototype, 'load', {
 globalThis.URL.createObjectURL = vi.fn(() => 'blob:mock-url');
 globalThis.URL.revokeObjectURL = vi.fn();
 
-// Mock AudioContext
-window.AudioContext = vi.fn().mockImplementation(() => ({
-  createGain: vi.fn().mockReturnValue({
-    connect: vi.fn(),
-    gain: { value: 1 }
-  }),
-  createMediaElementSource: vi.fn().mockReturnValue({
-    connect: vi.fn()
-  }),
-  destination: {}
-}));
+// Mock AudioContext, the nodes record what they are connected to
+function createMockAudioNode<T extends object>(properties: T) {
+  const node = {
+    ...properties,
+    connections: [] as object[],
+    connect: vi.fn((destination: object) => {
+      node.connections.push(destination);
+      return destination;
+    }),
+    disconnect: vi.fn(() => {
+      node.connections = [];
+    }),
+  };
+  return node;
+}
+
+function createMockAudioParam(value: number) {
+  return {
+    value,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    setValueCurveAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+  };
+}
+
+window.AudioContext = vi.fn(function () {
+  return {
+    currentTime: 0,
+    state: 'running',
+    destination: createMockAudioNode({}),
+    createGain: vi.fn(() => createMockAudioNode({ gain: createMockAudioParam(1) })),
+    createMediaElementSource: vi.fn(() => createMockAudioNode({})),
+    createBiquadFilter: vi.fn(() => createMockAudioNode({
+      type: 'peaking',
+      frequency: createMockAudioParam(350),
+      Q: createMockAudioParam(1),
+      gain: createMockAudioParam(0),
+    })),
+    createDynamicsCompressor: vi.fn(() => createMockAudioNode({
+      threshold: createMockAudioParam(-24),
+      knee: createMockAudioParam(30),
+      ratio: createMockAudioParam(12),
+      attack: createMockAudioParam(0.003),
+      release: createMockAudioParam(0.25),
+      reduction: 0,
+    })),
+    createAnalyser: vi.fn(() => createMockAudioNode({ fftSize: 2048, smoothingTimeConstant: 0.8 })),
+    resume: vi.fn().mockResolvedValue(undefined),
+  };
+}) as unknown as typeof AudioContext;
 
 // Mock fetch
 globalThis.fetch = vi.fn().mockResolvedValue({
@@ -47,6 +47,10 @@ export interface PlaylistTracksResponse {
   tracks: TrackInfo[];
 }
 
+export interface TracksResponse {
+  tracks: TrackInfo[];
+}
+
 export interface CreatePlaylistRequest {
   name: string;
   comment?: string | null;
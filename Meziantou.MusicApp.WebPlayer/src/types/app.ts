@@ -9,11 +9,31 @@ export interface AppSettings {
   lowDataQuality: StreamingQuality;
   downloadQuality: StreamingQuality;
   preventDownloadOnLowData: boolean;
+  adaptiveQuality: boolean; // lower the streaming quality when the measured throughput is too low
   scrobbleEnabled: boolean;
   hideCoverArt: boolean;
+  visualizer: VisualizerMode;
+  visualizerLowPower: boolean; // fewer frames and bars, to save battery on mobile
   replayGainMode: ReplayGainMode;
   replayGainPreamp: number; // in dB
   showReplayGainWarning: boolean;
+  replayGainLimiter: boolean; // soft-limit instead of lowering the gain of tracks that would clip
+  crossfadeDuration: number; // in seconds, 0 to disable
+  shuffleAvoidSkipped: boolean; // play frequently skipped tracks later when shuffling
+  outputDeviceId: string | null; // null for the default device
+  equalizer: EqualizerSettings;
+  equalizerPresets: EqualizerPreset[]; // presets saved by the user
+}
+
+export interface EqualizerSettings {
+  enabled: boolean;
+  gains: number[]; // in dB, one value per band of EQUALIZER_FREQUENCIES
+  preamp: number; // in dB
+}
+
+export interface EqualizerPreset {
+  name: string;
+  gains: number[]; // in dB
 }
 
 export interface StreamingQuality {
@@ -23,6 +43,25 @@ export interface StreamingQuality {
 
 export type ReplayGainMode = 'off' | 'track' | 'album';
 
+export type VisualizerMode = 'off' | 'spectrum' | 'oscilloscope' | 'vu';
+
+export type ReplayGainSource = 'track' | 'album' | 'analysis';
+
+// Gain applied to a track, after the preamp and the clipping prevention
+export interface ReplayGainInfo {
+  source: ReplayGainSource | null; // null when no gain is applied
+  gain: number | null; // in dB, from the tags or the loudness analysis
+  peak: number | null; // linear, 1 is full scale
+  requestedGain: number; // in dB, gain and preamp
+  appliedGain: number; // in dB
+  isPeakLimited: boolean; // the gain was lowered so the peak doesn't clip
+}
+
+export interface AppliedReplayGain extends ReplayGainInfo {
+  isLimiterEnabled: boolean;
+  limiterReduction: number; // in dB, 0 or negative
+}
+
 export interface PlaybackState {
   currentPlaylistId: string | null;
   currentTrackIndex: number;
@@ -39,6 +78,41 @@ export interface PlaybackState {
 
 export type RepeatMode = 'off' | 'all' | 'one';
 
+// What the playback speed of the current track is remembered for
+export type PlaybackRateScope = 'track' | 'genre';
+
+export type SleepTimerOptions =
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'endOfTrack' }
+  | { mode: 'tracks'; count: number }; // number of tracks to play after the current one
+
+export interface SleepTimerState {
+  mode: SleepTimerOptions['mode'];
+  endsAt: number | null; // timestamp in ms for the minutes mode, null when stopping at the end of a track
+  remainingTracks: number; // tracks to play after the current one before stopping
+  isFading: boolean;
+}
+
+// Streaming quality selected from the measured throughput
+export interface AdaptiveQualityState {
+  enabled: boolean;
+  quality: StreamingQuality; // used for the next tracks streamed from the server
+  tierIndex: number; // 0 is the configured quality
+  tierCount: number;
+  throughput: number | null; // in kbps, null until measured
+}
+
+export interface OutputDevice {
+  id: string;
+  label: string; // empty until the page is allowed to use a microphone
+}
+
+export interface OutputDeviceState {
+  supported: boolean;
+  devices: OutputDevice[];
+  deviceId: string | null; // device played to, null for the default device
+}
+
 export interface CachedTrack {
   trackId: string;
   playlistIds: string[];
@@ -47,12 +121,129 @@ export interface CachedTrack {
   cachedAt: number;
 }
 
+// ReplayGain measured from the cached file of a track without tags
+export interface LoudnessAnalysis {
+  trackId: string;
+  trackGain: number; // in dB
+  trackPeak: number | null;
+  source: 'local';
+  analyzedAt: number;
+}
+
+// Section of a track repeated continuously, e.g. to practise it
+export interface ABLoop {
+  start: number; // in seconds
+  end: number; // in seconds
+  slowDown: number; // speed removed after each repetition, 0 to keep the speed
+}
+
+export interface SavedABLoop extends ABLoop {
+  id?: number; // auto-incremented
+  trackId: string;
+  createdAt: number;
+}
+
+export interface ABLoopState {
+  start: number | null; // null until the A point is marked
+  end: number | null; // null until the B point is marked
+  slowDown: number;
+  repetitions: number;
+  savedLoops: SavedABLoop[]; // of the current track
+}
+
+export interface ResumePosition {
+  trackId: string;
+  position: number; // in seconds
+  updatedAt: number;
+}
+
+// A track played from the player. The track metadata is copied so the history doesn't depend on the library
+export interface ListeningHistoryEntry {
+  id?: number;
+  trackId: string;
+  title: string;
+  artists: string | null;
+  artistId: string | null;
+  album: string | null;
+  albumId: string | null;
+  trackDuration: number; // in seconds
+  startedAt: number;
+  playedDuration: number; // in seconds, excluding pauses and seeks
+  skipped: boolean;
+}
+
+export type HistoryPeriod = 'week' | 'month' | 'year';
+
+// Play and skip counters of a track, updated each time the track stops
+export interface TrackPlayStats {
+  trackId: string;
+  playCount: number;
+  skipCount: number;
+  lastPlayedAt: number | null;
+  skipPositions: number[]; // in seconds, of the most recent skips, oldest first
+}
+
+export interface TrackPlayEvent {
+  type: 'play' | 'skip';
+  position: number; // in seconds
+  timestamp: number;
+}
+
+export interface CachedLyrics {
+  trackId: string;
+  lyrics: string;
+  cachedAt: number;
+}
+
+export interface LyricsLine {
+  time: number | null; // in seconds, null for unsynced lyrics
+  text: string;
+}
+
+export interface ParsedLyrics {
+  isSynced: boolean;
+  lines: LyricsLine[];
+}
+
 export interface CachedPlaylist {
   playlist: PlaylistSummary;
   tracks: TrackInfo[];
   lastUpdated: number;
 }
 
+// Smart playlists
+export type SmartPlaylistField = 'title' | 'artist' | 'album' | 'genre' | 'year' | 'addedDate' | 'bitRate' | 'duration' | 'path';
+
+export type SmartPlaylistOperator =
+  | 'is'
+  | 'isNot'
+  | 'contains'
+  | 'notContains'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'inLastDays'
+  | 'notInLastDays';
+
+export interface SmartPlaylistRule {
+  field: SmartPlaylistField;
+  operator: SmartPlaylistOperator;
+  value: string;
+}
+
+export type SmartPlaylistSortField = 'title' | 'artist' | 'album' | 'year' | 'addedDate' | 'duration' | 'bitRate';
+
+export interface SmartPlaylist {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  rules: SmartPlaylistRule[];
+  sortBy: SmartPlaylistSortField;
+  sortDirection: 'asc' | 'desc';
+  limit: number | null;
+  created: string;
+  changed: string;
+}
+
 export interface QueueItem {
   track: TrackInfo;
   playlistId: string;
@@ -70,6 +261,24 @@ export interface AppState {
 }
 
 // UI State
+export type LibraryView =
+  | { type: 'playlist' }
+  | { type: 'albums' }
+  | { type: 'album'; albumId: string }
+  | { type: 'artists' }
+  | { type: 'artist'; artistId: string }
+  | { type: 'search'; query: string }
+  | { type: 'history' };
+
+// Location encoded in the URL hash, e.g. #/album/123.
+// A track route opens the view containing the track, and highlights it
+export type Route =
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'track'; trackId: string }
+  | Exclude<LibraryView, { type: 'playlist' }>;
+
+export type AlbumSortOption = 'name' | 'artist' | 'year' | 'added';
+
 export interface UIState {
   selectedPlaylistId: string | null;
   searchQuery: string;
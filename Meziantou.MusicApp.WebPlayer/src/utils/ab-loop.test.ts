@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { formatABLoop, formatABLoopSlowDown, getSlowedDownPlaybackRate, markABLoopPoint } from './ab-loop';
+
+describe('markABLoopPoint', () => {
+  it('should mark A then B', () => {
+    const points = markABLoopPoint({ start: null, end: null }, 'start', 10);
+    expect(points).toEqual({ start: 10, end: null });
+    expect(markABLoopPoint(points, 'end', 20)).toEqual({ start: 10, end: 20 });
+  });
+
+  it('should loop from the start of the track when only B is marked', () => {
+    expect(markABLoopPoint({ start: null, end: null }, 'end', 20)).toEqual({ start: 0, end: 20 });
+  });
+
+  it('should ignore B when it is not after A', () => {
+    const points = { start: 10, end: null };
+    expect(markABLoopPoint(points, 'end', 5)).toBe(points);
+    expect(markABLoopPoint(points, 'end', 10.2)).toBe(points);
+  });
+
+  it('should start a new loop when A is marked after B', () => {
+    expect(markABLoopPoint({ start: 10, end: 20 }, 'start', 15)).toEqual({ start: 15, end: 20 });
+    expect(markABLoopPoint({ start: 10, end: 20 }, 'start', 25)).toEqual({ start: 25, end: null });
+  });
+});
+
+describe('getSlowedDownPlaybackRate', () => {
+  it('should remove the slow-down from the rate', () => {
+    expect(getSlowedDownPlaybackRate(1, 0.02)).toBe(0.98);
+    expect(getSlowedDownPlaybackRate(0.98, 0.05)).toBe(0.93);
+  });
+
+  it('should keep the rate without slow-down', () => {
+    expect(getSlowedDownPlaybackRate(1.25, 0)).toBe(1.25);
+  });
+
+  it('should not go below the slowest rate', () => {
+    expect(getSlowedDownPlaybackRate(0.52, 0.05)).toBe(0.5);
+  });
+});
+
+describe('formatABLoop', () => {
+  it('should show the positions with tenths of a second', () => {
+    expect(formatABLoop({ start: 62.35, end: 75 })).toBe('1:02.3 – 1:15.0');
+  });
+
+  it('should describe the slow-down', () => {
+    expect(formatABLoopSlowDown(0)).toBe('Same speed');
+    expect(formatABLoopSlowDown(0.02)).toBe('−2% per loop');
+  });
+});
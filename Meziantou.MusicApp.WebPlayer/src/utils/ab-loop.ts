@@ -0,0 +1,48 @@
+import type { ABLoop } from '../types';
+import { clampPlaybackRate } from './playback-rate';
+import { formatDuration } from './helpers';
+
+// Shorter sections are more likely a double click than a section to practise
+export const AB_LOOP_MIN_DURATION = 0.5;
+
+export interface ABLoopPoints {
+  start: number | null;
+  end: number | null;
+}
+
+/**
+ * Marks the A (start) or B (end) point of a loop at the given position.
+ * Marking A after B starts a new loop, and B is ignored when it is not after A.
+ */
+export function markABLoopPoint(points: ABLoopPoints, point: 'start' | 'end', time: number): ABLoopPoints {
+  if (point === 'start') {
+    const end = points.end !== null && points.end - time >= AB_LOOP_MIN_DURATION ? points.end : null;
+    return { start: time, end };
+  }
+
+  const start = points.start ?? 0;
+  if (time - start < AB_LOOP_MIN_DURATION) return points;
+  return { start, end: time };
+}
+
+/**
+ * Gets the playback rate of the next repetition, slowed down until the slowest rate of the player
+ */
+export function getSlowedDownPlaybackRate(rate: number, slowDown: number): number {
+  if (slowDown <= 0) return rate;
+  // Rounded so the repetitions don't accumulate floating point errors
+  return clampPlaybackRate(Math.round((rate - slowDown) * 100) / 100);
+}
+
+// Positions are shown with tenths of a second, the length of a note matters when practising
+export function formatABLoopPoint(time: number): string {
+  return `${formatDuration(time)}.${Math.floor((time % 1) * 10)}`;
+}
+
+export function formatABLoop(loop: Pick<ABLoop, 'start' | 'end'>): string {
+  return `${formatABLoopPoint(loop.start)} – ${formatABLoopPoint(loop.end)}`;
+}
+
+export function formatABLoopSlowDown(slowDown: number): string {
+  return slowDown > 0 ? `−${Math.round(slowDown * 100)}% per loop` : 'Same speed';
+}
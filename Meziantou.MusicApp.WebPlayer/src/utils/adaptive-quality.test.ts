@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { formatStreamingQuality, getQualityTiers, selectQualityTier, updateThroughputAverage } from './adaptive-quality';
+
+describe('getQualityTiers', () => {
+  it('should keep the format of lossy qualities', () => {
+    expect(getQualityTiers({ format: 'mp3', maxBitRate: 192 })).toEqual([
+      { format: 'mp3', maxBitRate: 192 },
+      { format: 'mp3', maxBitRate: 160 },
+      { format: 'mp3', maxBitRate: 128 },
+      { format: 'mp3', maxBitRate: 96 },
+      { format: 'mp3', maxBitRate: 64 },
+    ]);
+  });
+
+  it('should fall back to Opus for lossless formats', () => {
+    const tiers = getQualityTiers({ format: 'raw' });
+    expect(tiers[0]).toEqual({ format: 'raw' });
+    expect(tiers.slice(1).every(tier => tier.format === 'opus')).toBe(true);
+    expect(tiers.at(-1)).toEqual({ format: 'opus', maxBitRate: 64 });
+  });
+
+  it('should have a single tier at the lowest bitrate', () => {
+    expect(getQualityTiers({ format: 'opus', maxBitRate: 64 })).toHaveLength(1);
+  });
+});
+
+describe('selectQualityTier', () => {
+  const tiers = getQualityTiers({ format: 'opus', maxBitRate: 160 }); // 160, 128, 96, 64
+
+  it('should select the highest tier the throughput can sustain', () => {
+    expect(selectQualityTier(tiers, 0, 10000)).toBe(0);
+    expect(selectQualityTier(tiers, 0, 170)).toBe(1);
+    expect(selectQualityTier(tiers, 0, 10)).toBe(3);
+  });
+
+  it('should require a larger margin to switch up than to stay', () => {
+    // 200 kbps sustains 160 kbps with the margin to stay, but not with the margin to switch up
+    expect(selectQualityTier(tiers, 0, 200)).toBe(0);
+    expect(selectQualityTier(tiers, 1, 200)).toBe(1);
+    expect(selectQualityTier(tiers, 1, 240)).toBe(0);
+  });
+});
+
+describe('updateThroughputAverage', () => {
+  it('should start with the first sample', () => {
+    expect(updateThroughputAverage(null, 500, 1000, 1000)).toBe(500);
+  });
+
+  it('should weigh samples by their size', () => {
+    expect(updateThroughputAverage(1000, 0, 1000, 1000)).toBe(500);
+    expect(updateThroughputAverage(1000, 0, 2000, 1000)).toBe(250);
+  });
+});
+
+describe('formatStreamingQuality', () => {
+  it('should show the format and the bitrate', () => {
+    expect(formatStreamingQuality({ format: 'opus', maxBitRate: 128 })).toBe('OPUS 128');
+    expect(formatStreamingQuality({ format: 'raw' })).toBe('RAW');
+  });
+});
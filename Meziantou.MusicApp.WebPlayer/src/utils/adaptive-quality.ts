@@ -0,0 +1,67 @@
+import type { StreamingQuality } from '../types';
+
+// Bitrates in kbps of the lower tiers, from the highest to the lowest
+const LOWER_TIER_BIT_RATES = [256, 192, 160, 128, 96, 64];
+// Lossless streams are replaced with Opus, which every browser can play
+const LOSSLESS_LOWER_TIER_BIT_RATES = [192, 128, 96, 64];
+// Assumed bitrate of lossless or original files, whose actual bitrate is unknown (CD quality)
+const LOSSLESS_BIT_RATE = 1411;
+
+// The throughput must be this many times the bitrate of a tier to switch to it...
+const UPSWITCH_FACTOR = 1.5;
+// ...and the current tier is kept until the throughput drops below this many times its bitrate
+const DOWNSWITCH_FACTOR = 1.2;
+
+/**
+ * Gets the tiers to choose from, starting with the configured quality. The lower tiers keep the format of the
+ * configured quality, except lossless formats which fall back to Opus.
+ */
+export function getQualityTiers(quality: StreamingQuality): StreamingQuality[] {
+  if (quality.format === 'raw' || quality.format === 'flac') {
+    return [quality, ...LOSSLESS_LOWER_TIER_BIT_RATES.map(maxBitRate => ({ format: 'opus' as const, maxBitRate }))];
+  }
+
+  const bitRate = quality.maxBitRate ?? Infinity;
+  return [
+    quality,
+    ...LOWER_TIER_BIT_RATES
+      .filter(maxBitRate => maxBitRate < bitRate)
+      .map(maxBitRate => ({ format: quality.format, maxBitRate })),
+  ];
+}
+
+// Bitrate of a quality in kbps
+export function getQualityBitRate(quality: StreamingQuality): number {
+  return quality.maxBitRate ?? LOSSLESS_BIT_RATE;
+}
+
+/**
+ * Selects the tier for a measured throughput in kbps. Tiers are sorted from the highest quality.
+ * The current tier is kept while the throughput stays above its bitrate with a small margin, and a higher tier is
+ * only selected with a larger margin, so the quality doesn't change back and forth.
+ */
+export function selectQualityTier(tiers: StreamingQuality[], currentIndex: number, throughput: number): number {
+  for (let i = 0; i < tiers.length; i++) {
+    const factor = i >= currentIndex ? DOWNSWITCH_FACTOR : UPSWITCH_FACTOR;
+    if (getQualityBitRate(tiers[i]) * factor <= throughput) {
+      return i;
+    }
+  }
+  return tiers.length - 1;
+}
+
+/**
+ * Moving average giving the same weight to a sample as to the previous samples of the given number of bytes.
+ * Larger downloads weigh more than small ones, whose throughput is less reliable.
+ */
+export function updateThroughputAverage(average: number | null, throughput: number, bytes: number, halfLifeBytes: number): number {
+  if (average === null) return throughput;
+
+  const alpha = 1 - Math.pow(0.5, bytes / halfLifeBytes);
+  return average + alpha * (throughput - average);
+}
+
+// Formats a quality for display, e.g. "OPUS 128"
+export function formatStreamingQuality(quality: StreamingQuality): string {
+  return quality.maxBitRate ? `${quality.format.toUpperCase()} ${quality.maxBitRate}` : quality.format.toUpperCase();
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { TrackInfo } from '../types';
+import { createEqualPowerCurve, isSameAlbum } from './crossfade';
+
+const createTrack = (overrides: Partial<TrackInfo> = {}): TrackInfo => ({
+  id: '1',
+  title: 'Speak to Me',
+  path: 'Pink Floyd/The Dark Side of the Moon/01 Speak to Me.flac',
+  artists: 'Pink Floyd',
+  artistId: null,
+  album: 'The Dark Side of the Moon',
+  albumId: null,
+  duration: 68,
+  track: 1,
+  year: 1973,
+  genre: 'Rock',
+  bitRate: 1000,
+  size: 0,
+  contentType: 'audio/flac',
+  addedDate: null,
+  isrc: null,
+  replayGainTrackGain: null,
+  replayGainTrackPeak: null,
+  replayGainAlbumGain: null,
+  replayGainAlbumPeak: null,
+  ...overrides,
+});
+
+describe('createEqualPowerCurve', () => {
+  it('should fade in from silence to the gain', () => {
+    const curve = createEqualPowerCurve('in', 0.5);
+    expect(curve[0]).toBeCloseTo(0);
+    expect(curve[curve.length - 1]).toBeCloseTo(0.5);
+  });
+
+  it('should fade out from the gain to silence', () => {
+    const curve = createEqualPowerCurve('out', 1.5);
+    expect(curve[0]).toBeCloseTo(1.5);
+    expect(curve[curve.length - 1]).toBeCloseTo(0);
+  });
+
+  it('should keep the total power constant', () => {
+    const fadeIn = createEqualPowerCurve('in', 1, 16);
+    const fadeOut = createEqualPowerCurve('out', 1, 16);
+    for (let i = 0; i < 16; i++) {
+      expect(fadeIn[i] ** 2 + fadeOut[i] ** 2).toBeCloseTo(1);
+    }
+  });
+});
+
+describe('isSameAlbum', () => {
+  it('should compare album ids when available', () => {
+    expect(isSameAlbum(createTrack({ albumId: 'a' }), createTrack({ id: '2', albumId: 'a' }))).toBe(true);
+    expect(isSameAlbum(createTrack({ albumId: 'a' }), createTrack({ id: '2', albumId: 'b' }))).toBe(false);
+  });
+
+  it('should compare album names and artists without ids', () => {
+    expect(isSameAlbum(createTrack(), createTrack({ id: '2', album: 'the dark side of the moon' }))).toBe(true);
+    expect(isSameAlbum(createTrack(), createTrack({ id: '2', artists: 'Various Artists' }))).toBe(false);
+  });
+
+  it('should not match tracks without album', () => {
+    expect(isSameAlbum(createTrack({ album: null }), createTrack({ id: '2', album: null }))).toBe(false);
+  });
+});
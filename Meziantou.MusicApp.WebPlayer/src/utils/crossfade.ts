@@ -0,0 +1,36 @@
+import type { TrackInfo } from '../types';
+import { normalizeSearch } from './helpers';
+
+const CURVE_LENGTH = 64;
+
+/**
+ * Creates an equal-power fade curve for AudioParam.setValueCurveAtTime.
+ * The sum of the powers of the fade-in and fade-out curves is constant, so the loudness doesn't dip in the middle.
+ */
+export function createEqualPowerCurve(direction: 'in' | 'out', gain: number, length: number = CURVE_LENGTH): Float32Array {
+  const curve = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const progress = i / (length - 1);
+    const value = direction === 'in'
+      ? Math.sin(progress * Math.PI / 2)
+      : Math.cos(progress * Math.PI / 2);
+    curve[i] = value * gain;
+  }
+  return curve;
+}
+
+/**
+ * Tracks of the same album are often mixed to flow into each other, so they must not be crossfaded
+ */
+export function isSameAlbum(a: TrackInfo, b: TrackInfo): boolean {
+  if (a.albumId && b.albumId) {
+    return a.albumId === b.albumId;
+  }
+
+  if (!a.album || !b.album) {
+    return false;
+  }
+
+  return normalizeSearch(a.album) === normalizeSearch(b.album)
+    && normalizeSearch(a.artists ?? '') === normalizeSearch(b.artists ?? '');
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { EqualizerSettings } from '../types';
+import {
+  EQUALIZER_PRESETS,
+  findEqualizerPreset,
+  formatFrequency,
+  getEqualizerPreampGain,
+  normalizeEqualizerGains,
+} from './equalizer';
+
+const createSettings = (overrides: Partial<EqualizerSettings> = {}): EqualizerSettings => ({
+  enabled: true,
+  gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  preamp: 0,
+  ...overrides,
+});
+
+describe('formatFrequency', () => {
+  it('should format kilohertz', () => {
+    expect(formatFrequency(64)).toBe('64');
+    expect(formatFrequency(1000)).toBe('1k');
+    expect(formatFrequency(16000)).toBe('16k');
+  });
+});
+
+describe('normalizeEqualizerGains', () => {
+  it('should fill missing bands and clamp gains', () => {
+    expect(normalizeEqualizerGains([20, -20, NaN])).toEqual([12, -12, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('getEqualizerPreampGain', () => {
+  it('should lower the pre-amp by the largest boost', () => {
+    expect(getEqualizerPreampGain(createSettings({ gains: [6, 4, 0, 0, 0, 0, 0, 0, 0, -3] }))).toBe(-6);
+  });
+
+  it('should keep a lower pre-amp', () => {
+    expect(getEqualizerPreampGain(createSettings({ gains: [2, 0, 0, 0, 0, 0, 0, 0, 0, 0], preamp: -5 }))).toBe(-5);
+  });
+
+  it('should not boost the signal', () => {
+    expect(getEqualizerPreampGain(createSettings({ preamp: 6 }))).toBe(0);
+  });
+
+  it('should not apply the pre-amp when disabled', () => {
+    expect(getEqualizerPreampGain(createSettings({ enabled: false, gains: [6, 0, 0, 0, 0, 0, 0, 0, 0, 0], preamp: -3 }))).toBe(0);
+  });
+});
+
+describe('findEqualizerPreset', () => {
+  it('should find the preset with the same gains', () => {
+    expect(findEqualizerPreset([0, 0, 0, 0, 0, 0, 0, 0, 0, 0], EQUALIZER_PRESETS)?.name).toBe('Flat');
+    expect(findEqualizerPreset([6, 5, 4, 2, 0, 0, 0, 0, 0, 0], EQUALIZER_PRESETS)?.name).toBe('Bass Boost');
+  });
+
+  it('should return null for custom gains', () => {
+    expect(findEqualizerPreset([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], EQUALIZER_PRESETS)).toBeNull();
+  });
+});
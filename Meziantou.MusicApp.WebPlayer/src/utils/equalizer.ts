@@ -0,0 +1,55 @@
+import type { EqualizerPreset, EqualizerSettings } from '../types';
+import { EQUALIZER_FREQUENCIES, EQUALIZER_MAX_GAIN } from '../constants';
+
+// Gains are in dB for the bands 32, 64, 125, 250, 500, 1k, 2k, 4k, 8k and 16k Hz
+export const EQUALIZER_PRESETS: EqualizerPreset[] = [
+  { name: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { name: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: 'Bass Reducer', gains: [-6, -5, -4, -2, 0, 0, 0, 0, 0, 0] },
+  { name: 'Treble Boost', gains: [0, 0, 0, 0, 0, 0, 2, 4, 5, 6] },
+  { name: 'Vocal', gains: [-2, -2, -1, 0, 2, 4, 4, 2, 0, -1] },
+  { name: 'Loudness', gains: [6, 4, 2, 0, -1, -1, 0, 2, 4, 5] },
+  { name: 'Rock', gains: [4, 3, 2, 0, -1, -1, 1, 2, 3, 4] },
+  { name: 'Electronic', gains: [5, 4, 1, 0, -2, 1, 0, 1, 4, 5] },
+  { name: 'Acoustic', gains: [3, 3, 2, 1, 1, 1, 2, 2, 2, 1] },
+  { name: 'Classical', gains: [4, 3, 2, 1, 0, 0, 0, 1, 2, 3] },
+];
+
+export function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : String(frequency);
+}
+
+export function clampEqualizerGain(gain: number): number {
+  if (!Number.isFinite(gain)) return 0;
+  return Math.max(-EQUALIZER_MAX_GAIN, Math.min(EQUALIZER_MAX_GAIN, gain));
+}
+
+/**
+ * Gets the gains of all bands, missing or invalid values are flat
+ */
+export function normalizeEqualizerGains(gains: number[]): number[] {
+  return EQUALIZER_FREQUENCIES.map((_, i) => clampEqualizerGain(gains[i] ?? 0));
+}
+
+/**
+ * Gets the pre-amp actually applied, in dB.
+ * The pre-amp is lowered by the largest boost so the equalizer never makes the signal louder than the source and doesn't clip.
+ */
+export function getEqualizerPreampGain(settings: EqualizerSettings): number {
+  if (!settings.enabled) return 0;
+
+  const maxBoost = Math.max(...normalizeEqualizerGains(settings.gains));
+  const preamp = Number.isFinite(settings.preamp) ? settings.preamp : 0;
+  return Math.min(preamp, maxBoost > 0 ? -maxBoost : 0);
+}
+
+/**
+ * Finds the preset matching the gains, if any
+ */
+export function findEqualizerPreset(gains: number[], presets: EqualizerPreset[]): EqualizerPreset | null {
+  const normalized = normalizeEqualizerGains(gains);
+  return presets.find(preset => {
+    const presetGains = normalizeEqualizerGains(preset.gains);
+    return presetGains.every((gain, i) => gain === normalized[i]);
+  }) ?? null;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { matchesSearch, normalizeSearch } from './helpers';
+import type { AlbumInfo, TrackInfo } from '../types';
+import { getAlbumTracks, getArtistTracks, getIndexLetter, groupAlbumsByYear, matchesSearch, normalizeSearch } from './helpers';
 
 describe('Search Track Feature', () => {
   describe('normalizeSearch', () => {
@@ -172,3 +173,132 @@ describe('Search Track Feature', () => {
     });
   });
 });
+
+describe('getAlbumTracks', () => {
+  const createTrack = (id: string, albumId: string, path: string, track: number | null): TrackInfo => ({
+    id,
+    title: id,
+    artists: 'Artist',
+    artistId: 'artist-1',
+    album: 'Album',
+    albumId,
+    duration: 180,
+    track,
+    year: 2020,
+    genre: null,
+    bitRate: null,
+    size: 0,
+    contentType: 'audio/mpeg',
+    addedDate: '2024-01-01T00:00:00Z',
+    isrc: null,
+    replayGainTrackGain: null,
+    replayGainTrackPeak: null,
+    replayGainAlbumGain: null,
+    replayGainAlbumPeak: null,
+    path,
+  });
+
+  it('should only return tracks from the album', () => {
+    const tracks = [
+      createTrack('a', 'album-1', 'Album/01.mp3', 1),
+      createTrack('b', 'album-2', 'Other/01.mp3', 1),
+    ];
+
+    expect(getAlbumTracks(tracks, 'album-1').map(t => t.id)).toEqual(['a']);
+  });
+
+  it('should order tracks by disc folder then track number', () => {
+    const tracks = [
+      createTrack('d2t1', 'album-1', 'Album/CD2/01.mp3', 1),
+      createTrack('d1t2', 'album-1', 'Album/CD1/02.mp3', 2),
+      createTrack('d10t1', 'album-1', 'Album/CD10/01.mp3', 1),
+      createTrack('d1t1', 'album-1', 'Album/CD1/01.mp3', 1),
+    ];
+
+    expect(getAlbumTracks(tracks, 'album-1').map(t => t.id)).toEqual(['d1t1', 'd1t2', 'd2t1', 'd10t1']);
+  });
+
+  it('should put tracks without a number last', () => {
+    const tracks = [
+      createTrack('none', 'album-1', 'Album/bonus.mp3', null),
+      createTrack('first', 'album-1', 'Album/01.mp3', 1),
+    ];
+
+    expect(getAlbumTracks(tracks, 'album-1').map(t => t.id)).toEqual(['first', 'none']);
+  });
+});
+
+describe('getArtistTracks', () => {
+  const createTrack = (id: string, artistId: string, albumId: string, album: string, year: number | null, track: number): TrackInfo => ({
+    id,
+    title: id,
+    artists: 'Artist',
+    artistId,
+    album,
+    albumId,
+    duration: 180,
+    track,
+    year,
+    genre: null,
+    bitRate: null,
+    size: 0,
+    contentType: 'audio/mpeg',
+    addedDate: '2024-01-01T00:00:00Z',
+    isrc: null,
+    replayGainTrackGain: null,
+    replayGainTrackPeak: null,
+    replayGainAlbumGain: null,
+    replayGainAlbumPeak: null,
+    path: `${album}/${track}.mp3`,
+  });
+
+  it('should return the albums of the artist from oldest to newest', () => {
+    const tracks = [
+      createTrack('new-2', 'artist-1', 'new', 'New', 2020, 2),
+      createTrack('other', 'artist-2', 'other', 'Other', 2000, 1),
+      createTrack('old-1', 'artist-1', 'old', 'Old', 1999, 1),
+      createTrack('new-1', 'artist-1', 'new', 'New', 2020, 1),
+    ];
+
+    expect(getArtistTracks(tracks, 'artist-1').map(t => t.id)).toEqual(['old-1', 'new-1', 'new-2']);
+  });
+});
+
+describe('groupAlbumsByYear', () => {
+  const createAlbum = (id: string, year: number | null): AlbumInfo => ({
+    id,
+    name: id,
+    artist: 'Artist',
+    artistId: 'artist-1',
+    year,
+    genre: null,
+    duration: 0,
+    songCount: 0,
+    created: '2024-01-01T00:00:00Z',
+  });
+
+  it('should group albums with the most recent year first and unknown years last', () => {
+    const groups = groupAlbumsByYear([
+      createAlbum('b', 2010),
+      createAlbum('unknown', null),
+      createAlbum('c', 2020),
+      createAlbum('a', 2010),
+    ]);
+
+    expect(groups.map(g => g.year)).toEqual([2020, 2010, null]);
+    expect(groups[1].albums.map(a => a.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('getIndexLetter', () => {
+  it('should return the uppercase first letter without diacritics', () => {
+    expect(getIndexLetter('daft punk')).toBe('D');
+    expect(getIndexLetter('Édith Piaf')).toBe('E');
+  });
+
+  it('should group names not starting with a letter under #', () => {
+    expect(getIndexLetter('2Pac')).toBe('#');
+    expect(getIndexLetter('!!!')).toBe('#');
+    expect(getIndexLetter('')).toBe('#');
+  });
+});
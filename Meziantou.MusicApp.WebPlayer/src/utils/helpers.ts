@@ -1,3 +1,6 @@
+import type { AlbumInfo, PlaylistSummary, TrackInfo } from '../types';
+import { ALL_SONGS_PLAYLIST_ID } from '../constants';
+
 // Utility functions for DOM manipulation and formatting
 
 export function formatDuration(seconds: number): string {
@@ -102,6 +105,85 @@ export function matchesSearch(text: string | null | undefined, query: string): b
   return normalizedText.includes(normalizedQuery);
 }
 
+export function getAlbumTracks(tracks: TrackInfo[], albumId: string): TrackInfo[] {
+  const getDirectory = (path: string) => path.substring(0, Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')));
+
+  return tracks
+    .filter(track => track.albumId === albumId)
+    .sort((a, b) => {
+      // Multi-disc albums are usually split into one folder per disc
+      const dirCompare = getDirectory(a.path).localeCompare(getDirectory(b.path), undefined, { numeric: true });
+      if (dirCompare !== 0) return dirCompare;
+
+      const trackA = a.track ?? Number.MAX_SAFE_INTEGER;
+      const trackB = b.track ?? Number.MAX_SAFE_INTEGER;
+      if (trackA !== trackB) return trackA - trackB;
+
+      return a.path.localeCompare(b.path, undefined, { numeric: true });
+    });
+}
+
+export function getArtistTracks(tracks: TrackInfo[], artistId: string): TrackInfo[] {
+  const albumIds: string[] = [];
+  const firstTrackByAlbum = new Map<string, TrackInfo>();
+  for (const track of tracks) {
+    if (track.artistId !== artistId || !track.albumId) continue;
+    if (!firstTrackByAlbum.has(track.albumId)) {
+      firstTrackByAlbum.set(track.albumId, track);
+      albumIds.push(track.albumId);
+    }
+  }
+
+  // Oldest albums first, so that "play all" follows the discography
+  albumIds.sort((a, b) => {
+    const trackA = firstTrackByAlbum.get(a)!;
+    const trackB = firstTrackByAlbum.get(b)!;
+    const yearCompare = (trackA.year ?? Number.MAX_SAFE_INTEGER) - (trackB.year ?? Number.MAX_SAFE_INTEGER);
+    if (yearCompare !== 0) return yearCompare;
+    return (trackA.album || '').localeCompare(trackB.album || '');
+  });
+
+  return albumIds.flatMap(albumId => getAlbumTracks(tracks, albumId));
+}
+
+export function createAllSongsPlaylist(tracks: TrackInfo[]): PlaylistSummary {
+  const now = new Date().toISOString();
+  return {
+    id: ALL_SONGS_PLAYLIST_ID,
+    name: 'All Songs',
+    trackCount: tracks.length,
+    duration: tracks.reduce((sum, t) => sum + t.duration, 0),
+    created: now,
+    changed: now,
+    sortOrder: -1,
+  };
+}
+
+export function groupAlbumsByYear(albums: AlbumInfo[]): { year: number | null; albums: AlbumInfo[] }[] {
+  const groups = new Map<number | null, AlbumInfo[]>();
+  for (const album of albums) {
+    const group = groups.get(album.year);
+    if (group) {
+      group.push(album);
+    } else {
+      groups.set(album.year, [album]);
+    }
+  }
+
+  // Most recent years first, albums without a year at the end
+  return [...groups.entries()]
+    .sort(([a], [b]) => (b ?? Number.MIN_SAFE_INTEGER) - (a ?? Number.MIN_SAFE_INTEGER))
+    .map(([year, yearAlbums]) => ({
+      year,
+      albums: yearAlbums.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+export function getIndexLetter(name: string): string {
+  const letter = normalizeSearch(name.trim().charAt(0)).toUpperCase();
+  return letter >= 'A' && letter <= 'Z' ? letter : '#';
+}
+
 export function getNetworkType(): 'normal' | 'low-data' | 'unknown' {
   const connection = (navigator as Navigator & { 
     connection?: { 
@@ -1 +1,19 @@
 export * from './helpers';
+export * from './routes';
+export * from './search';
+export * from './search-query';
+export * from './smart-playlist';
+export * from './crossfade';
+export * from './equalizer';
+export * from './lyrics';
+export * from './playback-rate';
+export * from './resume-position';
+export * from './loudness';
+export * from './replay-gain';
+export * from './visualizer';
+export * from './now-playing';
+export * from './listening-history';
+export * from './track-stats';
+export * from './adaptive-quality';
+export * from './output-device';
+export * from './ab-loop';
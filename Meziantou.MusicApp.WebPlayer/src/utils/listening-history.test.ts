@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { ListeningHistoryEntry } from '../types';
+import { formatListeningTime, getHistoryPeriodStart, getListeningStats, isSkippedPlay } from './listening-history';
+
+function createEntry(overrides: Partial<ListeningHistoryEntry>): ListeningHistoryEntry {
+  return {
+    trackId: '1',
+    title: 'Track',
+    artists: 'Artist',
+    artistId: 'artist-1',
+    album: 'Album',
+    albumId: 'album-1',
+    trackDuration: 200,
+    startedAt: new Date(2026, 9, 12, 8, 30).getTime(), // Monday
+    playedDuration: 200,
+    skipped: false,
+    ...overrides,
+  };
+}
+
+describe('isSkippedPlay', () => {
+  it('should not count the end of a track as a skip', () => {
+    expect(isSkippedPlay(60, 300)).toBe(true);
+    expect(isSkippedPlay(280, 300)).toBe(false);
+    expect(isSkippedPlay(3000, 3600)).toBe(true);
+    expect(isSkippedPlay(3590, 3600)).toBe(false);
+  });
+
+  it('should use a shorter margin for short tracks', () => {
+    expect(isSkippedPlay(80, 100)).toBe(true);
+    expect(isSkippedPlay(95, 100)).toBe(false);
+  });
+
+  it('should not count tracks without duration as skipped', () => {
+    expect(isSkippedPlay(10, 0)).toBe(false);
+    expect(isSkippedPlay(10, NaN)).toBe(false);
+  });
+});
+
+describe('formatListeningTime', () => {
+  it('should format hours and minutes', () => {
+    expect(formatListeningTime(59)).toBe('0 min');
+    expect(formatListeningTime(45 * 60)).toBe('45 min');
+    expect(formatListeningTime(12 * 3600 + 5 * 60 + 30)).toBe('12 h 05 min');
+  });
+});
+
+describe('getHistoryPeriodStart', () => {
+  it('should return rolling periods', () => {
+    const now = Date.UTC(2026, 9, 18);
+    expect(getHistoryPeriodStart('week', now)).toBe(Date.UTC(2026, 9, 11));
+    expect(getHistoryPeriodStart('month', now)).toBe(Date.UTC(2026, 8, 18));
+  });
+});
+
+describe('getListeningStats', () => {
+  it('should compute the totals', () => {
+    const stats = getListeningStats([
+      createEntry({ playedDuration: 200 }),
+      createEntry({ playedDuration: 20, skipped: true }),
+    ]);
+
+    expect(stats.totalListeningTime).toBe(220);
+    expect(stats.playCount).toBe(1);
+    expect(stats.skipCount).toBe(1);
+  });
+
+  it('should rank the top items by play count', () => {
+    const stats = getListeningStats([
+      createEntry({ trackId: '1', title: 'A' }),
+      createEntry({ trackId: '2', title: 'B', artists: 'Other', artistId: 'artist-2', album: 'Other album', albumId: 'album-2' }),
+      createEntry({ trackId: '2', title: 'B', artists: 'Other', artistId: 'artist-2', album: 'Other album', albumId: 'album-2' }),
+      createEntry({ trackId: '3', title: 'C', skipped: true, playedDuration: 10 }),
+    ]);
+
+    expect(stats.topTracks.map(item => item.name)).toEqual(['B', 'A']);
+    expect(stats.topArtists.map(item => [item.name, item.playCount])).toEqual([['Other', 2], ['Artist', 1]]);
+    expect(stats.topAlbums[0]).toEqual({ key: 'album-2', id: 'album-2', name: 'Other album', detail: 'Other', playCount: 2, listeningTime: 400 });
+    expect(stats.topAlbums[1].listeningTime).toBe(210);
+  });
+
+  it('should group entries without ids by name', () => {
+    const stats = getListeningStats([
+      createEntry({ trackId: '1', artistId: null, albumId: null }),
+      createEntry({ trackId: '2', artistId: null, albumId: null }),
+    ]);
+
+    expect(stats.topArtists).toHaveLength(1);
+    expect(stats.topAlbums).toHaveLength(1);
+    expect(stats.topAlbums[0].playCount).toBe(2);
+    expect(stats.topArtists[0].id).toBeNull();
+  });
+
+  it('should fill the heatmap by weekday and hour', () => {
+    const stats = getListeningStats([
+      createEntry({ playedDuration: 100 }),
+      createEntry({ playedDuration: 50 }),
+    ]);
+
+    expect(stats.heatmap).toHaveLength(7);
+    expect(stats.heatmap[1][8]).toBe(150);
+    expect(stats.heatmap.flat().reduce((sum, value) => sum + value, 0)).toBe(150);
+  });
+});
@@ -0,0 +1,126 @@
+import type { HistoryPeriod, ListeningHistoryEntry } from '../types';
+
+// Shorter plays are not recorded, e.g. when browsing tracks with the next button
+export const HISTORY_MIN_PLAYED_DURATION = 5;
+// A track stopped this close to its end was listened to, not skipped
+const SKIP_END_MARGIN = 30;
+const SKIP_END_MARGIN_RATIO = 0.1;
+const TOP_ITEMS_COUNT = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+const HISTORY_PERIOD_DAYS: Record<HistoryPeriod, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+export interface ListeningStatsItem {
+  key: string;
+  // Id of the track, artist or album in the library, if known
+  id: string | null;
+  name: string;
+  detail: string | null;
+  playCount: number;
+  listeningTime: number;
+}
+
+export interface ListeningStats {
+  totalListeningTime: number;
+  playCount: number;
+  skipCount: number;
+  topTracks: ListeningStatsItem[];
+  topArtists: ListeningStatsItem[];
+  topAlbums: ListeningStatsItem[];
+  // Listening time in seconds, by day of the week (0 is Sunday) and hour of the day
+  heatmap: number[][];
+}
+
+/**
+ * Whether a track stopped before its end was skipped. Stopping during the last seconds is not a skip.
+ */
+export function isSkippedPlay(position: number, duration: number): boolean {
+  if (!(duration > 0)) return false;
+  return duration - position > Math.min(SKIP_END_MARGIN, duration * SKIP_END_MARGIN_RATIO);
+}
+
+// Formats a listening time in hours and minutes, e.g. "12 h 05 min"
+export function formatListeningTime(seconds: number): string {
+  const totalMinutes = Math.floor(Math.max(0, seconds) / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes} min`;
+  return `${hours} h ${minutes.toString().padStart(2, '0')} min`;
+}
+
+// Periods are rolling, e.g. the last 7 days, so they never look empty at the start of a week
+export function getHistoryPeriodStart(period: HistoryPeriod, now: number = Date.now()): number {
+  return now - HISTORY_PERIOD_DAYS[period] * DAY;
+}
+
+function addToGroup(
+  groups: Map<string, ListeningStatsItem>,
+  key: string,
+  id: string | null,
+  name: string,
+  detail: string | null,
+  entry: ListeningHistoryEntry
+): void {
+  let item = groups.get(key);
+  if (!item) {
+    item = { key, id, name, detail, playCount: 0, listeningTime: 0 };
+    groups.set(key, item);
+  }
+  if (!entry.skipped) {
+    item.playCount++;
+  }
+  item.listeningTime += entry.playedDuration;
+}
+
+function getTopItems(groups: Map<string, ListeningStatsItem>): ListeningStatsItem[] {
+  return [...groups.values()]
+    .filter(item => item.playCount > 0)
+    .sort((a, b) => b.playCount - a.playCount || b.listeningTime - a.listeningTime || a.name.localeCompare(b.name))
+    .slice(0, TOP_ITEMS_COUNT);
+}
+
+/**
+ * Computes the statistics of the history. Skipped tracks count in the listening time but not in the top items.
+ * The heatmap uses the local time at which each track was started.
+ */
+export function getListeningStats(entries: ListeningHistoryEntry[]): ListeningStats {
+  const tracks = new Map<string, ListeningStatsItem>();
+  const artists = new Map<string, ListeningStatsItem>();
+  const albums = new Map<string, ListeningStatsItem>();
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  let totalListeningTime = 0;
+  let skipCount = 0;
+
+  for (const entry of entries) {
+    totalListeningTime += entry.playedDuration;
+    if (entry.skipped) {
+      skipCount++;
+    }
+
+    const startedAt = new Date(entry.startedAt);
+    heatmap[startedAt.getDay()][startedAt.getHours()] += entry.playedDuration;
+
+    addToGroup(tracks, entry.trackId, entry.trackId, entry.title, entry.artists, entry);
+    if (entry.artists) {
+      addToGroup(artists, entry.artistId ?? entry.artists, entry.artistId, entry.artists, null, entry);
+    }
+    if (entry.album) {
+      const key = entry.albumId ?? `${entry.album}\u0000${entry.artists ?? ''}`;
+      addToGroup(albums, key, entry.albumId, entry.album, entry.artists, entry);
+    }
+  }
+
+  return {
+    totalListeningTime,
+    playCount: entries.length - skipCount,
+    skipCount,
+    topTracks: getTopItems(tracks),
+    topArtists: getTopItems(artists),
+    topAlbums: getTopItems(albums),
+    heatmap,
+  };
+}
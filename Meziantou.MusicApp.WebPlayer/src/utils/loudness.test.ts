@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeGatedLoudness,
+  computeIntegratedLoudness,
+  computeStepPowers,
+  createKWeightingFilter,
+  getSamplePeak,
+  loudnessToReplayGain
+} from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+function constantSignal(value: number, seconds: number): Float32Array {
+  return new Float32Array(Math.round(seconds * SAMPLE_RATE)).fill(value);
+}
+
+describe('computeIntegratedLoudness', () => {
+  it('should sum the power of the channels', () => {
+    // Mean square of 0.25 for each channel
+    const loudness = computeIntegratedLoudness([constantSignal(0.5, 2), constantSignal(-0.5, 2)], SAMPLE_RATE);
+
+    expect(loudness).toBeCloseTo(-0.691 + 10 * Math.log10(0.5), 5);
+  });
+
+  it('should ignore silence', () => {
+    const samples = new Float32Array(SAMPLE_RATE * 4);
+    samples.fill(0.5, 0, SAMPLE_RATE * 2);
+
+    const loudness = computeIntegratedLoudness([samples], SAMPLE_RATE);
+
+    // Only the blocks overlapping the end of the signal are partially silent
+    expect(loudness).toBeCloseTo(-0.691 + 10 * Math.log10(0.25), 0);
+    expect(loudness).toBeGreaterThan(-0.691 + 10 * Math.log10(0.125));
+  });
+
+  it('should return null for silent or too short audio', () => {
+    expect(computeIntegratedLoudness([constantSignal(0, 2)], SAMPLE_RATE)).toBeNull();
+    expect(computeIntegratedLoudness([constantSignal(0.5, 0.2)], SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('createKWeightingFilter', () => {
+  it('should measure a full scale 997 Hz sine at -3.01 LUFS', () => {
+    const samples = new Float32Array(SAMPLE_RATE * 5).map((_, i) => Math.sin(2 * Math.PI * 997 * i / SAMPLE_RATE));
+
+    createKWeightingFilter()(samples);
+
+    expect(computeIntegratedLoudness([samples], SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('should remove a constant offset', () => {
+    const samples = constantSignal(0.5, 2);
+
+    createKWeightingFilter()(samples);
+
+    expect(Math.abs(samples[samples.length - 1])).toBeLessThan(0.001);
+  });
+
+  it('should keep its state between chunks', () => {
+    const samples = new Float32Array(SAMPLE_RATE).map((_, i) => Math.sin(2 * Math.PI * 440 * i / SAMPLE_RATE));
+    const chunked = samples.slice();
+
+    createKWeightingFilter()(samples);
+    const filter = createKWeightingFilter();
+    filter(chunked.subarray(0, 1000));
+    filter(chunked.subarray(1000));
+
+    expect(Array.from(chunked)).toEqual(Array.from(samples));
+  });
+});
+
+describe('computeGatedLoudness', () => {
+  it('should measure chunks the same as the whole track', () => {
+    const samples = new Float32Array(SAMPLE_RATE * 3).map((_, i) => (i % 100) / 100 * (i < SAMPLE_RATE ? 0.2 : 0.8));
+    const chunkLength = SAMPLE_RATE;
+    const stepPowers: number[] = [];
+    for (let offset = 0; offset < samples.length; offset += chunkLength) {
+      stepPowers.push(...computeStepPowers([samples.subarray(offset, offset + chunkLength)], SAMPLE_RATE));
+    }
+
+    expect(computeGatedLoudness(stepPowers, SAMPLE_RATE)).toBeCloseTo(computeIntegratedLoudness([samples], SAMPLE_RATE)!, 10);
+  });
+});
+
+describe('getSamplePeak', () => {
+  it('should return the largest absolute sample', () => {
+    expect(getSamplePeak([new Float32Array([0.1, -0.8]), new Float32Array([0.5])])).toBeCloseTo(0.8);
+  });
+});
+
+describe('loudnessToReplayGain', () => {
+  it('should target -18 LUFS', () => {
+    expect(loudnessToReplayGain(-10)).toBe(-8);
+    expect(loudnessToReplayGain(-23.456)).toBe(5.46);
+  });
+});
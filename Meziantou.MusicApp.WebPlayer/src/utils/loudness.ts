@@ -0,0 +1,135 @@
+// Loudness measurement as defined by ITU-R BS.1770 / EBU R128, used when a track has no ReplayGain tags
+
+// ReplayGain 2.0 reference level, same as the server
+export const REPLAYGAIN_REFERENCE_LOUDNESS = -18;
+
+// K-weighting filters (pre-filter and RLB high-pass) for 48 kHz, as feedforward / feedback coefficients
+export const K_WEIGHTING_SAMPLE_RATE = 48000;
+export const K_WEIGHTING_FILTERS = [
+  {
+    feedforward: [1.53512485958697, -2.69169618940638, 1.19839281085285],
+    feedback: [1, -1.69065929318241, 0.73248077421585],
+  },
+  {
+    feedforward: [1, -2, 1],
+    feedback: [1, -1.99004745483398, 0.99007225036621],
+  },
+];
+
+/**
+ * Creates a K-weighting filter for 48 kHz samples, filtering them in place.
+ * The state is kept between calls, so a track can be filtered in consecutive chunks.
+ */
+export function createKWeightingFilter(): (samples: Float32Array) => void {
+  // Transposed direct form II, the state is kept in double precision
+  const states = K_WEIGHTING_FILTERS.map(() => ({ z1: 0, z2: 0 }));
+  return samples => {
+    K_WEIGHTING_FILTERS.forEach(({ feedforward: [b0, b1, b2], feedback: [a0, a1, a2] }, index) => {
+      let { z1, z2 } = states[index];
+      for (let i = 0; i < samples.length; i++) {
+        const input = samples[i];
+        const output = b0 / a0 * input + z1;
+        z1 = (b1 * input - a1 * output) / a0 + z2;
+        z2 = (b2 * input - a2 * output) / a0;
+        samples[i] = output;
+      }
+      states[index] = { z1, z2 };
+    });
+  };
+}
+
+const BLOCK_DURATION = 0.4;
+const BLOCK_STEP = 0.1; // 75% overlap
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// The LFE channel is ignored and the surround channels are weighted more, for the usual 5.1 layout
+function getChannelWeight(channel: number, channelCount: number): number {
+  if (channelCount !== 6) return 1;
+  return [1, 1, 1, 0, 1.41, 1.41][channel];
+}
+
+function toLoudness(power: number): number {
+  return -0.691 + 10 * Math.log10(power);
+}
+
+function getStepSize(sampleRate: number): number {
+  return Math.round(BLOCK_STEP * sampleRate);
+}
+
+/**
+ * Sums the weighted squares of K-weighted samples over 100 ms steps, the trailing samples not filling a step are ignored.
+ * Chunks whose length is a multiple of the step size can be measured separately and their steps concatenated.
+ */
+export function computeStepPowers(channels: Float32Array[], sampleRate: number): Float64Array {
+  const stepSize = getStepSize(sampleRate);
+  const stepCount = Math.floor((channels[0]?.length ?? 0) / stepSize);
+  const stepPowers = new Float64Array(stepCount);
+  channels.forEach((samples, channel) => {
+    const weight = getChannelWeight(channel, channels.length);
+    if (weight === 0) return;
+
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const end = (step + 1) * stepSize;
+      for (let i = step * stepSize; i < end; i++) {
+        sum += samples[i] * samples[i];
+      }
+      stepPowers[step] += weight * sum;
+    }
+  });
+  return stepPowers;
+}
+
+/**
+ * Computes the gated integrated loudness, in LUFS, from the step powers of the whole track.
+ * Returns null when the audio is too short or silent.
+ */
+export function computeGatedLoudness(stepPowers: ArrayLike<number>, sampleRate: number): number | null {
+  const stepSize = getStepSize(sampleRate);
+
+  // Overlapping 400 ms blocks are summed from 4 steps
+  const stepsPerBlock = Math.round(BLOCK_DURATION / BLOCK_STEP);
+  const blockPowers: number[] = [];
+  for (let step = 0; step + stepsPerBlock <= stepPowers.length; step++) {
+    let sum = 0;
+    for (let i = step; i < step + stepsPerBlock; i++) {
+      sum += stepPowers[i];
+    }
+    const power = sum / (stepsPerBlock * stepSize);
+    if (toLoudness(power) > ABSOLUTE_GATE) {
+      blockPowers.push(power);
+    }
+  }
+
+  if (blockPowers.length === 0) return null;
+
+  const average = (powers: number[]) => powers.reduce((a, b) => a + b, 0) / powers.length;
+  const relativeGate = toLoudness(average(blockPowers)) + RELATIVE_GATE;
+  const gatedPowers = blockPowers.filter(power => toLoudness(power) > relativeGate);
+  return toLoudness(average(gatedPowers));
+}
+
+/**
+ * Computes the gated integrated loudness, in LUFS, of K-weighted samples.
+ * Returns null when the audio is too short or silent.
+ */
+export function computeIntegratedLoudness(channels: Float32Array[], sampleRate: number): number | null {
+  return computeGatedLoudness(computeStepPowers(channels, sampleRate), sampleRate);
+}
+
+export function getSamplePeak(channels: Float32Array[]): number {
+  let peak = 0;
+  for (const samples of channels) {
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+// Gain in dB bringing the track to the ReplayGain reference level
+export function loudnessToReplayGain(loudness: number): number {
+  return Math.round((REPLAYGAIN_REFERENCE_LOUDNESS - loudness) * 100) / 100;
+}
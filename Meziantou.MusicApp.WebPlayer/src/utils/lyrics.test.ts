@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { findCurrentLyricsLine, parseLyrics } from './lyrics';
+
+describe('parseLyrics', () => {
+  it('should parse LRC timestamps', () => {
+    const lyrics = parseLyrics('[ar:Queen]\n[ti:Bohemian Rhapsody]\n[00:01.50]Is this the real life?\n[00:05.123]Is this just fantasy?');
+
+    expect(lyrics.isSynced).toBe(true);
+    expect(lyrics.lines).toEqual([
+      { time: 1.5, text: 'Is this the real life?' },
+      { time: 5.123, text: 'Is this just fantasy?' },
+    ]);
+  });
+
+  it('should repeat lines with multiple timestamps and sort them', () => {
+    const lyrics = parseLyrics('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse');
+
+    expect(lyrics.lines.map(line => line.text)).toEqual(['Chorus', 'Verse', 'Chorus']);
+    expect(lyrics.lines.map(line => line.time)).toEqual([10, 20, 30]);
+  });
+
+  it('should apply the offset and remove word timestamps', () => {
+    const lyrics = parseLyrics('[offset:+500]\n[01:02]<01:02.00>Hello <01:02.50>world');
+
+    expect(lyrics.lines).toEqual([{ time: 61.5, text: 'Hello world' }]);
+  });
+
+  it('should return unsynced lines for plain text', () => {
+    const lyrics = parseLyrics('First line\r\nSecond line\n');
+
+    expect(lyrics.isSynced).toBe(false);
+    expect(lyrics.lines).toEqual([
+      { time: null, text: 'First line' },
+      { time: null, text: 'Second line' },
+    ]);
+  });
+});
+
+describe('findCurrentLyricsLine', () => {
+  const lines = [
+    { time: 5, text: 'a' },
+    { time: 10, text: 'b' },
+    { time: 15, text: 'c' },
+  ];
+
+  it('should find the last line started', () => {
+    expect(findCurrentLyricsLine(lines, 5)).toBe(0);
+    expect(findCurrentLyricsLine(lines, 12)).toBe(1);
+    expect(findCurrentLyricsLine(lines, 100)).toBe(2);
+  });
+
+  it('should return -1 before the first line', () => {
+    expect(findCurrentLyricsLine(lines, 2)).toBe(-1);
+    expect(findCurrentLyricsLine([], 2)).toBe(-1);
+  });
+});
@@ -0,0 +1,78 @@
+import type { LyricsLine, ParsedLyrics } from '../types';
+
+// One or more timestamps at the start of a line, e.g. "[01:23.45][02:34.56]Text"
+const TIMESTAMPS_REGEX = /^((?:\[\d+:\d{1,2}(?:[.:]\d{1,3})?\])+)(.*)$/;
+const TIMESTAMP_REGEX = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+// Word timestamps of the enhanced LRC format, e.g. "<01:23.45>"
+const WORD_TIMESTAMP_REGEX = /<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g;
+const OFFSET_REGEX = /^\[offset:\s*([+-]?\d+)\s*\]$/i;
+
+function parseTimestamp(minutes: string, seconds: string, fraction: string | undefined): number {
+  // The fraction is in hundredths in most files, but some use milliseconds
+  const fractionSeconds = fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0;
+  return parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fractionSeconds;
+}
+
+/**
+ * Parses lyrics in the LRC format. Lyrics without timestamps are returned as unsynced lines.
+ */
+export function parseLyrics(text: string): ParsedLyrics {
+  const rawLines = text.split(/\r?\n/);
+  const syncedLines: LyricsLine[] = [];
+  let offset = 0;
+
+  for (const rawLine of rawLines) {
+    const line = rawLine.trim();
+
+    const offsetMatch = OFFSET_REGEX.exec(line);
+    if (offsetMatch) {
+      // A positive offset shows the lyrics earlier
+      offset = parseInt(offsetMatch[1], 10) / 1000;
+      continue;
+    }
+
+    const match = TIMESTAMPS_REGEX.exec(line);
+    if (!match) continue;
+
+    const lineText = match[2].replace(WORD_TIMESTAMP_REGEX, '').trim();
+    for (const timestamp of match[1].matchAll(TIMESTAMP_REGEX)) {
+      syncedLines.push({ time: parseTimestamp(timestamp[1], timestamp[2], timestamp[3]), text: lineText });
+    }
+  }
+
+  if (syncedLines.length === 0) {
+    return {
+      isSynced: false,
+      lines: text.trim().split(/\r?\n/).map(line => ({ time: null, text: line.trim() })),
+    };
+  }
+
+  return {
+    isSynced: true,
+    lines: syncedLines
+      .map(line => ({ ...line, time: Math.max(0, line.time! - offset) }))
+      .sort((a, b) => a.time - b.time),
+  };
+}
+
+/**
+ * Gets the index of the line being sung at the given time, or -1 before the first line
+ */
+export function findCurrentLyricsLine(lines: LyricsLine[], currentTime: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const time = lines[mid].time;
+    if (time !== null && time <= currentTime) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
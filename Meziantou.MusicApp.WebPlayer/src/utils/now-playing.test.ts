@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getCoverTheme, getDominantColor, getRelativeLuminance, getSwipeDirection } from './now-playing';
+
+function createPixels(colors: Array<[number, number, number, number]>): Uint8ClampedArray {
+  return new Uint8ClampedArray(colors.flat());
+}
+
+describe('getDominantColor', () => {
+  it('should prefer saturated colors over grey ones', () => {
+    const pixels = createPixels([
+      [128, 128, 128, 255],
+      [128, 128, 128, 255],
+      [128, 128, 128, 255],
+      [200, 30, 30, 255],
+      [206, 26, 28, 255],
+    ]);
+
+    expect(getDominantColor(pixels)).toEqual({ r: 203, g: 28, b: 29 });
+  });
+
+  it('should ignore transparent, black and white pixels', () => {
+    const pixels = createPixels([
+      [0, 0, 0, 255],
+      [255, 255, 255, 255],
+      [30, 200, 30, 0],
+      [30, 60, 200, 255],
+    ]);
+
+    expect(getDominantColor(pixels)).toEqual({ r: 30, g: 60, b: 200 });
+    expect(getDominantColor(createPixels([[0, 0, 0, 255]]))).toBeNull();
+  });
+});
+
+describe('getCoverTheme', () => {
+  it('should darken the background and lighten the accent', () => {
+    const color = { r: 40, g: 60, b: 200 };
+    const theme = getCoverTheme(color);
+
+    const parse = (css: string) => {
+      const [r, g, b] = css.match(/\d+/g)!.map(Number);
+      return { r, g, b };
+    };
+    expect(getRelativeLuminance(parse(theme.background))).toBeLessThanOrEqual(0.04);
+    expect(getRelativeLuminance(parse(theme.accent))).toBeGreaterThanOrEqual(0.3);
+  });
+
+  it('should keep colors that are already suitable', () => {
+    expect(getCoverTheme({ r: 10, g: 20, b: 30 }).background).toBe('rgb(10, 20, 30)');
+    expect(getCoverTheme({ r: 250, g: 200, b: 100 }).accent).toBe('rgb(250, 200, 100)');
+  });
+});
+
+describe('getSwipeDirection', () => {
+  it('should return the main axis of the movement', () => {
+    expect(getSwipeDirection(-100, 20)).toBe('left');
+    expect(getSwipeDirection(100, -40)).toBe('right');
+    expect(getSwipeDirection(30, 120)).toBe('down');
+    expect(getSwipeDirection(10, -80)).toBe('up');
+  });
+
+  it('should ignore short movements', () => {
+    expect(getSwipeDirection(20, 10)).toBeNull();
+    expect(getSwipeDirection(0, 0)).toBeNull();
+    expect(getSwipeDirection(0, 30, 20)).toBe('down');
+  });
+});
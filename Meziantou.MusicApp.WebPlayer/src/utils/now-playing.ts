@@ -0,0 +1,115 @@
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface CoverTheme {
+  background: string;
+  accent: string;
+}
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Pixels this dark or bright say little about the cover, e.g. borders and text
+const MIN_PIXEL_LIGHTNESS = 0.08;
+const MAX_PIXEL_LIGHTNESS = 0.92;
+// The background stays dark so the white text remains readable
+const BACKGROUND_LUMINANCE = 0.04;
+const MIN_ACCENT_LUMINANCE = 0.3;
+
+/**
+ * Returns the most representative color of the RGBA pixels of a cover.
+ * Similar colors are grouped, and saturated groups are preferred over grey ones.
+ */
+export function getDominantColor(pixels: ArrayLike<number>): RgbColor | null {
+  const buckets = new Map<number, { count: number; score: number; r: number; g: number; b: number }>();
+
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    if (pixels[i + 3] < 128) continue;
+
+    const max = Math.max(r, g, b) / 255;
+    const min = Math.min(r, g, b) / 255;
+    const lightness = (max + min) / 2;
+    if (lightness < MIN_PIXEL_LIGHTNESS || lightness > MAX_PIXEL_LIGHTNESS) continue;
+
+    const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { count: 0, score: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.score += 0.1 + saturation;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  let best = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.score > best.score) {
+      best = bucket;
+    }
+  }
+
+  if (!best) return null;
+  return {
+    r: Math.round(best.r / best.count),
+    g: Math.round(best.g / best.count),
+    b: Math.round(best.b / best.count),
+  };
+}
+
+export function getRelativeLuminance({ r, g, b }: RgbColor): number {
+  const toLinear = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+function mix(color: RgbColor, target: number, amount: number): RgbColor {
+  return {
+    r: Math.round(color.r + (target - color.r) * amount),
+    g: Math.round(color.g + (target - color.g) * amount),
+    b: Math.round(color.b + (target - color.b) * amount),
+  };
+}
+
+function toCss({ r, g, b }: RgbColor): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Derives the colors of the now playing view from the dominant color of the cover:
+ * a dark background and an accent light enough to stand out on it.
+ */
+export function getCoverTheme(color: RgbColor): CoverTheme {
+  let background = color;
+  for (let amount = 0.05; amount <= 1 && getRelativeLuminance(background) > BACKGROUND_LUMINANCE; amount += 0.05) {
+    background = mix(color, 0, amount);
+  }
+
+  let accent = color;
+  for (let amount = 0.05; amount <= 1 && getRelativeLuminance(accent) < MIN_ACCENT_LUMINANCE; amount += 0.05) {
+    accent = mix(color, 255, amount);
+  }
+
+  return { background: toCss(background), accent: toCss(accent) };
+}
+
+/**
+ * Returns the direction of a swipe, or null when the finger did not move far enough.
+ * The main axis of the movement wins, so diagonal swipes are not ambiguous.
+ */
+export function getSwipeDirection(deltaX: number, deltaY: number, minDistance = 60): SwipeDirection | null {
+  if (Math.abs(deltaX) >= Math.abs(deltaY)) {
+    if (Math.abs(deltaX) < minDistance) return null;
+    return deltaX < 0 ? 'left' : 'right';
+  }
+
+  if (Math.abs(deltaY) < minDistance) return null;
+  return deltaY < 0 ? 'up' : 'down';
+}
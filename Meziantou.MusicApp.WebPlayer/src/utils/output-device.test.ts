@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatOutputDeviceLabel, getOutputDevices, resolveOutputDeviceId } from './output-device';
+
+const createDevice = (deviceId: string, kind: MediaDeviceKind, label: string = '') =>
+  ({ deviceId, kind, label, groupId: '' }) as MediaDeviceInfo;
+
+describe('getOutputDevices', () => {
+  it('should keep the audio outputs without the virtual devices', () => {
+    const devices = getOutputDevices([
+      createDevice('default', 'audiooutput', 'Default - Speakers'),
+      createDevice('communications', 'audiooutput', 'Communications - Headset'),
+      createDevice('speakers', 'audiooutput', 'Speakers'),
+      createDevice('headset', 'audiooutput', 'Headset'),
+      createDevice('microphone', 'audioinput', 'Microphone'),
+    ]);
+
+    expect(devices).toEqual([
+      { id: 'speakers', label: 'Speakers' },
+      { id: 'headset', label: 'Headset' },
+    ]);
+  });
+
+  it('should ignore the placeholder listed without permission', () => {
+    expect(getOutputDevices([createDevice('', 'audiooutput')])).toEqual([]);
+  });
+});
+
+describe('resolveOutputDeviceId', () => {
+  const devices = [{ id: 'speakers', label: 'Speakers' }];
+
+  it('should use the remembered device when it is connected', () => {
+    expect(resolveOutputDeviceId(devices, 'speakers')).toBe('speakers');
+  });
+
+  it('should fall back to the default device', () => {
+    expect(resolveOutputDeviceId(devices, 'headset')).toBe('');
+    expect(resolveOutputDeviceId(devices, null)).toBe('');
+  });
+});
+
+describe('formatOutputDeviceLabel', () => {
+  it('should number the devices without name', () => {
+    expect(formatOutputDeviceLabel({ id: 'a', label: 'Speakers' }, 0)).toBe('Speakers');
+    expect(formatOutputDeviceLabel({ id: 'b', label: '' }, 1)).toBe('Output device 2');
+  });
+});
@@ -0,0 +1,36 @@
+import type { OutputDevice } from '../types';
+
+// Virtual devices that follow the system settings, the player selects the default one with an empty id
+const VIRTUAL_DEVICE_IDS = ['', 'default', 'communications'];
+
+/**
+ * Whether the output device can be selected. The tracks are played through the Web Audio API, so the device is
+ * selected on the AudioContext, which is not supported by every browser.
+ */
+export function supportsOutputDeviceSelection(): boolean {
+  return typeof AudioContext !== 'undefined' &&
+    typeof AudioContext.prototype?.setSinkId === 'function' &&
+    typeof navigator !== 'undefined' &&
+    typeof navigator.mediaDevices?.enumerateDevices === 'function';
+}
+
+/**
+ * Gets the audio outputs from the media devices. Until the page is allowed to use a microphone, browsers hide the
+ * names of the devices, or the devices themselves.
+ */
+export function getOutputDevices(devices: readonly MediaDeviceInfo[]): OutputDevice[] {
+  return devices
+    .filter(device => device.kind === 'audiooutput' && !VIRTUAL_DEVICE_IDS.includes(device.deviceId))
+    .map(device => ({ id: device.deviceId, label: device.label }));
+}
+
+/**
+ * Gets the id of the device to play to: the remembered one when it is connected, otherwise the default one ('')
+ */
+export function resolveOutputDeviceId(devices: readonly OutputDevice[], preferredId: string | null): string {
+  return preferredId && devices.some(device => device.id === preferredId) ? preferredId : '';
+}
+
+export function formatOutputDeviceLabel(device: OutputDevice, index: number): string {
+  return device.label || `Output device ${index + 1}`;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { clampPlaybackRate, formatPlaybackRate, getAdjacentPlaybackRate, getPrimaryGenre } from './playback-rate';
+
+describe('clampPlaybackRate', () => {
+  it('should keep the rate between 0.5 and 3', () => {
+    expect(clampPlaybackRate(0.1)).toBe(0.5);
+    expect(clampPlaybackRate(1.3)).toBe(1.3);
+    expect(clampPlaybackRate(4)).toBe(3);
+    expect(clampPlaybackRate(NaN)).toBe(1);
+  });
+});
+
+describe('getAdjacentPlaybackRate', () => {
+  it('should step through the predefined speeds', () => {
+    expect(getAdjacentPlaybackRate(1, 'faster')).toBe(1.25);
+    expect(getAdjacentPlaybackRate(1, 'slower')).toBe(0.75);
+    expect(getAdjacentPlaybackRate(1.1, 'faster')).toBe(1.25);
+    expect(getAdjacentPlaybackRate(1.1, 'slower')).toBe(1);
+  });
+
+  it('should stop at the limits', () => {
+    expect(getAdjacentPlaybackRate(3, 'faster')).toBe(3);
+    expect(getAdjacentPlaybackRate(0.5, 'slower')).toBe(0.5);
+  });
+});
+
+describe('formatPlaybackRate', () => {
+  it('should format the rate without trailing zeros', () => {
+    expect(formatPlaybackRate(1)).toBe('1×');
+    expect(formatPlaybackRate(1.25)).toBe('1.25×');
+  });
+});
+
+describe('getPrimaryGenre', () => {
+  it('should return the first genre', () => {
+    expect(getPrimaryGenre('Audiobook, Fantasy')).toBe('Audiobook');
+    expect(getPrimaryGenre('Podcast')).toBe('Podcast');
+    expect(getPrimaryGenre('  ')).toBeNull();
+    expect(getPrimaryGenre(null)).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { PLAYBACK_RATES } from '../constants';
+
+const MIN_PLAYBACK_RATE = PLAYBACK_RATES[0];
+const MAX_PLAYBACK_RATE = PLAYBACK_RATES[PLAYBACK_RATES.length - 1];
+
+export function clampPlaybackRate(rate: number): number {
+  if (!Number.isFinite(rate)) return 1;
+  return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+}
+
+/**
+ * Gets the next faster or slower speed of PLAYBACK_RATES, used by the keyboard shortcuts
+ */
+export function getAdjacentPlaybackRate(rate: number, direction: 'faster' | 'slower'): number {
+  const next = direction === 'faster'
+    ? PLAYBACK_RATES.find(r => r > rate + 0.001)
+    : [...PLAYBACK_RATES].reverse().find(r => r < rate - 0.001);
+  return next ?? clampPlaybackRate(rate);
+}
+
+export function formatPlaybackRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}×`;
+}
+
+/**
+ * Gets the first genre of a track, e.g. "Audiobook" for "Audiobook, Fantasy"
+ */
+export function getPrimaryGenre(genre: string | null): string | null {
+  const primary = genre?.split(/[,;/]/)[0].trim();
+  return primary ? primary : null;
+}
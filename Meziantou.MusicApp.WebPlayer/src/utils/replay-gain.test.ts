@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import type { LoudnessAnalysis, TrackInfo } from '../types';
+import { computeReplayGain } from './replay-gain';
+
+const track: TrackInfo = { id: '1', title: 'Track 1', path: '/music/track1.mp3', artists: 'Artist 1', album: 'Album 1', duration: 100, artistId: null, albumId: null, track: 1, year: 2020, genre: 'Pop', bitRate: 320, size: 1000, contentType: 'audio/mp3', addedDate: null, isrc: null, replayGainTrackGain: -3, replayGainTrackPeak: 0.5, replayGainAlbumGain: -5, replayGainAlbumPeak: 0.9 };
+
+describe('computeReplayGain', () => {
+  it('should select the gain of the mode', () => {
+    expect(computeReplayGain(track, 'track', 0, null, false)).toMatchObject({ source: 'track', appliedGain: -3, peak: 0.5 });
+    expect(computeReplayGain(track, 'album', 0, null, false)).toMatchObject({ source: 'album', appliedGain: -5, peak: 0.9 });
+    expect(computeReplayGain(track, 'off', 0, null, false)).toMatchObject({ source: null, appliedGain: 0 });
+  });
+
+  it('should use the loudness analysis of tracks without tags', () => {
+    const untagged = { ...track, replayGainTrackGain: null, replayGainTrackPeak: null, replayGainAlbumGain: null, replayGainAlbumPeak: null };
+    const analysis: LoudnessAnalysis = { trackId: '1', trackGain: -7, trackPeak: 1, source: 'local', analyzedAt: 0 };
+
+    expect(computeReplayGain(untagged, 'album', 0, analysis, false)).toMatchObject({ source: 'analysis', appliedGain: -7 });
+    expect(computeReplayGain(untagged, 'album', 0, null, false).source).toBeNull();
+  });
+
+  it('should lower the gain so the peak does not clip', () => {
+    // A peak of 0.5 leaves about 6 dB of headroom
+    const result = computeReplayGain(track, 'track', 15, null, false);
+
+    expect(result.requestedGain).toBe(12);
+    expect(result.appliedGain).toBeCloseTo(6.02, 2);
+    expect(result.isPeakLimited).toBe(true);
+  });
+
+  it('should let the limiter handle the peaks when enabled', () => {
+    const result = computeReplayGain(track, 'track', 15, null, true);
+
+    expect(result.appliedGain).toBe(12);
+    expect(result.isPeakLimited).toBe(false);
+  });
+});
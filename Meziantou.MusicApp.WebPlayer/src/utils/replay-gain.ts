@@ -0,0 +1,64 @@
+import type { LoudnessAnalysis, ReplayGainInfo, ReplayGainMode, ReplayGainSource, TrackInfo } from '../types';
+
+// Without peak information, the gain is limited to +6 dB as the track may clip
+const MAX_GAIN_WITHOUT_PEAK = 20 * Math.log10(2);
+
+// Sanity limit when the limiter prevents clipping
+const MAX_GAIN_WITH_LIMITER = 20;
+
+const isValid = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && Number.isFinite(value);
+
+function selectGain(track: TrackInfo, mode: ReplayGainMode, analysis: LoudnessAnalysis | null): { source: ReplayGainSource; gain: number; peak: number | null } | null {
+  if (mode === 'off') return null;
+
+  if (mode === 'album' && isValid(track.replayGainAlbumGain)) {
+    return { source: 'album', gain: track.replayGainAlbumGain, peak: track.replayGainAlbumPeak ?? track.replayGainTrackPeak };
+  }
+  if (isValid(track.replayGainTrackGain)) {
+    return { source: 'track', gain: track.replayGainTrackGain, peak: track.replayGainTrackPeak };
+  }
+  if (analysis && isValid(analysis.trackGain)) {
+    return { source: 'analysis', gain: analysis.trackGain, peak: analysis.trackPeak };
+  }
+  return null;
+}
+
+/**
+ * Computes the gain of a track. As recommended by the ReplayGain specification, the gain is lowered
+ * so the peak doesn't exceed full scale, unless a limiter takes care of it.
+ */
+export function computeReplayGain(
+  track: TrackInfo,
+  mode: ReplayGainMode,
+  preamp: number,
+  analysis: LoudnessAnalysis | null,
+  isLimiterEnabled: boolean
+): ReplayGainInfo {
+  const selected = selectGain(track, mode, analysis);
+  if (!selected) {
+    return { source: null, gain: null, peak: null, requestedGain: 0, appliedGain: 0, isPeakLimited: false };
+  }
+
+  const peak = isValid(selected.peak) && selected.peak > 0 ? selected.peak : null;
+  const requestedGain = selected.gain + (Number.isFinite(preamp) ? preamp : 0);
+
+  let maxGain: number;
+  if (isLimiterEnabled) {
+    maxGain = MAX_GAIN_WITH_LIMITER;
+  } else if (peak !== null) {
+    maxGain = -20 * Math.log10(peak);
+  } else {
+    maxGain = MAX_GAIN_WITHOUT_PEAK;
+  }
+
+  const appliedGain = Math.min(requestedGain, maxGain);
+  return {
+    source: selected.source,
+    gain: selected.gain,
+    peak,
+    requestedGain,
+    appliedGain,
+    isPeakLimited: peak !== null && !isLimiterEnabled && appliedGain < requestedGain,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getResumePosition, isTrackFinished, supportsResumePosition } from './resume-position';
+
+describe('supportsResumePosition', () => {
+  it('should only support long tracks', () => {
+    expect(supportsResumePosition(3 * 60)).toBe(false);
+    expect(supportsResumePosition(20 * 60)).toBe(true);
+    expect(supportsResumePosition(NaN)).toBe(false);
+  });
+});
+
+describe('getResumePosition', () => {
+  const duration = 60 * 60;
+
+  it('should remember the position of long tracks', () => {
+    expect(getResumePosition(42 * 60 + 10, duration)).toBe(2530);
+    expect(getResumePosition(42 * 60 + 10, 5 * 60)).toBeNull();
+  });
+
+  it('should start from the beginning near the start or the end of the track', () => {
+    expect(getResumePosition(10, duration)).toBeNull();
+    expect(getResumePosition(duration - 10, duration)).toBeNull();
+    expect(isTrackFinished(duration - 10, duration)).toBe(true);
+    expect(isTrackFinished(10, duration)).toBe(false);
+  });
+});
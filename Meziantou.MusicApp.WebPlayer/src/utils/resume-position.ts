@@ -0,0 +1,24 @@
+import { RESUME_POSITION_MIN_DURATION } from '../constants';
+
+// Positions near the start are not worth resuming
+const MIN_RESUME_POSITION = 30;
+
+// A track is considered finished when less than this remains, in seconds
+const FINISHED_REMAINING_TIME = 30;
+
+export function supportsResumePosition(duration: number): boolean {
+  return Number.isFinite(duration) && duration >= RESUME_POSITION_MIN_DURATION;
+}
+
+export function isTrackFinished(position: number, duration: number): boolean {
+  return duration - position < FINISHED_REMAINING_TIME;
+}
+
+/**
+ * Gets the position to remember for a track, or null when there is nothing worth resuming
+ */
+export function getResumePosition(position: number, duration: number): number | null {
+  if (!supportsResumePosition(duration) || !Number.isFinite(position)) return null;
+  if (position < MIN_RESUME_POSITION || isTrackFinished(position, duration)) return null;
+  return position;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Route } from '../types';
+import { formatRoute, parseRoute } from './routes';
+
+describe('routes', () => {
+  describe('parseRoute', () => {
+    it('should parse routes with an id', () => {
+      expect(parseRoute('#/playlist/abc')).toEqual({ type: 'playlist', playlistId: 'abc' });
+      expect(parseRoute('#/album/123')).toEqual({ type: 'album', albumId: '123' });
+      expect(parseRoute('#/artist/456')).toEqual({ type: 'artist', artistId: '456' });
+      expect(parseRoute('#/track/789')).toEqual({ type: 'track', trackId: '789' });
+    });
+
+    it('should parse list routes', () => {
+      expect(parseRoute('#/albums')).toEqual({ type: 'albums' });
+      expect(parseRoute('#/artists')).toEqual({ type: 'artists' });
+      expect(parseRoute('#/history')).toEqual({ type: 'history' });
+    });
+
+    it('should decode ids', () => {
+      expect(parseRoute('#/playlist/virtual%3Aall-songs')).toEqual({ type: 'playlist', playlistId: 'virtual:all-songs' });
+    });
+
+    it('should parse the search query', () => {
+      expect(parseRoute('#/search?q=daft+punk')).toEqual({ type: 'search', query: 'daft punk' });
+      expect(parseRoute('#/search')).toEqual({ type: 'search', query: '' });
+    });
+
+    it('should return null for unknown or incomplete routes', () => {
+      expect(parseRoute('')).toBeNull();
+      expect(parseRoute('#')).toBeNull();
+      expect(parseRoute('#/unknown')).toBeNull();
+      expect(parseRoute('#/playlist')).toBeNull();
+      expect(parseRoute('#/track')).toBeNull();
+      expect(parseRoute('#/album/%E0%A4%A')).toBeNull();
+    });
+  });
+
+  describe('formatRoute', () => {
+    it('should round-trip all routes', () => {
+      const routes: Route[] = [
+        { type: 'playlist', playlistId: 'virtual:all-songs' },
+        { type: 'albums' },
+        { type: 'album', albumId: 'a/b' },
+        { type: 'artists' },
+        { type: 'artist', artistId: 'Ünïcode' },
+        { type: 'track', trackId: 'a b/c' },
+        { type: 'search', query: 'artist:"Daft Punk" & more' },
+        { type: 'search', query: '' },
+        { type: 'history' },
+      ];
+
+      for (const route of routes) {
+        expect(parseRoute(formatRoute(route))).toEqual(route);
+      }
+    });
+
+    it('should omit an empty search query', () => {
+      expect(formatRoute({ type: 'search', query: '' })).toBe('#/search');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import type { Route } from '../types';
+
+export function parseRoute(hash: string): Route | null {
+  const value = hash.replace(/^#/, '');
+  const queryIndex = value.indexOf('?');
+  const path = queryIndex >= 0 ? value.substring(0, queryIndex) : value;
+  const params = new URLSearchParams(queryIndex >= 0 ? value.substring(queryIndex + 1) : '');
+
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+
+  const [name, id] = segments;
+  switch (name) {
+    case 'playlist':
+      return id ? { type: 'playlist', playlistId: id } : null;
+    case 'albums':
+      return { type: 'albums' };
+    case 'album':
+      return id ? { type: 'album', albumId: id } : null;
+    case 'artists':
+      return { type: 'artists' };
+    case 'artist':
+      return id ? { type: 'artist', artistId: id } : null;
+    case 'track':
+      return id ? { type: 'track', trackId: id } : null;
+    case 'search':
+      return { type: 'search', query: params.get('q') ?? '' };
+    case 'history':
+      return { type: 'history' };
+    default:
+      return null;
+  }
+}
+
+export function formatRoute(route: Route): string {
+  switch (route.type) {
+    case 'playlist':
+      return `#/playlist/${encodeURIComponent(route.playlistId)}`;
+    case 'albums':
+      return '#/albums';
+    case 'album':
+      return `#/album/${encodeURIComponent(route.albumId)}`;
+    case 'artists':
+      return '#/artists';
+    case 'artist':
+      return `#/artist/${encodeURIComponent(route.artistId)}`;
+    case 'track':
+      return `#/track/${encodeURIComponent(route.trackId)}`;
+    case 'search':
+      return route.query ? `#/search?${new URLSearchParams({ q: route.query })}` : '#/search';
+    case 'history':
+      return '#/history';
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import type { TrackInfo } from '../types';
+import { getSearchText, getTrackSearchValues, matchesParsedQuery, parseDuration, parseSearchQuery } from './search-query';
+
+const createTrack = (overrides: Partial<TrackInfo> = {}): TrackInfo => ({
+  id: '1',
+  title: 'Get Lucky',
+  path: 'Daft Punk/Random Access Memories/08 Get Lucky.flac',
+  artists: 'Daft Punk',
+  artistId: null,
+  album: 'Random Access Memories',
+  albumId: null,
+  duration: 369.5,
+  track: 8,
+  year: 2013,
+  genre: 'Disco, House',
+  bitRate: 320,
+  size: 0,
+  contentType: 'audio/flac',
+  addedDate: null,
+  isrc: 'USQX91300108',
+  replayGainTrackGain: null,
+  replayGainTrackPeak: null,
+  replayGainAlbumGain: null,
+  replayGainAlbumPeak: null,
+  ...overrides,
+});
+
+const matches = (query: string, track: TrackInfo = createTrack()) =>
+  matchesParsedQuery(parseSearchQuery(query), getTrackSearchValues(track));
+
+describe('search query', () => {
+  describe('parseDuration', () => {
+    it('should parse units', () => {
+      expect(parseDuration('4m')).toBe(240);
+      expect(parseDuration('3m30s')).toBe(210);
+      expect(parseDuration('1h')).toBe(3600);
+      expect(parseDuration('90s')).toBe(90);
+      expect(parseDuration('90')).toBe(90);
+    });
+
+    it('should parse clock notation', () => {
+      expect(parseDuration('3:30')).toBe(210);
+      expect(parseDuration('1:02:03')).toBe(3723);
+    });
+
+    it('should reject invalid durations', () => {
+      expect(parseDuration('')).toBeNull();
+      expect(parseDuration('abc')).toBeNull();
+      expect(parseDuration('4x')).toBeNull();
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should parse the full example query', () => {
+      const query = parseSearchQuery('artist:"Daft Punk" year:>2010 genre:house -live duration:<4m bitrate:>=320');
+
+      expect(query.terms).toEqual([
+        { kind: 'text', field: 'artist', value: 'daft punk', negated: false },
+        { kind: 'compare', field: 'year', operator: '>', value: 2010, negated: false },
+        { kind: 'text', field: 'genre', value: 'house', negated: false },
+        { kind: 'text', field: null, value: 'live', negated: true },
+        { kind: 'compare', field: 'duration', operator: '<', value: 240, negated: false },
+        { kind: 'compare', field: 'bitrate', operator: '>=', value: 320, negated: false },
+      ]);
+    });
+
+    it('should keep quoted phrases together', () => {
+      expect(parseSearchQuery('"get lucky" memories').terms).toEqual([
+        { kind: 'text', field: null, value: 'get lucky', negated: false },
+        { kind: 'text', field: null, value: 'memories', negated: false },
+      ]);
+    });
+
+    it('should parse ranges', () => {
+      expect(parseSearchQuery('year:2010..2015').terms).toEqual([
+        { kind: 'range', field: 'year', min: 2010, max: 2015, negated: false },
+      ]);
+    });
+
+    it('should treat unknown fields and invalid numbers as text', () => {
+      expect(parseSearchQuery('foo:bar year:recent').terms).toEqual([
+        { kind: 'text', field: null, value: 'foo:bar', negated: false },
+        { kind: 'text', field: null, value: 'year:recent', negated: false },
+      ]);
+    });
+
+    it('should treat a lone dash as text', () => {
+      expect(parseSearchQuery('-').terms).toEqual([
+        { kind: 'text', field: null, value: '-', negated: false },
+      ]);
+    });
+
+    it('should remove diacritics', () => {
+      expect(parseSearchQuery('artist:Beyoncé').terms).toEqual([
+        { kind: 'text', field: 'artist', value: 'beyonce', negated: false },
+      ]);
+    });
+
+    it('should ignore empty queries', () => {
+      expect(parseSearchQuery('   ').terms).toEqual([]);
+    });
+  });
+
+  describe('getSearchText', () => {
+    it('should only keep unqualified positive terms', () => {
+      expect(getSearchText(parseSearchQuery('lucky artist:daft -live "random access"'))).toBe('lucky random access');
+    });
+  });
+
+  describe('matchesParsedQuery', () => {
+    it('should match plain words on title, artist, album and isrc', () => {
+      expect(matches('lucky')).toBe(true);
+      expect(matches('daft')).toBe(true);
+      expect(matches('memories')).toBe(true);
+      expect(matches('USQX9130')).toBe(true);
+      expect(matches('disco')).toBe(false);
+    });
+
+    it('should require every term to match', () => {
+      expect(matches('lucky daft')).toBe(true);
+      expect(matches('lucky queen')).toBe(false);
+    });
+
+    it('should match field filters', () => {
+      expect(matches('artist:"daft punk"')).toBe(true);
+      expect(matches('title:daft')).toBe(false);
+      expect(matches('genre:house')).toBe(true);
+      expect(matches('path:flac')).toBe(true);
+    });
+
+    it('should exclude negated terms', () => {
+      expect(matches('-live')).toBe(true);
+      expect(matches('-lucky')).toBe(false);
+      expect(matches('-genre:house')).toBe(false);
+    });
+
+    it('should compare numbers', () => {
+      expect(matches('year:>2010')).toBe(true);
+      expect(matches('year:<2010')).toBe(false);
+      expect(matches('year:2013')).toBe(true);
+      expect(matches('year:2010..2015')).toBe(true);
+      expect(matches('bitrate:>=320')).toBe(true);
+      expect(matches('bitrate:>320k')).toBe(false);
+      expect(matches('duration:>6m')).toBe(true);
+      expect(matches('duration:<4m')).toBe(false);
+      expect(matches('duration:6:09')).toBe(true);
+    });
+
+    it('should not match comparisons on missing values', () => {
+      expect(matches('year:>2000', createTrack({ year: null }))).toBe(false);
+      expect(matches('-year:>2000', createTrack({ year: null }))).toBe(true);
+    });
+
+    it('should match everything for an empty query', () => {
+      expect(matches('')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import type { TrackInfo } from '../types';
+import { normalizeSearch } from './helpers';
+
+export type SearchFieldName = 'title' | 'artist' | 'album' | 'genre' | 'isrc' | 'path' | 'year' | 'duration' | 'bitrate';
+
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type SearchTerm =
+  | { kind: 'text'; field: SearchFieldName | null; value: string; negated: boolean }
+  | { kind: 'compare'; field: SearchFieldName; operator: ComparisonOperator; value: number; negated: boolean }
+  | { kind: 'range'; field: SearchFieldName; min: number; max: number; negated: boolean };
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+}
+
+export type SearchFieldValues = Partial<Record<SearchFieldName, string | number | null>>;
+
+const FIELD_ALIASES: Record<string, SearchFieldName> = {
+  title: 'title',
+  artist: 'artist',
+  artists: 'artist',
+  album: 'album',
+  genre: 'genre',
+  isrc: 'isrc',
+  path: 'path',
+  year: 'year',
+  duration: 'duration',
+  length: 'duration',
+  bitrate: 'bitrate',
+};
+
+export const SEARCH_SYNTAX_HELP = 'Supports "phrases", -exclusions and filters such as artist:"Daft Punk" genre:house year:>2010 duration:<4m bitrate:>=320';
+
+const NUMERIC_FIELDS = new Set<SearchFieldName>(['year', 'duration', 'bitrate']);
+
+// Fields searched by terms without a field qualifier
+const DEFAULT_FIELDS: SearchFieldName[] = ['title', 'artist', 'album', 'isrc'];
+
+/**
+ * Parses a duration such as "4m", "3m30s", "1h", "3:30" or "240" (seconds) into seconds
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+
+  const clock = /^(?:(\d+):)?(\d+):(\d{1,2})$/.exec(trimmed);
+  if (clock) {
+    return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  }
+
+  const units = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s?)?$/.exec(trimmed);
+  if (units && (units[1] || units[2] || units[3])) {
+    return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+  }
+
+  return null;
+}
+
+function parseNumber(field: SearchFieldName, value: string): number | null {
+  if (field === 'duration') {
+    return parseDuration(value);
+  }
+
+  // Allow "320k" or "320kbps" for bitrates
+  const match = /^(\d+(?:\.\d+)?)(?:k|kbps)?$/i.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+function parseNumericTerm(field: SearchFieldName, value: string, negated: boolean): SearchTerm | null {
+  const range = /^(.+)\.\.(.+)$/.exec(value);
+  if (range) {
+    const min = parseNumber(field, range[1]);
+    const max = parseNumber(field, range[2]);
+    return min !== null && max !== null ? { kind: 'range', field, min, max, negated } : null;
+  }
+
+  const comparison = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  if (!comparison) return null;
+
+  const number = parseNumber(field, comparison[2]);
+  if (number === null) return null;
+
+  const operator = (comparison[1] ?? '=') as ComparisonOperator;
+  return { kind: 'compare', field, operator, value: number, negated };
+}
+
+/**
+ * Splits a query into raw tokens, keeping quoted phrases together.
+ * A quote may also follow a field qualifier, e.g. artist:"Daft Punk".
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of query) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+/**
+ * Parses a search query such as: artist:"Daft Punk" year:>2010 genre:house -live duration:<4m bitrate:>=320
+ *
+ * - Words and "quoted phrases" match title, artist, album or ISRC
+ * - field:value restricts the match to a field (title, artist, album, genre, isrc, path)
+ * - year, duration and bitrate support =, >, >=, <, <= and min..max ranges
+ * - A leading - negates a term
+ * Unknown fields and invalid numbers are searched as plain text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+
+  for (const token of tokenize(query)) {
+    let raw = token;
+    let negated = false;
+    if (raw.length > 1 && raw.startsWith('-')) {
+      negated = true;
+      raw = raw.substring(1);
+    }
+
+    const qualified = /^([a-z]+):(.+)$/i.exec(raw);
+    const field = qualified ? FIELD_ALIASES[qualified[1].toLowerCase()] : undefined;
+
+    if (qualified && field) {
+      const value = unquote(qualified[2]);
+      if (NUMERIC_FIELDS.has(field)) {
+        const term = parseNumericTerm(field, value, negated);
+        if (term) {
+          terms.push(term);
+          continue;
+        }
+      } else if (value) {
+        terms.push({ kind: 'text', field, value: normalizeSearch(value), negated });
+        continue;
+      }
+    }
+
+    const value = normalizeSearch(unquote(raw)).trim();
+    if (value) {
+      terms.push({ kind: 'text', field: null, value, negated });
+    }
+  }
+
+  return { terms };
+}
+
+/**
+ * Gets the unqualified, non-negated text of a query, used to rank results by relevance
+ */
+export function getSearchText(query: ParsedSearchQuery): string {
+  return query.terms
+    .flatMap(term => term.kind === 'text' && term.field === null && !term.negated ? [term.value] : [])
+    .join(' ');
+}
+
+function matchesText(value: string | number | null | undefined, text: string): boolean {
+  if (value === null || value === undefined) return false;
+  return normalizeSearch(String(value)).includes(text);
+}
+
+function matchesTerm(term: SearchTerm, values: SearchFieldValues): boolean {
+  if (term.kind === 'text') {
+    if (term.field === null) {
+      return DEFAULT_FIELDS.some(field => matchesText(values[field], term.value));
+    }
+    return matchesText(values[term.field], term.value);
+  }
+
+  const value = values[term.field];
+  if (typeof value !== 'number') return false;
+
+  if (term.kind === 'range') {
+    return value >= term.min && value <= term.max;
+  }
+
+  switch (term.operator) {
+    case '>': return value > term.value;
+    case '>=': return value >= term.value;
+    case '<': return value < term.value;
+    case '<=': return value <= term.value;
+    case '=':
+    default:
+      // Durations are rarely whole numbers of seconds, so compare them to the second
+      return term.field === 'duration' ? Math.floor(value) === term.value : value === term.value;
+  }
+}
+
+/**
+ * Checks whether an item matches every term of the query.
+ * Fields missing from the values never match, so a negated term on them always matches.
+ */
+export function matchesParsedQuery(query: ParsedSearchQuery, values: SearchFieldValues): boolean {
+  return query.terms.every(term => matchesTerm(term, values) !== term.negated);
+}
+
+export function getTrackSearchValues(track: TrackInfo): SearchFieldValues {
+  return {
+    title: track.title,
+    artist: track.artists,
+    album: track.album,
+    genre: track.genre,
+    isrc: track.isrc,
+    path: track.path,
+    year: track.year,
+    duration: track.duration,
+    bitrate: track.bitRate,
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import type { AlbumInfo, ArtistInfo, PlaylistSummary, TrackInfo } from '../types';
+import { mergeTracks, scoreSearchItem, scoreSearchTerm, searchLibrary } from './search';
+
+const createTrack = (id: string, title: string, artists: string, album: string): TrackInfo => ({
+  id,
+  title,
+  path: `${album}/${title}.mp3`,
+  artists,
+  artistId: null,
+  album,
+  albumId: null,
+  duration: 180,
+  track: null,
+  year: null,
+  genre: null,
+  bitRate: null,
+  size: 0,
+  contentType: 'audio/mpeg',
+  addedDate: null,
+  isrc: null,
+  replayGainTrackGain: null,
+  replayGainTrackPeak: null,
+  replayGainAlbumGain: null,
+  replayGainAlbumPeak: null,
+});
+
+const createAlbum = (id: string, name: string, artist: string): AlbumInfo => ({
+  id,
+  name,
+  artist,
+  artistId: null,
+  year: null,
+  genre: null,
+  duration: 0,
+  songCount: 0,
+  created: '2024-01-01T00:00:00Z',
+});
+
+const createArtist = (id: string, name: string): ArtistInfo => ({ id, name, albumCount: 1 });
+
+const createPlaylist = (id: string, name: string): PlaylistSummary => ({
+  id,
+  name,
+  trackCount: 0,
+  duration: 0,
+  created: '2024-01-01T00:00:00Z',
+  changed: '2024-01-01T00:00:00Z',
+  sortOrder: 0,
+});
+
+describe('search', () => {
+  describe('scoreSearchTerm', () => {
+    it('should rank exact, prefix, word and substring matches', () => {
+      expect(scoreSearchTerm('Daft Punk', 'daft punk')).toBe(4);
+      expect(scoreSearchTerm('Daft Punk', 'daft')).toBe(3);
+      expect(scoreSearchTerm('Daft Punk', 'punk')).toBe(2);
+      expect(scoreSearchTerm('Daft Punk', 'unk')).toBe(1);
+      expect(scoreSearchTerm('Daft Punk', 'rock')).toBe(0);
+    });
+
+    it('should ignore case and diacritics', () => {
+      expect(scoreSearchTerm('Beyoncé', 'beyonce')).toBe(4);
+      expect(scoreSearchTerm('Sigur Rós', 'ros')).toBe(2);
+    });
+
+    it('should return 0 for empty values', () => {
+      expect(scoreSearchTerm(null, 'a')).toBe(0);
+      expect(scoreSearchTerm('', 'a')).toBe(0);
+    });
+  });
+
+  describe('scoreSearchItem', () => {
+    it('should require every word to match a field', () => {
+      const fields = [{ value: 'One More Time', weight: 1 }, { value: 'Daft Punk', weight: 1 }];
+      expect(scoreSearchItem(fields, 'time daft')).toBeGreaterThan(0);
+      expect(scoreSearchItem(fields, 'time queen')).toBe(0);
+    });
+
+    it('should favor the whole query matching a single field', () => {
+      const phrase = [{ value: 'One More Time', weight: 1 }];
+      const scattered = [{ value: 'More', weight: 1 }, { value: 'One', weight: 1 }];
+      expect(scoreSearchItem(phrase, 'one more')).toBeGreaterThan(scoreSearchItem(scattered, 'one more'));
+    });
+  });
+
+  describe('searchLibrary', () => {
+    it('should group results by type', () => {
+      const results = searchLibrary('daft', {
+        tracks: [createTrack('t1', 'Around the World', 'Daft Punk', 'Homework')],
+        albums: [createAlbum('a1', 'Discovery', 'Daft Punk')],
+        artists: [createArtist('ar1', 'Daft Punk')],
+        playlists: [createPlaylist('p1', 'Daft mix'), createPlaylist('p2', 'Rock')],
+      });
+
+      expect(results.songs.map(t => t.id)).toEqual(['t1']);
+      expect(results.albums.map(a => a.id)).toEqual(['a1']);
+      expect(results.artists.map(a => a.id)).toEqual(['ar1']);
+      expect(results.playlists.map(p => p.id)).toEqual(['p1']);
+    });
+
+    it('should rank title matches above artist and album matches', () => {
+      const results = searchLibrary('love', {
+        tracks: [
+          createTrack('album', 'Intro', 'Someone', 'Love Songs'),
+          createTrack('artist', 'Intro', 'Love Inc', 'Album'),
+          createTrack('title', 'Love', 'Someone', 'Album'),
+        ],
+        albums: [],
+        artists: [],
+        playlists: [],
+      });
+
+      expect(results.songs.map(t => t.id)).toEqual(['title', 'artist', 'album']);
+    });
+
+    it('should return nothing for an empty query', () => {
+      const results = searchLibrary('  ', {
+        tracks: [createTrack('t1', 'Song', 'Artist', 'Album')],
+        albums: [],
+        artists: [],
+        playlists: [],
+      });
+
+      expect(results.songs).toEqual([]);
+    });
+  });
+
+  describe('mergeTracks', () => {
+    it('should keep the first occurrence of each track', () => {
+      const a = createTrack('1', 'A', 'Artist', 'Album');
+      const b = createTrack('2', 'B', 'Artist', 'Album');
+      const duplicate = createTrack('1', 'A (cached)', 'Artist', 'Album');
+
+      expect(mergeTracks([a], [duplicate, b])).toEqual([a, b]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { AlbumInfo, ArtistInfo, PlaylistSummary, TrackInfo } from '../types';
+import { normalizeSearch } from './helpers';
+import {
+  parseSearchQuery,
+  getSearchText,
+  matchesParsedQuery,
+  getTrackSearchValues,
+  type ParsedSearchQuery,
+  type SearchFieldValues,
+} from './search-query';
+
+export interface SearchSources {
+  tracks: TrackInfo[];
+  albums: AlbumInfo[];
+  artists: ArtistInfo[];
+  playlists: PlaylistSummary[];
+}
+
+export interface SearchResults {
+  songs: TrackInfo[];
+  albums: AlbumInfo[];
+  artists: ArtistInfo[];
+  playlists: PlaylistSummary[];
+}
+
+interface SearchField {
+  value: string | null | undefined;
+  weight: number;
+}
+
+/**
+ * Scores how well a normalized term matches a field value.
+ * Exact matches rank above prefixes, which rank above word prefixes and substrings.
+ */
+export function scoreSearchTerm(value: string | null | undefined, term: string): number {
+  if (!value || !term) return 0;
+
+  const normalized = normalizeSearch(value);
+  if (normalized === term) return 4;
+  if (normalized.startsWith(term)) return 3;
+
+  const index = normalized.indexOf(term);
+  if (index < 0) return 0;
+
+  // Match at the start of a word, e.g. "punk" in "daft punk"
+  return /[\p{L}\p{N}]/u.test(normalized.charAt(index - 1)) ? 1 : 2;
+}
+
+/**
+ * Scores an item against a query. Every word of the query must match at least one field,
+ * otherwise the score is 0. Matching the whole query in a single field gets a bonus.
+ */
+export function scoreSearchItem(fields: SearchField[], query: string): number {
+  const normalizedQuery = normalizeSearch(query).trim();
+  const terms = normalizedQuery.split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return 0;
+
+  let score = 0;
+  for (const term of terms) {
+    const termScore = Math.max(...fields.map(f => scoreSearchTerm(f.value, term) * f.weight));
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  if (terms.length > 1) {
+    score += Math.max(...fields.map(f => scoreSearchTerm(f.value, normalizedQuery) * f.weight)) * terms.length;
+  }
+
+  return score;
+}
+
+function rank<T>(
+  items: T[],
+  query: ParsedSearchQuery,
+  getValues: (item: T) => SearchFieldValues,
+  getFields: (item: T) => SearchField[],
+  getName: (item: T) => string
+): T[] {
+  // Queries made only of filters (e.g. year:>2010) have nothing to rank on
+  const text = getSearchText(query);
+
+  return items
+    .filter(item => matchesParsedQuery(query, getValues(item)))
+    .map(item => ({ item, score: text ? scoreSearchItem(getFields(item), text) : 1 }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || getName(a.item).localeCompare(getName(b.item)))
+    .map(result => result.item);
+}
+
+/**
+ * Searches the library using the advanced query syntax (see parseSearchQuery).
+ * Field filters apply to every group, so albums, artists and playlists only match filters on fields they have.
+ */
+export function searchLibrary(query: string, sources: SearchSources): SearchResults {
+  const parsed = parseSearchQuery(query);
+  if (parsed.terms.length === 0) {
+    return { songs: [], albums: [], artists: [], playlists: [] };
+  }
+
+  return {
+    songs: rank(
+      sources.tracks,
+      parsed,
+      getTrackSearchValues,
+      track => [
+        { value: track.title, weight: 1 },
+        { value: track.artists, weight: 0.8 },
+        { value: track.album, weight: 0.6 },
+        { value: track.isrc, weight: 0.5 },
+      ],
+      track => track.title
+    ),
+    albums: rank(
+      sources.albums,
+      parsed,
+      album => ({
+        album: album.name,
+        artist: album.artist,
+        genre: album.genre,
+        year: album.year,
+        duration: album.duration,
+      }),
+      album => [
+        { value: album.name, weight: 1 },
+        { value: album.artist, weight: 0.8 },
+      ],
+      album => album.name
+    ),
+    artists: rank(
+      sources.artists,
+      parsed,
+      artist => ({ artist: artist.name }),
+      artist => [{ value: artist.name, weight: 1 }],
+      artist => artist.name
+    ),
+    playlists: rank(
+      sources.playlists,
+      parsed,
+      playlist => ({ title: playlist.name, duration: playlist.duration }),
+      playlist => [{ value: playlist.name, weight: 1 }],
+      playlist => playlist.name
+    ),
+  };
+}
+
+/**
+ * Merges track lists, keeping the first occurrence of each track
+ */
+export function mergeTracks(...trackLists: TrackInfo[][]): TrackInfo[] {
+  const seen = new Set<string>();
+  const result: TrackInfo[] = [];
+  for (const tracks of trackLists) {
+    for (const track of tracks) {
+      if (!seen.has(track.id)) {
+        seen.add(track.id);
+        result.push(track);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import type { SmartPlaylist, TrackInfo } from '../types';
+import { createSmartPlaylistSummary, evaluateSmartPlaylist, matchesSmartPlaylistRule } from './smart-playlist';
+
+const NOW = new Date('2024-06-30T00:00:00Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createTrack = (overrides: Partial<TrackInfo> = {}): TrackInfo => ({
+  id: '1',
+  title: 'So What',
+  path: 'Miles Davis/Kind of Blue/01 So What.flac',
+  artists: 'Miles Davis',
+  artistId: null,
+  album: 'Kind of Blue',
+  albumId: null,
+  duration: 562.4,
+  track: 1,
+  year: 1959,
+  genre: 'Jazz',
+  bitRate: 1000,
+  size: 0,
+  contentType: 'audio/flac',
+  addedDate: new Date(NOW - 10 * DAY_MS).toISOString(),
+  isrc: null,
+  replayGainTrackGain: null,
+  replayGainTrackPeak: null,
+  replayGainAlbumGain: null,
+  replayGainAlbumPeak: null,
+  ...overrides,
+});
+
+const createSmartPlaylist = (overrides: Partial<SmartPlaylist> = {}): SmartPlaylist => ({
+  id: 'recent-jazz',
+  name: 'Recent Jazz',
+  match: 'all',
+  rules: [],
+  sortBy: 'year',
+  sortDirection: 'asc',
+  limit: null,
+  created: '2024-06-01T00:00:00Z',
+  changed: '2024-06-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('smart playlist', () => {
+  describe('matchesSmartPlaylistRule', () => {
+    it('should compare text ignoring case and accents', () => {
+      const track = createTrack({ genre: 'Jázz' });
+      expect(matchesSmartPlaylistRule(track, { field: 'genre', operator: 'is', value: 'jazz' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'genre', operator: 'isNot', value: 'jazz' }, NOW)).toBe(false);
+      expect(matchesSmartPlaylistRule(track, { field: 'artist', operator: 'contains', value: 'davis' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'album', operator: 'notContains', value: 'blue' }, NOW)).toBe(false);
+    });
+
+    it('should compare numbers', () => {
+      const track = createTrack();
+      expect(matchesSmartPlaylistRule(track, { field: 'year', operator: 'lessThan', value: '1960' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'bitRate', operator: 'greaterThan', value: '320' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'year', operator: 'is', value: 'abc' }, NOW)).toBe(false);
+    });
+
+    it('should parse durations', () => {
+      const track = createTrack();
+      expect(matchesSmartPlaylistRule(track, { field: 'duration', operator: 'greaterThan', value: '9m' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'duration', operator: 'is', value: '9:22' }, NOW)).toBe(true);
+    });
+
+    it('should match relative dates', () => {
+      const track = createTrack();
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'inLastDays', value: '30' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'inLastDays', value: '7' }, NOW)).toBe(false);
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'notInLastDays', value: '7' }, NOW)).toBe(true);
+    });
+
+    it('should match absolute dates', () => {
+      const track = createTrack();
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'greaterThan', value: '2024-06-01' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'lessThan', value: '2024-06-01' }, NOW)).toBe(false);
+    });
+
+    it('should only match negative rules when the value is missing', () => {
+      const track = createTrack({ year: null, addedDate: null });
+      expect(matchesSmartPlaylistRule(track, { field: 'year', operator: 'isNot', value: '2000' }, NOW)).toBe(true);
+      expect(matchesSmartPlaylistRule(track, { field: 'year', operator: 'greaterThan', value: '0' }, NOW)).toBe(false);
+      expect(matchesSmartPlaylistRule(track, { field: 'addedDate', operator: 'notInLastDays', value: '30' }, NOW)).toBe(true);
+    });
+  });
+
+  describe('evaluateSmartPlaylist', () => {
+    const tracks = [
+      createTrack({ id: '1', year: 1959 }),
+      createTrack({ id: '2', year: 1964, genre: 'Rock' }),
+      createTrack({ id: '3', year: 1970, addedDate: new Date(NOW - 90 * DAY_MS).toISOString() }),
+      createTrack({ id: '4', year: 1955 }),
+    ];
+
+    it('should match all rules', () => {
+      const playlist = createSmartPlaylist({
+        rules: [
+          { field: 'genre', operator: 'is', value: 'Jazz' },
+          { field: 'addedDate', operator: 'inLastDays', value: '30' },
+        ],
+      });
+
+      expect(evaluateSmartPlaylist(playlist, tracks, NOW).map(t => t.id)).toEqual(['4', '1']);
+    });
+
+    it('should match any rule', () => {
+      const playlist = createSmartPlaylist({
+        match: 'any',
+        rules: [
+          { field: 'genre', operator: 'is', value: 'Rock' },
+          { field: 'year', operator: 'greaterThan', value: '1965' },
+        ],
+      });
+
+      expect(evaluateSmartPlaylist(playlist, tracks, NOW).map(t => t.id)).toEqual(['2', '3']);
+    });
+
+    it('should include every track when there are no rules', () => {
+      expect(evaluateSmartPlaylist(createSmartPlaylist(), tracks, NOW)).toHaveLength(4);
+    });
+
+    it('should sort descending and apply the limit', () => {
+      const playlist = createSmartPlaylist({ sortDirection: 'desc', limit: 2 });
+      expect(evaluateSmartPlaylist(playlist, tracks, NOW).map(t => t.id)).toEqual(['3', '2']);
+    });
+  });
+
+  describe('createSmartPlaylistSummary', () => {
+    it('should use a virtual id', () => {
+      const summary = createSmartPlaylistSummary(createSmartPlaylist(), [createTrack({ duration: 10 }), createTrack({ duration: 20 })]);
+      expect(summary.id).toBe('virtual:smart:recent-jazz');
+      expect(summary.trackCount).toBe(2);
+      expect(summary.duration).toBe(30);
+    });
+  });
+});
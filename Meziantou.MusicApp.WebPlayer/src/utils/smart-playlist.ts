@@ -0,0 +1,194 @@
+import type {
+  PlaylistSummary,
+  SmartPlaylist,
+  SmartPlaylistField,
+  SmartPlaylistOperator,
+  SmartPlaylistRule,
+  SmartPlaylistSortField,
+  TrackInfo,
+} from '../types';
+import { SMART_PLAYLIST_PREFIX } from '../constants';
+import { normalizeSearch } from './helpers';
+import { parseDuration } from './search-query';
+
+type FieldType = 'text' | 'number' | 'date';
+
+export const SMART_PLAYLIST_FIELDS: { field: SmartPlaylistField; label: string; type: FieldType }[] = [
+  { field: 'title', label: 'Title', type: 'text' },
+  { field: 'artist', label: 'Artist', type: 'text' },
+  { field: 'album', label: 'Album', type: 'text' },
+  { field: 'genre', label: 'Genre', type: 'text' },
+  { field: 'path', label: 'Path', type: 'text' },
+  { field: 'year', label: 'Year', type: 'number' },
+  { field: 'duration', label: 'Duration', type: 'number' },
+  { field: 'bitRate', label: 'Bitrate (kbps)', type: 'number' },
+  { field: 'addedDate', label: 'Added date', type: 'date' },
+];
+
+export const SMART_PLAYLIST_OPERATORS: Record<FieldType, { operator: SmartPlaylistOperator; label: string }[]> = {
+  text: [
+    { operator: 'is', label: 'is' },
+    { operator: 'isNot', label: 'is not' },
+    { operator: 'contains', label: 'contains' },
+    { operator: 'notContains', label: 'does not contain' },
+  ],
+  number: [
+    { operator: 'is', label: 'is' },
+    { operator: 'isNot', label: 'is not' },
+    { operator: 'greaterThan', label: 'is greater than' },
+    { operator: 'lessThan', label: 'is less than' },
+  ],
+  date: [
+    { operator: 'inLastDays', label: 'in the last (days)' },
+    { operator: 'notInLastDays', label: 'not in the last (days)' },
+    { operator: 'greaterThan', label: 'is after' },
+    { operator: 'lessThan', label: 'is before' },
+  ],
+};
+
+export const SMART_PLAYLIST_SORT_FIELDS: { field: SmartPlaylistSortField; label: string }[] = [
+  { field: 'addedDate', label: 'Added date' },
+  { field: 'title', label: 'Title' },
+  { field: 'artist', label: 'Artist' },
+  { field: 'album', label: 'Album' },
+  { field: 'year', label: 'Year' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'bitRate', label: 'Bitrate' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getSmartPlaylistFieldType(field: SmartPlaylistField): FieldType {
+  return SMART_PLAYLIST_FIELDS.find(f => f.field === field)?.type ?? 'text';
+}
+
+export function getSmartPlaylistPlaylistId(playlist: SmartPlaylist): string {
+  return `${SMART_PLAYLIST_PREFIX}${playlist.id}`;
+}
+
+export function isSmartPlaylistId(playlistId: string): boolean {
+  return playlistId.startsWith(SMART_PLAYLIST_PREFIX);
+}
+
+function getTextValue(track: TrackInfo, field: SmartPlaylistField): string | null {
+  switch (field) {
+    case 'title': return track.title;
+    case 'artist': return track.artists;
+    case 'album': return track.album;
+    case 'genre': return track.genre;
+    case 'path': return track.path;
+    default: return null;
+  }
+}
+
+function getNumberValue(track: TrackInfo, field: SmartPlaylistField): number | null {
+  switch (field) {
+    case 'year': return track.year;
+    case 'duration': return track.duration;
+    case 'bitRate': return track.bitRate;
+    case 'addedDate': return track.addedDate ? new Date(track.addedDate).getTime() : null;
+    default: return null;
+  }
+}
+
+function parseRuleNumber(rule: SmartPlaylistRule): number | null {
+  if (rule.field === 'duration') {
+    return parseDuration(rule.value);
+  }
+
+  if (rule.field === 'addedDate') {
+    const date = new Date(rule.value).getTime();
+    return Number.isNaN(date) ? null : date;
+  }
+
+  const value = Number(rule.value.trim());
+  return rule.value.trim() && !Number.isNaN(value) ? value : null;
+}
+
+export function matchesSmartPlaylistRule(track: TrackInfo, rule: SmartPlaylistRule, now: number = Date.now()): boolean {
+  if (getSmartPlaylistFieldType(rule.field) === 'text') {
+    const value = normalizeSearch(getTextValue(track, rule.field) ?? '');
+    const expected = normalizeSearch(rule.value.trim());
+    switch (rule.operator) {
+      case 'is': return value === expected;
+      case 'isNot': return value !== expected;
+      case 'contains': return value.includes(expected);
+      case 'notContains': return !value.includes(expected);
+      default: return false;
+    }
+  }
+
+  const value = getNumberValue(track, rule.field);
+  if (value === null) {
+    // Tracks without a value only match negative rules
+    return rule.operator === 'isNot' || rule.operator === 'notInLastDays';
+  }
+
+  if (rule.operator === 'inLastDays' || rule.operator === 'notInLastDays') {
+    const days = Number(rule.value);
+    if (Number.isNaN(days)) return false;
+    const isRecent = value >= now - days * DAY_MS;
+    return rule.operator === 'inLastDays' ? isRecent : !isRecent;
+  }
+
+  const expected = parseRuleNumber(rule);
+  if (expected === null) return false;
+
+  switch (rule.operator) {
+    case 'is': return rule.field === 'duration' ? Math.floor(value) === expected : value === expected;
+    case 'isNot': return rule.field === 'duration' ? Math.floor(value) !== expected : value !== expected;
+    case 'greaterThan': return value > expected;
+    case 'lessThan': return value < expected;
+    default: return false;
+  }
+}
+
+function compareTracks(a: TrackInfo, b: TrackInfo, field: SmartPlaylistSortField): number {
+  switch (field) {
+    case 'title': return a.title.localeCompare(b.title);
+    case 'artist': return (a.artists || '').localeCompare(b.artists || '');
+    case 'album': return (a.album || '').localeCompare(b.album || '');
+    case 'year': return (a.year ?? 0) - (b.year ?? 0);
+    case 'duration': return a.duration - b.duration;
+    case 'bitRate': return (a.bitRate ?? 0) - (b.bitRate ?? 0);
+    case 'addedDate':
+    default: {
+      const dateA = a.addedDate ? new Date(a.addedDate).getTime() : 0;
+      const dateB = b.addedDate ? new Date(b.addedDate).getTime() : 0;
+      return dateA - dateB;
+    }
+  }
+}
+
+/**
+ * Gets the tracks of a smart playlist: filters by rules, then sorts and applies the limit
+ */
+export function evaluateSmartPlaylist(playlist: SmartPlaylist, tracks: TrackInfo[], now: number = Date.now()): TrackInfo[] {
+  const matches = (track: TrackInfo) => {
+    if (playlist.rules.length === 0) return true;
+    return playlist.match === 'all'
+      ? playlist.rules.every(rule => matchesSmartPlaylistRule(track, rule, now))
+      : playlist.rules.some(rule => matchesSmartPlaylistRule(track, rule, now));
+  };
+
+  const result = tracks
+    .filter(matches)
+    .sort((a, b) => {
+      const res = compareTracks(a, b, playlist.sortBy);
+      return playlist.sortDirection === 'asc' ? res : -res;
+    });
+
+  return playlist.limit !== null && playlist.limit > 0 ? result.slice(0, playlist.limit) : result;
+}
+
+export function createSmartPlaylistSummary(playlist: SmartPlaylist, tracks: TrackInfo[]): PlaylistSummary {
+  return {
+    id: getSmartPlaylistPlaylistId(playlist),
+    name: playlist.name,
+    trackCount: tracks.length,
+    duration: tracks.reduce((sum, t) => sum + t.duration, 0),
+    created: playlist.created,
+    changed: playlist.changed,
+    sortOrder: -1,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { applyTrackPlayEvent, createWeightedShuffleOrder, getShuffleWeight } from './track-stats';
+
+describe('applyTrackPlayEvent', () => {
+  it('should count plays and skips', () => {
+    let stats = applyTrackPlayEvent(undefined, '1', { type: 'play', position: 200, timestamp: 1000 });
+    stats = applyTrackPlayEvent(stats, '1', { type: 'skip', position: 12.4, timestamp: 2000 });
+
+    expect(stats).toEqual({ trackId: '1', playCount: 1, skipCount: 1, lastPlayedAt: 2000, skipPositions: [12] });
+  });
+
+  it('should only keep the most recent skip positions', () => {
+    let stats = applyTrackPlayEvent(undefined, '1', { type: 'skip', position: 0, timestamp: 0 });
+    for (let i = 1; i < 25; i++) {
+      stats = applyTrackPlayEvent(stats, '1', { type: 'skip', position: i, timestamp: i });
+    }
+
+    expect(stats.skipCount).toBe(25);
+    expect(stats.skipPositions).toHaveLength(20);
+    expect(stats.skipPositions[0]).toBe(5);
+    expect(stats.skipPositions[19]).toBe(24);
+  });
+});
+
+describe('getShuffleWeight', () => {
+  it('should lower the weight of frequently skipped tracks', () => {
+    const base = { trackId: '1', lastPlayedAt: null, skipPositions: [] };
+
+    expect(getShuffleWeight(undefined)).toBe(1);
+    expect(getShuffleWeight({ ...base, playCount: 10, skipCount: 0 })).toBe(1);
+    expect(getShuffleWeight({ ...base, playCount: 0, skipCount: 1 })).toBeCloseTo(2 / 3);
+    expect(getShuffleWeight({ ...base, playCount: 8, skipCount: 1 })).toBeGreaterThan(0.9);
+    expect(getShuffleWeight({ ...base, playCount: 0, skipCount: 100 })).toBe(0.1);
+  });
+});
+
+describe('createWeightedShuffleOrder', () => {
+  it('should return a permutation of the indexes', () => {
+    const order = createWeightedShuffleOrder([1, 0.5, 1, 0.1, 1]);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should put heavier items first for the same random value', () => {
+    expect(createWeightedShuffleOrder([0.1, 1, 0.5], () => 0.5)).toEqual([1, 2, 0]);
+  });
+
+  it('should play skipped tracks later on average', () => {
+    const weights = [0.1, 1, 1, 1, 1, 1, 1, 1, 1, 1];
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    let totalPosition = 0;
+    for (let i = 0; i < 200; i++) {
+      totalPosition += createWeightedShuffleOrder(weights, random).indexOf(0);
+    }
+
+    expect(totalPosition / 200).toBeGreaterThan(7);
+  });
+});
@@ -0,0 +1,71 @@
+import type { TrackPlayEvent, TrackPlayStats } from '../types';
+
+// Only the positions of the most recent skips are kept
+const MAX_SKIP_POSITIONS = 20;
+// Plays assumed for every track, so a single skip of a new track doesn't make it rare
+const SHUFFLE_WEIGHT_PRIOR = 2;
+// Even the most skipped tracks can still be picked
+const MIN_SHUFFLE_WEIGHT = 0.1;
+
+export function createTrackPlayStats(trackId: string): TrackPlayStats {
+  return { trackId, playCount: 0, skipCount: 0, lastPlayedAt: null, skipPositions: [] };
+}
+
+/**
+ * Adds a play or a skip to the counters of a track. Both update the last played date.
+ */
+export function applyTrackPlayEvent(stats: TrackPlayStats | undefined, trackId: string, event: TrackPlayEvent): TrackPlayStats {
+  const current = stats ?? createTrackPlayStats(trackId);
+  if (event.type === 'play') {
+    return { ...current, playCount: current.playCount + 1, lastPlayedAt: event.timestamp };
+  }
+
+  return {
+    ...current,
+    skipCount: current.skipCount + 1,
+    lastPlayedAt: event.timestamp,
+    skipPositions: [...current.skipPositions, Math.round(event.position)].slice(-MAX_SKIP_POSITIONS),
+  };
+}
+
+/**
+ * Weight of a track when shuffling with skipped tracks played later: 1 for tracks never skipped,
+ * decreasing with the share of skips.
+ */
+export function getShuffleWeight(stats: TrackPlayStats | undefined): number {
+  if (!stats || stats.skipCount === 0) return 1;
+
+  const skipRate = stats.skipCount / (stats.skipCount + stats.playCount + SHUFFLE_WEIGHT_PRIOR);
+  return Math.max(MIN_SHUFFLE_WEIGHT, 1 - skipRate);
+}
+
+/**
+ * Shuffles the indexes of the weights, heavier items being more likely to come first.
+ * Each item gets the key random^(1/weight), and the keys are sorted in descending order (Efraimidis-Spirakis).
+ */
+export function createWeightedShuffleOrder(weights: number[], random: () => number = Math.random): number[] {
+  const keys = weights.map(weight => Math.pow(random(), 1 / Math.max(weight, MIN_SHUFFLE_WEIGHT)));
+  return [...weights.keys()].sort((a, b) => keys[b] - keys[a]);
+}
+
+// Formats the date a track was last played relative to now, e.g. "3 days ago"
+export function formatLastPlayed(timestamp: number | null, now: number = Date.now()): string {
+  if (timestamp === null) return '';
+
+  const seconds = Math.round((timestamp - now) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+  ];
+  for (const [unit, length] of units) {
+    if (Math.abs(seconds) >= length) {
+      return formatter.format(Math.round(seconds / length), unit);
+    }
+  }
+  return formatter.format(0, 'minute');
+}
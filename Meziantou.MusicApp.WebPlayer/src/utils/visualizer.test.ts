@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getSpectrumBars, getVuLevels, getVuMeterPosition } from './visualizer';
+
+describe('getSpectrumBars', () => {
+  it('should group the bins logarithmically', () => {
+    // 1024 bins of about 21.5 Hz at 44.1 kHz
+    const data = new Uint8Array(1024);
+    data[4] = 255; // ~90 Hz
+    data[500] = 128; // ~10.8 kHz
+
+    const bars = getSpectrumBars(data, 10, 44100);
+
+    expect(bars).toHaveLength(10);
+    expect(bars[1]).toBe(1);
+    expect(bars[9]).toBeCloseTo(128 / 255);
+    expect(bars.filter(bar => bar > 0)).toHaveLength(2);
+  });
+});
+
+describe('getVuLevels', () => {
+  it('should compute the RMS and peak levels', () => {
+    const levels = getVuLevels(new Float32Array([0.5, -0.5, 0.5, -0.5]));
+
+    expect(levels.rms).toBeCloseTo(-6.02, 2);
+    expect(levels.peak).toBeCloseTo(-6.02, 2);
+    expect(getVuLevels(new Float32Array(4)).rms).toBe(-Infinity);
+  });
+});
+
+describe('getVuMeterPosition', () => {
+  it('should map the levels to the meter', () => {
+    expect(getVuMeterPosition(0)).toBe(1);
+    expect(getVuMeterPosition(-30)).toBe(0.5);
+    expect(getVuMeterPosition(-Infinity)).toBe(0);
+    expect(getVuMeterPosition(3)).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+// Frequency range shown by the spectrum, the bands are spaced logarithmically as heard
+const SPECTRUM_MIN_FREQUENCY = 40;
+const SPECTRUM_MAX_FREQUENCY = 16000;
+
+// Lowest level shown by the VU meter, in dBFS
+export const VU_METER_MIN_DB = -60;
+
+/**
+ * Groups the bins of AnalyserNode.getByteFrequencyData into bars with logarithmic spacing.
+ * Each bar is the maximum of its bins, between 0 and 1.
+ */
+export function getSpectrumBars(frequencyData: Uint8Array, barCount: number, sampleRate: number): number[] {
+  const binCount = frequencyData.length;
+  const binWidth = sampleRate / 2 / binCount;
+  const ratio = SPECTRUM_MAX_FREQUENCY / SPECTRUM_MIN_FREQUENCY;
+
+  const bars: number[] = [];
+  for (let bar = 0; bar < barCount; bar++) {
+    const startFrequency = SPECTRUM_MIN_FREQUENCY * Math.pow(ratio, bar / barCount);
+    const endFrequency = SPECTRUM_MIN_FREQUENCY * Math.pow(ratio, (bar + 1) / barCount);
+    const startBin = Math.min(binCount - 1, Math.floor(startFrequency / binWidth));
+    // Low bars are narrower than a bin, so they use at least one bin
+    const endBin = Math.min(binCount, Math.max(startBin + 1, Math.ceil(endFrequency / binWidth)));
+
+    let max = 0;
+    for (let i = startBin; i < endBin; i++) {
+      max = Math.max(max, frequencyData[i]);
+    }
+    bars.push(max / 255);
+  }
+
+  return bars;
+}
+
+/**
+ * Gets the RMS and peak levels, in dBFS, of samples from AnalyserNode.getFloatTimeDomainData
+ */
+export function getVuLevels(timeData: Float32Array): { rms: number; peak: number } {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < timeData.length; i++) {
+    sum += timeData[i] * timeData[i];
+    peak = Math.max(peak, Math.abs(timeData[i]));
+  }
+
+  const toDb = (value: number) => value > 0 ? 20 * Math.log10(value) : -Infinity;
+  return {
+    rms: toDb(timeData.length > 0 ? Math.sqrt(sum / timeData.length) : 0),
+    peak: toDb(peak),
+  };
+}
+
+// Position of a level on the VU meter, between 0 and 1
+export function getVuMeterPosition(db: number): number {
+  if (!(db > VU_METER_MIN_DB)) return 0;
+  return Math.min(1, 1 - db / VU_METER_MIN_DB);
+}
@@ -2,3 +2,8 @@
 /// <reference types="vite-plugin-pwa/react" />
 
 declare const __COMMIT_HASH__: string;
+
+// Not in the DOM types of TypeScript yet, and not supported by every browser
+interface AudioContext {
+  setSinkId?(sinkId: string): Promise<void>;
+}
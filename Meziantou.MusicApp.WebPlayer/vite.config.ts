@@ -88,9 +88,11 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // Plays the streams of the server progressively with the auth header
+        importScripts: ['stream-proxy-sw.js'],
         runtimeCaching: [
           {
-            urlPattern: /^https?:\/\/.*\/api\/songs\/.*\/cover/,
+            urlPattern: /^https?:\/\/.*\/api\/(songs|albums|artists)\/.*\/cover/,
             handler: 'CacheFirst',
             options: {
               cacheName: 'cover-art-cache',